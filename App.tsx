@@ -1,16 +1,126 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Session } from '@supabase/supabase-js';
 import { Dashboard } from './components/Dashboard';
-import { DEFAULT_TABLE } from './constants';
-import { Settings, Layers, Zap } from 'lucide-react';
+import { DataSourceConfig } from './components/DataSourceConfig';
+import { ConnectionManager } from './components/ConnectionManager';
+import { SignIn } from './components/SignIn';
+import { Spinner } from './components/Spinner';
+import { createSupabaseSource } from './services/dataSources';
+import { listProfiles, loadActiveProfile, loadUserProfiles, saveUserProfiles, saveActiveProfileId } from './services/connections';
+import { getClient, setActiveProfile } from './services/supabaseClient';
+import { resolveUserAccess, signOut, ROLE_LABELS } from './services/auth';
+import { clearCachedDatasets } from './services/offlineCache';
+import { clearInsightHistories } from './services/insightHistory';
+import { clearAlertFeeds } from './services/alerts';
+import { ALLOW_ANONYMOUS } from './constants';
+import { ConnectionProfile, DataSource, UserAccess } from './types';
+import { Settings, Layers, Zap, Server, UserCircle, LogOut, ShieldAlert } from 'lucide-react';
+
+const SOURCE_KIND_LABELS: Record<DataSource['kind'], string> = {
+  supabase: 'Table',
+  file: 'File',
+  fixture: 'Source',
+};
 
 const App: React.FC = () => {
-  const [tableName, setTableName] = useState(DEFAULT_TABLE);
-  const [inputTable, setInputTable] = useState(DEFAULT_TABLE);
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>(() => listProfiles());
+  const [profile, setProfile] = useState<ConnectionProfile>(() => {
+    // Set before the first render so lookups made by the dashboard use it
+    const active = loadActiveProfile(profiles);
+    setActiveProfile(active);
+    return active;
+  });
+  const [source, setSource] = useState<DataSource>(() => createSupabaseSource(profile.defaultTable, profile));
   const [isConfigOpen, setIsConfigOpen] = useState(false);
+  const [session, setSession] = useState<Session | null>(null);
+  const [authReady, setAuthReady] = useState(false);
+  // Browsing with the anon key only, without signing in
+  const [isGuest, setIsGuest] = useState(false);
+  const [authNotice, setAuthNotice] = useState<string | null>(null);
+  // Distinguishes a sign-out the user asked for from an expired session
+  const signingOutRef = useRef(false);
+
+  // Each connection has its own auth session
+  useEffect(() => {
+    const client = getClient(profile);
+    let active = true;
+    setAuthReady(false);
+    setSession(null);
+    setIsGuest(false);
+    setAuthNotice(null);
+
+    client.auth.getSession().then(({ data, error }) => {
+      if (!active) return;
+      if (error) console.warn("Could not restore session:", error.message);
+      setSession(data.session);
+      setAuthReady(true);
+    });
+
+    const { data: { subscription } } = client.auth.onAuthStateChange((event, next) => {
+      if (!active) return;
+      if (event === 'SIGNED_OUT') {
+        // Cached rows, insights and alerts belong to the session that loaded them
+        clearCachedDatasets();
+        clearInsightHistories();
+        clearAlertFeeds();
+        if (!signingOutRef.current) setAuthNotice('Your session has expired. Please sign in again.');
+        signingOutRef.current = false;
+      }
+      if (next) setAuthNotice(null);
+      setSession(next);
+    });
+
+    return () => {
+      active = false;
+      subscription.unsubscribe();
+    };
+  }, [profile]);
 
-  const handleTableSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    setTableName(inputTable);
+  // Accounts without a usable role are refused instead of being shown everything
+  const { access, accessError } = useMemo((): { access: UserAccess | null; accessError: string | null } => {
+    if (!session) return { access: null, accessError: null };
+    try {
+      return { access: resolveUserAccess(session), accessError: null };
+    } catch (err: any) {
+      return { access: null, accessError: err.message || 'Your account has no access to this dashboard.' };
+    }
+  }, [session]);
+
+  const handleSignOut = async () => {
+    signingOutRef.current = true;
+    try {
+      await signOut(getClient(profile));
+    } catch (err: any) {
+      signingOutRef.current = false;
+      console.warn("Sign-out failed:", err.message);
+    }
+  };
+
+  const switchProfile = (next: ConnectionProfile) => {
+    setActiveProfile(next);
+    saveActiveProfileId(next.id);
+    setProfile(next);
+    setSource(createSupabaseSource(next.defaultTable, next));
+  };
+
+  const handleProfileSave = (saved: ConnectionProfile) => {
+    const userProfiles = [...loadUserProfiles().filter(p => p.id !== saved.id), saved];
+    saveUserProfiles(userProfiles);
+    setProfiles(listProfiles(userProfiles));
+    // Editing the active connection reconnects with the new settings
+    if (saved.id === profile.id) switchProfile(saved);
+  };
+
+  const handleProfileDelete = (id: string) => {
+    const userProfiles = loadUserProfiles().filter(p => p.id !== id);
+    saveUserProfiles(userProfiles);
+    const next = listProfiles(userProfiles);
+    setProfiles(next);
+    if (id === profile.id) switchProfile(next[0]);
+  };
+
+  const handleSourceChange = (next: DataSource) => {
+    setSource(next);
     setIsConfigOpen(false);
   };
 
@@ -30,11 +140,30 @@ const App: React.FC = () => {
             </div>
             
             <div className="flex items-center gap-4">
+              {source.connection && (
+                <div className="hidden md:flex items-center gap-2 px-3 py-1.5 bg-slate-800 rounded-full border border-slate-700 text-xs text-slate-400" title={profile.url}>
+                  <Server className="w-3 h-3" />
+                  <span>Connection: <span className="text-indigo-400">{source.connection}</span></span>
+                </div>
+              )}
               <div className="hidden md:flex items-center gap-2 px-3 py-1.5 bg-slate-800 rounded-full border border-slate-700 text-xs text-slate-400">
                 <Layers className="w-3 h-3" />
-                <span>Table: <span className="text-indigo-400 font-mono">{tableName}</span></span>
+                <span>{SOURCE_KIND_LABELS[source.kind]}: <span className="text-indigo-400 font-mono">{source.label}</span></span>
               </div>
               
+              {access && (
+                <div className="flex items-center gap-2 pl-3 pr-1 py-1 bg-slate-800 rounded-full border border-slate-700 text-xs text-slate-400">
+                  <UserCircle className="w-3 h-3" />
+                  <span className="hidden md:inline">{access.email}</span>
+                  <span className="text-indigo-400">
+                    {ROLE_LABELS[access.role]}{access.department ? ` · ${access.department}` : ''}
+                  </span>
+                  <button onClick={handleSignOut} title="Sign out" className="p-1 rounded-full hover:text-white hover:bg-slate-700">
+                    <LogOut className="w-3 h-3" />
+                  </button>
+                </div>
+              )}
+
               <button 
                 onClick={() => setIsConfigOpen(!isConfigOpen)}
                 className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
@@ -53,37 +182,46 @@ const App: React.FC = () => {
         {isConfigOpen && (
           <div className="mb-8 p-6 bg-slate-800 border border-slate-700 rounded-xl animate-in slide-in-from-top-4 fade-in duration-200">
             <h2 className="text-lg font-semibold text-white mb-4">Dashboard Configuration</h2>
-            <form onSubmit={handleTableSubmit} className="flex gap-4 items-end">
-              <div className="flex-1 max-w-md">
-                <label className="block text-sm font-medium text-slate-400 mb-2">
-                  Target Supabase Table
-                </label>
-                <input
-                  type="text"
-                  value={inputTable}
-                  onChange={(e) => setInputTable(e.target.value)}
-                  className="w-full bg-slate-900 border border-slate-700 rounded-lg px-4 py-2 text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all"
-                  placeholder="e.g. orders, events, users"
-                />
-              </div>
-              <button 
-                type="submit"
-                className="px-6 py-2 bg-indigo-600 hover:bg-indigo-500 text-white font-medium rounded-lg transition-colors"
-              >
-                Update Dashboard
-              </button>
-            </form>
+            <div className="mb-6">
+              <ConnectionManager
+                profiles={profiles}
+                active={profile}
+                onSelect={switchProfile}
+                onSave={handleProfileSave}
+                onDelete={handleProfileDelete}
+              />
+            </div>
+            <DataSourceConfig source={source} profile={profile} onSourceChange={handleSourceChange} />
           </div>
         )}
 
         {/* Dashboard Content */}
-        <Dashboard 
-          tableName={tableName} 
-          onTableChange={(newTable) => {
-            setTableName(newTable);
-            setInputTable(newTable);
-          }}
-        />
+        {/* Files and fixtures are read locally, so only Supabase tables ask for a session */}
+        {source.kind === 'supabase' && !authReady ? (
+          <div className="flex justify-center py-24"><Spinner /></div>
+        ) : source.kind === 'supabase' && !session && !isGuest ? (
+          <SignIn
+            profile={profile}
+            notice={authNotice}
+            onContinueAsGuest={ALLOW_ANONYMOUS ? () => setIsGuest(true) : undefined}
+          />
+        ) : accessError ? (
+          <div className="max-w-md mx-auto mt-12 bg-slate-800 border border-slate-700 rounded-xl p-8 shadow-xl text-center space-y-4">
+            <ShieldAlert className="w-10 h-10 text-amber-400 mx-auto" />
+            <p className="text-sm text-slate-300">{accessError}</p>
+            <button onClick={handleSignOut} className="text-xs text-slate-400 hover:text-white underline">
+              Sign in with another account
+            </button>
+          </div>
+        ) : (
+          // Remounted per user so nothing loaded under one account leaks into another
+          <Dashboard 
+            key={access?.userId ?? 'guest'}
+            source={source} 
+            access={access}
+            onTableChange={(newTable) => setSource(createSupabaseSource(newTable, profile))}
+          />
+        )}
       </main>
     </div>
   );
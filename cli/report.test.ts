@@ -0,0 +1,59 @@
+import { execFile } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { promisify } from 'node:util';
+import { build } from 'vite';
+import { beforeAll, describe, expect, it } from 'vitest';
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+const fixture = fileURLToPath(new URL('../fixtures/orders.csv', import.meta.url));
+
+// Runs the bundled CLI the way `npm run report` does; west of UTC so that
+// calendar days read as UTC midnight would land in the wrong month
+const report = async (...args: string[]) => {
+  const { stdout } = await promisify(execFile)('node', ['dist-cli/report.js', ...args], {
+    cwd: root,
+    env: { ...process.env, TZ: 'America/Los_Angeles' }
+  });
+  return stdout;
+};
+
+beforeAll(async () => {
+  await build({ configFile: fileURLToPath(new URL('../vite.cli.config.ts', import.meta.url)), root, logLevel: 'warn' });
+}, 60_000);
+
+describe('report CLI', () => {
+  it('writes the aggregates of a file as JSON', async () => {
+    const output = JSON.parse(await report('--file', fixture, '--range', 'ytd', '--as-of', '2025-06-30'));
+    expect(output.source).toBe('orders.csv');
+    expect(output.rows).toEqual({ loaded: 8, inScope: 6, complete: true });
+    expect(output.totals).toEqual({ revenue: 9000, profit: 5500, revenueChange: null, profitChange: null });
+    expect(output.monthly.map((m: { month: string; revenue: number }) => [m.month, m.revenue])).toEqual([
+      ['Jan 25', 2500], ['Feb 25', 1500], ['Mar 25', 3800], ['Jun 25', 1200]
+    ]);
+    expect(output.departments.map((d: { name: string; profit: number }) => [d.name, d.profit])).toEqual([
+      ['Engineering', 2900], ['Marketing', 400], ['Sales', 2200]
+    ]);
+    expect(output.departments[0]).not.toHaveProperty('fill');
+    expect(output.topOrders[0]).toMatchObject({ id: 5, derived_profit: 2000 });
+  });
+
+  it('limits the report to one department', async () => {
+    const output = JSON.parse(await report('--file', fixture, '--department', 'sales'));
+    expect(output.rows).toEqual({ loaded: 8, inScope: 4, complete: true });
+    expect(output.totals.revenue).toBe(5400);
+  });
+
+  it('renders the same figures as Markdown', async () => {
+    const output = await report('--file', fixture, '--range', 'ytd', '--as-of', '2025-06-30', '--format', 'markdown');
+    expect(output).toContain('# orders.csv — Financial Report');
+    expect(output).toContain('## Revenue by Department');
+    expect(output).toContain('**Revenue:** $9,000.00');
+    expect(output).toContain('| Engineering | 4,200.00 | 1,300.00 | 2,900.00 |');
+  });
+
+  it('rejects more than one source', async () => {
+    await expect(report('--file', fixture, '--fixture')).rejects.toMatchObject({
+      stderr: 'Choose exactly one of --table, --file or --fixture.\n'
+    });
+  });
+});
@@ -0,0 +1,298 @@
+// Computes the dashboard's aggregates outside the browser and writes a report.
+//
+//   npm run report -- --table analytics --range ytd --format markdown --out digest.md
+//   npm run report -- --file orders.csv --fiscal-start 7 --format html --out report.html
+//
+// Supabase tables use SUPABASE_URL / SUPABASE_KEY, or a named entry of SUPABASE_PROFILES.
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import { BudgetEntry, ColumnMapping, ColumnRole, ComparisonMode, DataRow, DateRangeFilter, DateRangePreset, FiscalCalendar, FiscalPattern } from '../types';
+import { COLUMN_ROLES, resolveColumnKeys, readDept, readNumber } from '../services/columnMapping';
+import { DATE_RANGE_PRESETS, COMPARISON_LABELS, describeDateRange, parseDay } from '../services/dateRange';
+import { DEFAULT_FISCAL_CALENDAR, FISCAL_PATTERNS, describeFiscalCalendar, isValidTimeZone } from '../services/fiscalCalendar';
+import { computeAnalytics, AnalyticsResult } from '../services/analytics';
+import { createMoneyFormatter, MoneyFormatter } from '../services/currency';
+import { fetchBudgetTable } from '../services/budgets';
+import { buildReportHtml, buildReportMarkdown, ReportInput } from '../services/reportBuilder';
+import { listProfiles } from '../services/connections';
+import { getClient, fetchAllRows, setActiveProfile } from '../services/supabaseClient';
+import { findPrimaryKey } from '../services/rowReconciler';
+import { generateFixtureRows, parseSpreadsheet } from '../services/dataSources';
+
+const FORMATS = ['json', 'markdown', 'html'] as const;
+type ReportFormat = typeof FORMATS[number];
+
+const USAGE = `Usage: npm run report -- (--table <name> | --file <path> | --fixture) [options]
+
+Source
+  --table <name>           Supabase table or view
+  --profile <name>         Connection from SUPABASE_PROFILES (default: SUPABASE_URL / SUPABASE_KEY)
+  --file <path>            CSV or Excel file (first sheet)
+  --fixture                Built-in sample data
+
+Scope
+  --range <preset>         ${DATE_RANGE_PRESETS.filter(p => p.value !== 'custom').map(p => p.value).join(' | ')} (default: all)
+  --from <YYYY-MM-DD>      Custom range start; with --to, replaces --range
+  --to <YYYY-MM-DD>        Custom range end, inclusive
+  --compare <mode>         ${Object.keys(COMPARISON_LABELS).join(' | ')} (default: none)
+  --department <name>      Only this department
+  --as-of <YYYY-MM-DD>     Reference date for MTD/QTD/YTD (default: today)
+  --map <role=column>      Column for a role, repeatable; roles: ${COLUMN_ROLES.map(r => r.role).join(', ')}
+  --budget-table <name>    Supabase table of department budgets
+
+Fiscal calendar
+  --fiscal-start <1-12>    First month of the fiscal year (default: 1)
+  --fiscal-pattern <name>  ${Object.keys(FISCAL_PATTERNS).join(' | ')} (default: calendar)
+  --timezone <IANA name>   Reporting time zone (default: the machine's)
+
+Output
+  --format <name>          ${FORMATS.join(' | ')} (default: json)
+  --currency <code>        Currency amounts are shown in (default: USD)
+  --out <path>             Write to a file instead of stdout
+`;
+
+interface Options {
+  table?: string;
+  profile?: string;
+  file?: string;
+  fixture: boolean;
+  dateRange: DateRangeFilter;
+  department?: string;
+  asOf: Date;
+  mapping: ColumnMapping;
+  budgetTable?: string;
+  calendar: FiscalCalendar;
+  format: ReportFormat;
+  currency: string;
+  out?: string;
+}
+
+const parseOptions = (argv: string[]): Options | null => {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      table: { type: 'string' },
+      profile: { type: 'string' },
+      file: { type: 'string' },
+      fixture: { type: 'boolean', default: false },
+      range: { type: 'string', default: 'all' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      compare: { type: 'string', default: 'none' },
+      department: { type: 'string' },
+      'as-of': { type: 'string' },
+      map: { type: 'string', multiple: true, default: [] },
+      'budget-table': { type: 'string' },
+      'fiscal-start': { type: 'string', default: '1' },
+      'fiscal-pattern': { type: 'string', default: 'calendar' },
+      timezone: { type: 'string' },
+      format: { type: 'string', default: 'json' },
+      currency: { type: 'string', default: 'USD' },
+      out: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help) return null;
+
+  const sources = [values.table, values.file, values.fixture || undefined].filter(Boolean);
+  if (sources.length !== 1) throw new Error('Choose exactly one of --table, --file or --fixture.');
+
+  if (!DATE_RANGE_PRESETS.some(p => p.value === values.range)) throw new Error(`Unknown --range "${values.range}".`);
+  if (!(values.compare in COMPARISON_LABELS)) throw new Error(`Unknown --compare "${values.compare}".`);
+  [values.from, values.to, values['as-of']].forEach(day => {
+    if (day !== undefined && !parseDay(day)) throw new Error(`"${day}" is not a YYYY-MM-DD date.`);
+  });
+  const dateRange: DateRangeFilter = values.from || values.to
+    ? { preset: 'custom', from: values.from, to: values.to, comparison: values.compare as ComparisonMode }
+    : { preset: values.range as DateRangePreset, comparison: values.compare as ComparisonMode };
+
+  const mapping: ColumnMapping = {};
+  values.map.forEach(entry => {
+    const [role, column] = entry.split('=');
+    if (!COLUMN_ROLES.some(r => r.role === role) || !column) throw new Error(`--map expects role=column, got "${entry}".`);
+    mapping[role as ColumnRole] = column;
+  });
+
+  const startMonth = Number(values['fiscal-start']);
+  if (!Number.isInteger(startMonth) || startMonth < 1 || startMonth > 12) throw new Error('--fiscal-start must be a month number from 1 to 12.');
+  if (!(values['fiscal-pattern'] in FISCAL_PATTERNS)) throw new Error(`Unknown --fiscal-pattern "${values['fiscal-pattern']}".`);
+  if (values.timezone && !isValidTimeZone(values.timezone)) throw new Error(`Unknown time zone "${values.timezone}".`);
+
+  if (!(FORMATS as readonly string[]).includes(values.format)) throw new Error(`Unknown --format "${values.format}".`);
+
+  // A bare --as-of day means the end of that day, so the day itself is in range
+  const asOf = values['as-of'] ? parseDay(values['as-of']) as Date : new Date();
+  if (values['as-of']) asOf.setHours(23, 59, 59, 999);
+
+  return {
+    table: values.table,
+    profile: values.profile,
+    file: values.file,
+    fixture: values.fixture,
+    dateRange,
+    department: values.department,
+    asOf,
+    mapping,
+    budgetTable: values['budget-table'],
+    calendar: {
+      ...DEFAULT_FISCAL_CALENDAR,
+      startMonth: startMonth - 1,
+      pattern: values['fiscal-pattern'] as FiscalPattern,
+      timeZone: values.timezone ?? null
+    },
+    format: values.format as ReportFormat,
+    currency: values.currency,
+    out: values.out,
+  };
+};
+
+const useProfile = (name: string | undefined) => {
+  const profiles = listProfiles([]);
+  const profile = name ? profiles.find(p => p.name === name || p.id === name) : profiles.find(p => p.id === 'default');
+  if (!profile) throw new Error(`No connection named "${name}" in SUPABASE_PROFILES.`);
+  setActiveProfile(profile);
+  return profile;
+};
+
+const loadRows = async (options: Options): Promise<{ rows: DataRow[]; label: string; complete: boolean }> => {
+  if (options.fixture) return { rows: generateFixtureRows(options.asOf), label: 'Sample data', complete: true };
+  if (options.file) {
+    const { rows, label } = parseSpreadsheet(await readFile(options.file), basename(options.file));
+    return { rows, label, complete: true };
+  }
+  const table = options.table as string;
+  const profile = useProfile(options.profile);
+  const { rows, complete } = await fetchAllRows(getClient(profile), table, {
+    pickKey: sample => findPrimaryKey(sample, options.mapping)
+  });
+  return { rows, label: table, complete };
+};
+
+const loadBudgets = async (options: Options): Promise<BudgetEntry[]> => {
+  if (!options.budgetTable) return [];
+  // Budgets live on the same connection as the table being reported on
+  return fetchBudgetTable(getClient(useProfile(options.profile)), options.budgetTable);
+};
+
+const formatChange = (value: number | null) => (value === null ? '' : ` (${value >= 0 ? '+' : ''}${value.toFixed(1)}%)`);
+
+const buildReportInput = (label: string, result: AnalyticsResult, options: Options, money: MoneyFormatter, rowCount: string): ReportInput => {
+  const { monthlyChartData, deptChartData, topOrders, budgetVariance, totals, keys } = result;
+  return {
+    title: `${label} — Financial Report`,
+    generatedAt: new Date(),
+    filters: [
+      `Source: ${label}`,
+      `Date range: ${describeDateRange(options.dateRange, options.asOf, options.calendar)}`,
+      `Fiscal calendar: ${describeFiscalCalendar(options.calendar)}`,
+      `Comparison: ${COMPARISON_LABELS[options.dateRange.comparison]}`,
+      `Currency: ${money.currency}`,
+      ...(options.department ? [`Department: ${options.department}`] : []),
+      rowCount
+    ],
+    kpis: [
+      { label: 'Revenue', value: money.format(totals.revenue) + formatChange(totals.revenueChange) },
+      { label: 'Profit', value: money.format(totals.profit) + formatChange(totals.profitChange) },
+      { label: 'Rows in scope', value: result.scopeRows.length.toLocaleString() }
+    ],
+    insights: null,
+    sections: [
+      {
+        title: 'Monthly Revenue & Profit',
+        table: { columns: ['Month', 'Revenue', 'Expenses', 'Profit'], rows: monthlyChartData.map(m => [m.month, m.revenue, m.expenses, m.profit]) }
+      },
+      {
+        title: 'Revenue by Department',
+        table: {
+          columns: ['Department', 'Revenue', 'Expenses', 'Profit', 'Margin %'],
+          rows: deptChartData.map(d => [d.name, d.revenue, d.expenses, d.profit, d.margin])
+        }
+      },
+      ...(budgetVariance.length > 0 ? [{
+        title: 'Budget vs. Actual',
+        table: {
+          columns: ['Department', 'Rev. Budget', 'Rev. Actual', 'Rev. Variance', 'Exp. Budget', 'Exp. Actual', 'Exp. Variance'],
+          rows: budgetVariance.map(v => [
+            v.department, v.revenueBudget, v.revenueActual, v.revenueVariance,
+            v.expensesBudget, v.expensesActual, v.expensesVariance
+          ])
+        }
+      }] : []),
+      {
+        title: 'Top 10 Most Profitable Orders',
+        table: {
+          columns: ['Order ID', 'Date', 'Dept', 'Revenue', 'Profit'],
+          rows: topOrders.map((row, idx) => [
+            keys.idKey ? String(row[keys.idKey]) : String(idx + 1),
+            keys.dateKey && row[keys.dateKey] ? String(row[keys.dateKey]) : 'N/A',
+            readDept(row, keys.deptKey),
+            readNumber(row, keys.revKey),
+            row._derivedProfit
+          ])
+        }
+      }
+    ]
+  };
+};
+
+// Aggregates only; the rows behind them are left out to keep the file small
+const buildJson = (label: string, result: AnalyticsResult, options: Options, complete: boolean, rowCount: number) => JSON.stringify({
+  source: label,
+  generatedAt: new Date().toISOString(),
+  asOf: options.asOf.toISOString(),
+  dateRange: options.dateRange,
+  fiscalCalendar: options.calendar,
+  department: options.department ?? null,
+  currency: options.currency,
+  rows: { loaded: rowCount, inScope: result.scopeRows.length, complete },
+  columns: result.keys,
+  totals: result.totals,
+  monthly: result.monthlyChartData,
+  departments: result.deptChartData.map(({ fill, ...rest }) => rest),
+  topOrders: result.topOrders.map(({ _derivedProfit, ...row }) => ({ ...row, derived_profit: _derivedProfit })),
+  budgetVariance: result.budgetVariance
+}, null, 2) + '\n';
+
+const main = async () => {
+  const options = parseOptions(process.argv.slice(2));
+  if (!options) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const [{ rows: loaded, label, complete }, budgetEntries] = await Promise.all([loadRows(options), loadBudgets(options)]);
+  if (loaded.length === 0) throw new Error(`${label} has no rows.`);
+
+  const keys = resolveColumnKeys(loaded[0], options.mapping);
+  const target = options.department?.trim().toLowerCase();
+  const rows = target ? loaded.filter(row => readDept(row, keys.deptKey).trim().toLowerCase() === target) : loaded;
+
+  const result = computeAnalytics(rows, keys, {
+    dateRange: options.dateRange,
+    calendar: options.calendar,
+    budgetEntries,
+    scopedDepartment: options.department ?? null,
+    now: options.asOf
+  });
+
+  const money = createMoneyFormatter(options.currency);
+  const rowCount = `${loaded.length.toLocaleString()} rows${complete ? '' : ' (sampled)'}`;
+  const output = options.format === 'json'
+    ? buildJson(label, result, options, complete, loaded.length)
+    : options.format === 'markdown'
+      ? buildReportMarkdown(buildReportInput(label, result, options, money, rowCount))
+      : buildReportHtml(buildReportInput(label, result, options, money, rowCount));
+
+  if (options.out) {
+    await writeFile(options.out, output, 'utf8');
+    process.stderr.write(`Wrote ${options.format} report to ${options.out}\n`);
+  } else {
+    process.stdout.write(output);
+  }
+};
+
+main().catch((err: any) => {
+  process.stderr.write(`${err?.message || err}\n`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, AlertRule, AlertRuleKind } from '../types';
+import {
+  ALERT_RULE_KINDS, ALERT_MEASURES, ALERT_TEMPLATES, SNOOZE_OPTIONS, createAlertRule, isSnoozed,
+  notificationsSupported, requestNotificationPermission
+} from '../services/alerts';
+import { Bell, BellRing, Check, CheckCheck, Clock, Settings2, Plus, Trash2 } from 'lucide-react';
+
+interface Props {
+  alerts: Alert[];
+  rules: AlertRule[];
+  live: boolean;
+  onAlertsChange: (alerts: Alert[]) => void;
+  onRulesChange: (rules: AlertRule[]) => void;
+}
+
+const ITEMS_SHOWN = 25;
+
+const inputClass = "bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white outline-none focus:ring-2 focus:ring-indigo-500";
+
+const timeAgo = (iso: string) => {
+  const minutes = Math.round((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return new Date(iso).toLocaleDateString();
+};
+
+export const AlertPanel: React.FC<Props> = ({ alerts, rules, live, onAlertsChange, onRulesChange }) => {
+  const [showRules, setShowRules] = useState(false);
+  const [showAcknowledged, setShowAcknowledged] = useState(false);
+  const [snoozeMenu, setSnoozeMenu] = useState<string | null>(null);
+  const [permission, setPermission] = useState(notificationsSupported() ? Notification.permission : 'denied');
+  // Re-render when a snooze runs out
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const timer = setInterval(() => setTick(t => t + 1), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const visible = alerts.filter(a => !isSnoozed(a) && (showAcknowledged || !a.acknowledged));
+  const open = alerts.filter(a => !a.acknowledged && !isSnoozed(a)).length;
+  const snoozed = alerts.filter(a => !a.acknowledged && isSnoozed(a)).length;
+
+  const patchAlert = (id: string, patch: Partial<Alert>) =>
+    onAlertsChange(alerts.map(a => (a.id === id ? { ...a, ...patch } : a)));
+
+  const snooze = (id: string, minutes: number) => {
+    patchAlert(id, { snoozedUntil: new Date(Date.now() + minutes * 60000).toISOString() });
+    setSnoozeMenu(null);
+  };
+
+  const patchRule = (id: string, patch: Partial<AlertRule>) =>
+    onRulesChange(rules.map(r => (r.id === id ? { ...r, ...patch } : r)));
+
+  const enableNotifications = async () => {
+    const granted = await requestNotificationPermission();
+    setPermission(granted ? 'granted' : 'denied');
+  };
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-xl">
+      <div className="p-6 border-b border-slate-700 flex justify-between items-start">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            {open > 0 ? <BellRing className="w-5 h-5 text-amber-400" /> : <Bell className="w-5 h-5 text-slate-400" />}
+            Alerts
+            {open > 0 && <span className="px-2 py-0.5 rounded-full text-xs bg-amber-400/10 text-amber-400 border border-amber-400/20">{open}</span>}
+          </h3>
+          <p className="text-sm text-slate-400">
+            {rules.filter(r => r.enabled).length} active rules, checked on {live ? 'every incoming row and ' : ''}each recompute.
+            {snoozed > 0 && ` ${snoozed} snoozed.`}
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          {open > 0 && (
+            <button
+              onClick={() => onAlertsChange(alerts.map(a => (isSnoozed(a) ? a : { ...a, acknowledged: true })))}
+              title="Acknowledge all"
+              className="p-2 hover:bg-slate-700 rounded-full text-slate-400 hover:text-white"
+            >
+              <CheckCheck className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={() => setShowRules(!showRules)}
+            title="Alert rules"
+            className={`p-2 hover:bg-slate-700 rounded-full ${showRules ? 'text-indigo-400' : 'text-slate-400 hover:text-white'}`}
+          >
+            <Settings2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {showRules && (
+        <div className="p-6 border-b border-slate-700 bg-slate-900/40 space-y-3">
+          {rules.length === 0 && <p className="text-sm text-slate-500">No rules yet. Start from one of these:</p>}
+          {rules.map(rule => (
+            <div key={rule.id} className="flex flex-wrap items-center gap-2 text-xs text-slate-300">
+              <input type="checkbox" checked={rule.enabled} onChange={(e) => patchRule(rule.id, { enabled: e.target.checked })} title="Enabled" />
+              <input type="text" value={rule.name} onChange={(e) => patchRule(rule.id, { name: e.target.value })} className={`${inputClass} w-56`} />
+              <select value={rule.kind} onChange={(e) => patchRule(rule.id, { kind: e.target.value as AlertRuleKind })} className={inputClass}>
+                {(Object.keys(ALERT_RULE_KINDS) as AlertRuleKind[]).map(k => <option key={k} value={k}>{ALERT_RULE_KINDS[k]}</option>)}
+              </select>
+              {rule.kind !== 'negative-margin' && (
+                <select value={rule.measure} onChange={(e) => patchRule(rule.id, { measure: e.target.value })} className={inputClass}>
+                  {ALERT_MEASURES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                </select>
+              )}
+              {rule.kind === 'negative-margin' && <span className="text-slate-500">margin</span>}
+              <select value={rule.comparator} onChange={(e) => patchRule(rule.id, { comparator: e.target.value as AlertRule['comparator'] })} className={inputClass}>
+                <option value="above">above</option>
+                <option value="below">below</option>
+              </select>
+              <input
+                type="number"
+                value={rule.threshold}
+                onChange={(e) => patchRule(rule.id, { threshold: Number(e.target.value) || 0 })}
+                className={`${inputClass} w-24`}
+              />
+              {rule.kind === 'negative-margin' && <span className="text-slate-500">%</span>}
+              {rule.kind === 'monthly-growth' && (
+                <>
+                  <span className="text-slate-500">% of last month</span>
+                  <label className="flex items-center gap-1">
+                    <input type="checkbox" checked={rule.perDepartment} onChange={(e) => patchRule(rule.id, { perDepartment: e.target.checked })} />
+                    per department
+                  </label>
+                </>
+              )}
+              <label className="flex items-center gap-1" title={permission === 'granted' ? 'Show a browser notification' : 'Enable browser notifications first'}>
+                <input type="checkbox" checked={rule.notify} onChange={(e) => patchRule(rule.id, { notify: e.target.checked })} />
+                notify
+              </label>
+              <button onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))} title="Delete rule" className="p-1 text-slate-500 hover:text-red-400">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+          <div className="flex flex-wrap items-center gap-2 pt-1">
+            {ALERT_TEMPLATES.map(template => (
+              <button
+                key={template.name}
+                onClick={() => onRulesChange([...rules, createAlertRule(template)])}
+                className="flex items-center gap-1 px-2 py-0.5 text-xs rounded-full border border-slate-700 text-slate-400 hover:text-white hover:border-indigo-500"
+              >
+                <Plus className="w-3 h-3" /> {template.name}
+              </button>
+            ))}
+            {notificationsSupported() && permission !== 'granted' && (
+              <button onClick={enableNotifications} className="ml-auto text-xs text-indigo-400 hover:text-indigo-300">
+                Enable browser notifications
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {visible.length === 0 ? (
+        <p className="p-6 text-sm text-slate-500 italic">
+          {rules.length === 0 ? 'Add a rule to start watching incoming data.' : 'No open alerts.'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-slate-700 max-h-[360px] overflow-y-auto">
+          {visible.slice(0, ITEMS_SHOWN).map(alert => (
+            <li key={alert.id} className={`px-6 py-3 flex items-start gap-3 text-sm ${alert.acknowledged ? 'opacity-50' : ''}`}>
+              <div className="flex-1 min-w-0">
+                <p className="text-slate-200">{alert.message}</p>
+                <p className="text-xs text-slate-500 mt-0.5">{alert.ruleName} · {timeAgo(alert.createdAt)}</p>
+              </div>
+              {!alert.acknowledged && (
+                <div className="relative flex items-center gap-1 shrink-0">
+                  <button onClick={() => patchAlert(alert.id, { acknowledged: true })} title="Acknowledge" className="p-1.5 rounded-lg text-slate-400 hover:text-emerald-400 hover:bg-slate-700">
+                    <Check className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => setSnoozeMenu(snoozeMenu === alert.id ? null : alert.id)} title="Snooze" className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700">
+                    <Clock className="w-4 h-4" />
+                  </button>
+                  {snoozeMenu === alert.id && (
+                    <div className="absolute right-0 top-8 z-10 bg-slate-900 border border-slate-700 rounded-lg shadow-xl py-1">
+                      {SNOOZE_OPTIONS.map(option => (
+                        <button
+                          key={option.minutes}
+                          onClick={() => snooze(alert.id, option.minutes)}
+                          className="block w-full text-left px-3 py-1 text-xs text-slate-300 hover:bg-slate-700 whitespace-nowrap"
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {alerts.some(a => a.acknowledged) && (
+        <div className="px-6 py-2 border-t border-slate-700 flex justify-between text-xs">
+          <button onClick={() => setShowAcknowledged(!showAcknowledged)} className="text-slate-400 hover:text-white">
+            {showAcknowledged ? 'Hide acknowledged' : 'Show acknowledged'}
+          </button>
+          <button onClick={() => onAlertsChange(alerts.filter(a => !a.acknowledged))} className="text-slate-500 hover:text-red-400">
+            Clear acknowledged
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Anomaly, AnomalyRule } from '../types';
+import { ANOMALY_RULES } from '../services/anomalyDetection';
+import { ShieldAlert, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface Props {
+  anomalies: Anomaly[];
+  selected: Anomaly | null;
+  onSelect: (anomaly: Anomaly) => void;
+  actions?: React.ReactNode;
+}
+
+const ITEMS_PER_GROUP = 20;
+
+const SEVERITY_CLASSES: Record<Anomaly['severity'], string> = {
+  high: 'text-red-400 bg-red-400/10 border-red-400/20',
+  medium: 'text-amber-400 bg-amber-400/10 border-amber-400/20',
+  low: 'text-slate-300 bg-slate-700/40 border-slate-600',
+};
+
+export const AnomalyPanel: React.FC<Props> = ({ anomalies, selected, onSelect, actions }) => {
+  const [expanded, setExpanded] = useState<AnomalyRule | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  const groups = (Object.keys(ANOMALY_RULES) as AnomalyRule[])
+    .map(rule => ({ rule, items: anomalies.filter(a => a.rule === rule) }))
+    .filter(g => g.items.length > 0);
+
+  const toggle = (rule: AnomalyRule) => {
+    setExpanded(expanded === rule ? null : rule);
+    setShowAll(false);
+  };
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-xl">
+      <div className="p-6 border-b border-slate-700 flex justify-between items-start">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <ShieldAlert className="w-5 h-5 text-red-400" />
+            Flagged Records
+          </h3>
+          <p className="text-sm text-slate-400">
+            Rule-based checks on the rows in scope. Click a flag to highlight its row.
+          </p>
+        </div>
+        {actions}
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="p-6 text-sm text-slate-500 italic">No anomalies found in the current selection.</p>
+      ) : (
+        <div className="divide-y divide-slate-700">
+          {groups.map(group => (
+            <div key={group.rule}>
+              <button
+                onClick={() => toggle(group.rule)}
+                className="w-full flex items-center justify-between px-6 py-3 text-sm text-slate-200 hover:bg-slate-700/50 transition-colors"
+              >
+                <span className="flex items-center gap-2">
+                  {expanded === group.rule ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                  {ANOMALY_RULES[group.rule]}
+                </span>
+                <span className={`px-2 py-0.5 rounded-full text-xs border ${SEVERITY_CLASSES[group.items[0].severity]}`}>
+                  {group.items.length.toLocaleString()}
+                </span>
+              </button>
+              {expanded === group.rule && (
+                <ul className="px-6 pb-4 space-y-1">
+                  {(showAll ? group.items : group.items.slice(0, ITEMS_PER_GROUP)).map((anomaly, i) => (
+                    <li key={i}>
+                      <button
+                        onClick={() => onSelect(anomaly)}
+                        className={`w-full text-left text-xs p-2 rounded border transition-colors ${SEVERITY_CLASSES[anomaly.severity]} ${
+                          selected === anomaly ? 'ring-2 ring-indigo-500' : 'hover:brightness-125'
+                        }`}
+                      >
+                        {anomaly.reason}
+                        <span className="block text-slate-500 font-mono mt-0.5">Row ID: {anomaly.rowIds.join(', ')}</span>
+                      </button>
+                    </li>
+                  ))}
+                  {!showAll && group.items.length > ITEMS_PER_GROUP && (
+                    <li>
+                      <button onClick={() => setShowAll(true)} className="text-xs text-indigo-400 hover:text-white transition-colors">
+                        Show all {group.items.length.toLocaleString()}
+                      </button>
+                    </li>
+                  )}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
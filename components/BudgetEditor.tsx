@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { BudgetConfig, BudgetEntry } from '../types';
+import { Plus, Trash2, X } from 'lucide-react';
+
+interface Props {
+  config: BudgetConfig;
+  departments: string[];
+  onSave: (config: BudgetConfig) => void;
+  onClose: () => void;
+}
+
+const currentMonth = () => {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const parseAmount = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const n = Number(value);
+  return isNaN(n) ? null : n;
+};
+
+export const BudgetEditor: React.FC<Props> = ({ config, departments, onSave, onClose }) => {
+  const [draft, setDraft] = useState<BudgetConfig>(config);
+
+  useEffect(() => { setDraft(config); }, [config]);
+
+  const updateEntry = (index: number, patch: Partial<BudgetEntry>) => {
+    setDraft(prev => ({
+      ...prev,
+      entries: prev.entries.map((e, i) => (i === index ? { ...e, ...patch } : e))
+    }));
+  };
+
+  const addEntry = () => {
+    setDraft(prev => ({
+      ...prev,
+      entries: [...prev.entries, { department: departments[0] ?? '', month: currentMonth(), revenue: null, expenses: null }]
+    }));
+  };
+
+  const removeEntry = (index: number) => {
+    setDraft(prev => ({ ...prev, entries: prev.entries.filter((_, i) => i !== index) }));
+  };
+
+  const inputClass = "bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-sm text-white outline-none focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-xl">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Monthly Budgets</h3>
+          <p className="text-sm text-slate-400">Type budgets per department and month, or read them from a Supabase table.</p>
+        </div>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex gap-2 mb-4">
+        {(['manual', 'table'] as BudgetConfig['mode'][]).map(mode => (
+          <button
+            key={mode}
+            onClick={() => setDraft(prev => ({ ...prev, mode }))}
+            className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
+              draft.mode === mode ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            {mode === 'manual' ? 'Enter manually' : 'Supabase table'}
+          </button>
+        ))}
+      </div>
+
+      {draft.mode === 'table' ? (
+        <div className="max-w-md">
+          <label className="block text-sm font-medium text-slate-400 mb-2">Budget table</label>
+          <input
+            type="text"
+            value={draft.tableName ?? ''}
+            onChange={(e) => setDraft(prev => ({ ...prev, tableName: e.target.value }))}
+            placeholder="e.g. budgets"
+            className={`w-full ${inputClass}`}
+          />
+          <p className="mt-2 text-xs text-slate-500">
+            Needs a department column and a month column (date or YYYY-MM), plus revenue and/or expense budget columns.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <datalist id="budget-departments">
+            {departments.map(d => <option key={d} value={d} />)}
+          </datalist>
+          {draft.entries.length === 0 && (
+            <p className="text-sm text-slate-500 italic">No budgets yet.</p>
+          )}
+          {draft.entries.map((entry, index) => (
+            <div key={index} className="flex flex-wrap gap-2 items-center">
+              <input
+                list="budget-departments"
+                value={entry.department}
+                onChange={(e) => updateEntry(index, { department: e.target.value })}
+                placeholder="Department"
+                className={`w-40 ${inputClass}`}
+              />
+              <input
+                type="month"
+                value={entry.month}
+                onChange={(e) => updateEntry(index, { month: e.target.value })}
+                className={inputClass}
+              />
+              <input
+                type="number"
+                value={entry.revenue ?? ''}
+                onChange={(e) => updateEntry(index, { revenue: parseAmount(e.target.value) })}
+                placeholder="Revenue budget"
+                className={`w-36 ${inputClass}`}
+              />
+              <input
+                type="number"
+                value={entry.expenses ?? ''}
+                onChange={(e) => updateEntry(index, { expenses: parseAmount(e.target.value) })}
+                placeholder="Expense budget"
+                className={`w-36 ${inputClass}`}
+              />
+              <button onClick={() => removeEntry(index)} className="p-1.5 text-slate-500 hover:text-red-400 rounded">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button onClick={addEntry} className="flex items-center gap-1 text-xs text-indigo-400 hover:text-white transition-colors">
+            <Plus className="w-3 h-3" /> Add budget line
+          </button>
+        </div>
+      )}
+
+      <div className="flex justify-end mt-4">
+        <button
+          onClick={() => onSave({
+            ...draft,
+            entries: draft.entries.filter(e => e.department.trim() && e.month)
+          })}
+          className="px-4 py-2 text-sm bg-indigo-600 hover:bg-indigo-500 text-white font-medium rounded-lg transition-colors"
+        >
+          Save Budgets
+        </button>
+      </div>
+    </div>
+  );
+};
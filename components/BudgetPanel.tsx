@@ -0,0 +1,98 @@
+import React from 'react';
+import { BudgetVariance } from '../types';
+import { Target, Pencil, AlertCircle } from 'lucide-react';
+import { Spinner } from './Spinner';
+
+interface Props {
+  variance: BudgetVariance[];
+  loading: boolean;
+  error: string | null;
+  onEdit: () => void;
+  actions?: React.ReactNode;
+  formatMoney?: (value: number) => string;
+}
+
+const defaultFormat = (n: number) => n.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+
+const pct = (n: number | null) => (n === null ? '' : ` (${n >= 0 ? '+' : ''}${n.toFixed(1)}%)`);
+
+// Revenue under budget and expenses over budget are both unfavourable
+const varianceClass = (variance: number | null, favourableWhenPositive: boolean) => {
+  if (variance === null || variance === 0) return 'text-slate-400';
+  return (variance > 0) === favourableWhenPositive ? 'text-emerald-400' : 'text-red-400 font-semibold';
+};
+
+export const BudgetPanel: React.FC<Props> = ({ variance, loading, error, onEdit, actions, formatMoney = defaultFormat }) => {
+  const money = (n: number | null) => (n === null ? '—' : formatMoney(n));
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl overflow-hidden shadow-xl">
+      <div className="p-6 border-b border-slate-700 flex justify-between items-start">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Target className="w-5 h-5 text-sky-400" />
+            Budget vs. Actual
+          </h3>
+          <p className="text-sm text-slate-400">Variance for the selected period. Red marks revenue shortfall or overspend.</p>
+        </div>
+        <div className="flex items-center gap-1">
+          {actions}
+          <button
+            onClick={onEdit}
+            title="Edit budgets"
+            className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <Pencil className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {loading && <div className="flex justify-center py-8"><Spinner className="text-indigo-500" /></div>}
+
+      {!loading && error && (
+        <p className="p-6 text-sm text-red-400 flex items-center gap-2"><AlertCircle className="w-4 h-4" /> {error}</p>
+      )}
+
+      {!loading && !error && variance.length === 0 && (
+        <p className="p-6 text-sm text-slate-500 italic">No budgets cover this period. Use the pencil to add some.</p>
+      )}
+
+      {!loading && !error && variance.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-slate-400">
+            <thead className="bg-slate-900/50 text-slate-200 uppercase text-xs">
+              <tr>
+                <th className="px-4 py-3">Dept</th>
+                <th className="px-4 py-3 text-right">Rev. Budget</th>
+                <th className="px-4 py-3 text-right">Rev. Actual</th>
+                <th className="px-4 py-3 text-right">Rev. Variance</th>
+                <th className="px-4 py-3 text-right">Exp. Budget</th>
+                <th className="px-4 py-3 text-right">Exp. Actual</th>
+                <th className="px-4 py-3 text-right">Exp. Variance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700">
+              {variance.map(v => (
+                <tr key={v.department} className={`hover:bg-slate-700/50 transition-colors ${
+                  v.expensesVariance !== null && v.expensesVariance > 0 ? 'bg-red-500/5' : ''
+                }`}>
+                  <td className="px-4 py-3 text-white">{v.department}</td>
+                  <td className="px-4 py-3 text-right font-mono">{money(v.revenueBudget)}</td>
+                  <td className="px-4 py-3 text-right font-mono">{money(v.revenueActual)}</td>
+                  <td className={`px-4 py-3 text-right font-mono ${varianceClass(v.revenueVariance, true)}`}>
+                    {money(v.revenueVariance)}{pct(v.revenueVariancePct)}
+                  </td>
+                  <td className="px-4 py-3 text-right font-mono">{money(v.expensesBudget)}</td>
+                  <td className="px-4 py-3 text-right font-mono">{money(v.expensesActual)}</td>
+                  <td className={`px-4 py-3 text-right font-mono ${varianceClass(v.expensesVariance, false)}`}>
+                    {money(v.expensesVariance)}{pct(v.expensesVariancePct)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
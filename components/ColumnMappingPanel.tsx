@@ -0,0 +1,106 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ColumnMapping, DataRow } from '../types';
+import { COLUMN_ROLES, detectColumnKeys, checkColumnType } from '../services/columnMapping';
+import { Columns, CheckCircle2, AlertTriangle, X } from 'lucide-react';
+
+interface Props {
+  tableName: string;
+  data: DataRow[];
+  mapping: ColumnMapping;
+  onSave: (mapping: ColumnMapping) => void;
+  onClose: () => void;
+}
+
+// Select values for the two non-column choices
+const AUTO = '__auto__';
+const NONE = '__none__';
+
+export const ColumnMappingPanel: React.FC<Props> = ({ tableName, data, mapping, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ColumnMapping>(mapping);
+
+  useEffect(() => { setDraft(mapping); }, [mapping]);
+
+  const columns = useMemo(() => (data.length > 0 ? Object.keys(data[0]) : []), [data]);
+  const detected = useMemo(() => (data.length > 0 ? detectColumnKeys(data[0]) : null), [data]);
+
+  const handleChange = (role: string, value: string) => {
+    setDraft(prev => {
+      const next = { ...prev };
+      if (value === AUTO) delete next[role as keyof ColumnMapping];
+      else next[role as keyof ColumnMapping] = value === NONE ? null : value;
+      return next;
+    });
+  };
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-xl">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Columns className="w-5 h-5 text-indigo-400" />
+            Column Mapping
+          </h3>
+          <p className="text-sm text-slate-400">
+            Assign the columns of <span className="font-mono text-indigo-400">{tableName}</span> to each role. Saved for this table.
+          </p>
+        </div>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {COLUMN_ROLES.map(def => {
+          const override = draft[def.role];
+          const detectedKey = detected ? detected[def.key] : null;
+          const effective = override === undefined ? detectedKey : override;
+          const selectValue = override === undefined ? AUTO : override === null ? NONE : override;
+          const check = effective ? checkColumnType(data, effective, def.kind) : null;
+
+          return (
+            <div key={def.role} className="bg-slate-900/50 border border-slate-700 rounded-lg p-3">
+              <label className="block text-xs uppercase tracking-wider text-slate-500 font-bold mb-2">
+                {def.label} <span className="normal-case font-normal">({def.kind})</span>
+              </label>
+              <select
+                value={selectValue}
+                onChange={(e) => handleChange(def.role, e.target.value)}
+                className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value={AUTO}>Auto-detect ({detectedKey ?? 'none found'})</option>
+                <option value={NONE}>— None —</option>
+                {columns.map(col => (
+                  <option key={col} value={col}>{col}</option>
+                ))}
+              </select>
+              <div className="mt-2 text-xs flex items-center gap-1">
+                {!effective && <span className="text-slate-500 italic">Not used</span>}
+                {check && check.ok && (
+                  <span className="text-emerald-400 flex items-center gap-1"><CheckCircle2 className="w-3 h-3" /> {check.message}</span>
+                )}
+                {check && !check.ok && (
+                  <span className="text-amber-400 flex items-center gap-1"><AlertTriangle className="w-3 h-3" /> {check.message}</span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-end gap-2 mt-4">
+        <button
+          onClick={() => setDraft({})}
+          className="px-4 py-2 text-sm text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+        >
+          Reset to detected
+        </button>
+        <button
+          onClick={() => onSave(draft)}
+          className="px-4 py-2 text-sm bg-indigo-600 hover:bg-indigo-500 text-white font-medium rounded-lg transition-colors"
+        >
+          Save Mapping
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { ConnectionProfile } from '../types';
+import { normalizeProfile, DEFAULT_SCHEMA } from '../services/connections';
+import { Server, Plus, Pencil, Trash2, Check, AlertCircle } from 'lucide-react';
+
+interface Props {
+  profiles: ConnectionProfile[];
+  active: ConnectionProfile;
+  onSelect: (profile: ConnectionProfile) => void;
+  onSave: (profile: ConnectionProfile) => void;
+  onDelete: (id: string) => void;
+}
+
+type Draft = Pick<ConnectionProfile, 'name' | 'url' | 'key' | 'schema' | 'defaultTable'> & { id?: string };
+
+const EMPTY_DRAFT: Draft = { name: '', url: '', key: '', schema: DEFAULT_SCHEMA, defaultTable: '' };
+
+const FIELDS: { field: keyof Draft; label: string; placeholder: string; type?: string }[] = [
+  { field: 'name', label: 'Name', placeholder: 'e.g. Staging' },
+  { field: 'url', label: 'Project URL', placeholder: 'https://xyz.supabase.co' },
+  { field: 'key', label: 'Anon key', placeholder: 'eyJhbGciOi...', type: 'password' },
+  { field: 'schema', label: 'Schema', placeholder: DEFAULT_SCHEMA },
+  { field: 'defaultTable', label: 'Default table', placeholder: 'analytics' },
+];
+
+export const ConnectionManager: React.FC<Props> = ({ profiles, active, onSelect, onSave, onDelete }) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const startEdit = (profile?: ConnectionProfile) => {
+    setError(null);
+    setDraft(profile ? { ...profile } : EMPTY_DRAFT);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    try {
+      const profile = normalizeProfile(draft, 'user');
+      const clash = profiles.find(p => p.id === profile.id && p.id !== draft.id);
+      if (clash) throw new Error(`A connection named "${clash.name}" already exists.`);
+      onSave(profile);
+      setDraft(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-slate-400">Connection</label>
+        <button onClick={() => startEdit()} className="flex items-center gap-1 text-xs text-slate-400 hover:text-white">
+          <Plus className="w-3 h-3" /> Add connection
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {profiles.map(profile => (
+          <div
+            key={profile.id}
+            className={`flex items-center gap-1 pl-3 pr-1 py-1 rounded-lg border text-sm transition-colors ${
+              profile.id === active.id ? 'bg-indigo-600/20 border-indigo-500 text-white' : 'border-slate-700 text-slate-400'
+            }`}
+          >
+            <button onClick={() => onSelect(profile)} className="flex items-center gap-2 hover:text-white" title={`${profile.url} · ${profile.schema}`}>
+              <Server className="w-3 h-3" />
+              {profile.name}
+              {profile.id === active.id && <Check className="w-3 h-3 text-indigo-400" />}
+            </button>
+            {profile.origin === 'user' && (
+              <>
+                <button onClick={() => startEdit(profile)} title="Edit" className="p-1 hover:text-white">
+                  <Pencil className="w-3 h-3" />
+                </button>
+                <button onClick={() => onDelete(profile.id)} title="Delete" className="p-1 hover:text-red-400">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {draft && (
+        <form onSubmit={handleSave} className="mt-4 p-4 bg-slate-900/60 border border-slate-700 rounded-lg">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            {FIELDS.map(({ field, label, placeholder, type }) => (
+              <div key={field}>
+                <label className="block text-[10px] uppercase tracking-wider text-slate-500 font-bold mb-1">{label}</label>
+                <input
+                  type={type ?? 'text'}
+                  value={draft[field] ?? ''}
+                  onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                  placeholder={placeholder}
+                  className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-sm text-white outline-none focus:ring-2 focus:ring-indigo-500"
+                />
+              </div>
+            ))}
+          </div>
+          {error && (
+            <p className="mt-2 text-sm text-red-400 flex items-center gap-1">
+              <AlertCircle className="w-4 h-4" /> {error}
+            </p>
+          )}
+          <div className="flex justify-end gap-2 mt-3">
+            <button type="button" onClick={() => setDraft(null)} className="px-3 py-1 text-sm text-slate-400 hover:text-white">Cancel</button>
+            <button type="submit" className="px-4 py-1.5 text-sm bg-indigo-600 hover:bg-indigo-500 text-white font-medium rounded-lg transition-colors">
+              Save Connection
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
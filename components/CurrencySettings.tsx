@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { CurrencyConfig } from '../types';
+import { COMMON_CURRENCIES, parseRateFile } from '../services/currency';
+import { ACCEPTED_FILE_TYPES } from '../services/dataSources';
+import { Coins, X, AlertTriangle, AlertCircle, FileSpreadsheet } from 'lucide-react';
+import { Spinner } from './Spinner';
+
+interface Props {
+  config: CurrencyConfig;
+  currencyColumn: string | null;
+  currencies: string[];
+  unconverted: number;
+  rateCount: number;
+  rateError: string | null;
+  onSave: (config: CurrencyConfig) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<CurrencyConfig['rateSource'], string> = {
+  none: 'No conversion',
+  table: 'Supabase table',
+  file: 'Upload file',
+};
+
+export const CurrencySettings: React.FC<Props> = ({
+  config, currencyColumn, currencies, unconverted, rateCount, rateError, onSave, onClose
+}) => {
+  const [draft, setDraft] = useState<CurrencyConfig>(config);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  useEffect(() => { setDraft(config); }, [config]);
+
+  const options = COMMON_CURRENCIES.includes(draft.reportingCurrency)
+    ? COMMON_CURRENCIES
+    : [draft.reportingCurrency, ...COMMON_CURRENCIES];
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    setImportError(null);
+    try {
+      const rates = await parseRateFile(file);
+      setDraft(prev => ({ ...prev, fileName: file.name, fileRates: rates }));
+    } catch (err: any) {
+      console.warn("FX file error:", err);
+      setImportError(err.message || 'Failed to read rates');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const inputClass = "bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white outline-none focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-xl">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Coins className="w-5 h-5 text-amber-400" />
+            Currency
+          </h3>
+          <p className="text-sm text-slate-400">
+            {currencyColumn
+              ? <>Currency column <span className="font-mono text-indigo-400">{currencyColumn}</span> · {currencies.length > 0 ? currencies.join(', ') : 'no values'}</>
+              : 'No currency column detected; all amounts are treated as the reporting currency.'}
+          </p>
+        </div>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label className="block text-xs uppercase tracking-wider text-slate-500 font-bold mb-2">Reporting currency</label>
+          <select
+            value={draft.reportingCurrency}
+            onChange={(e) => setDraft(prev => ({ ...prev, reportingCurrency: e.target.value }))}
+            className={`w-full ${inputClass}`}
+          >
+            {options.map(code => <option key={code} value={code}>{code}</option>)}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-xs uppercase tracking-wider text-slate-500 font-bold mb-2">Exchange rates</label>
+          <div className="flex gap-2 mb-3">
+            {(Object.keys(SOURCE_LABELS) as CurrencyConfig['rateSource'][]).map(source => (
+              <button
+                key={source}
+                onClick={() => setDraft(prev => ({ ...prev, rateSource: source }))}
+                className={`px-3 py-1 text-xs rounded-lg transition-colors ${
+                  draft.rateSource === source ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                {SOURCE_LABELS[source]}
+              </button>
+            ))}
+          </div>
+
+          {draft.rateSource === 'table' && (
+            <input
+              type="text"
+              value={draft.tableName ?? ''}
+              onChange={(e) => setDraft(prev => ({ ...prev, tableName: e.target.value }))}
+              placeholder="e.g. fx_rates"
+              className={`w-full ${inputClass}`}
+            />
+          )}
+
+          {draft.rateSource === 'file' && (
+            <label className="flex items-center gap-2 px-3 py-2 border border-dashed border-slate-700 rounded-lg text-sm text-slate-400 hover:border-indigo-500 hover:text-white cursor-pointer transition-colors">
+              {importing ? <Spinner className="text-indigo-500" /> : <FileSpreadsheet className="w-4 h-4" />}
+              <span>{draft.fileName ? `${draft.fileName} (${draft.fileRates?.length ?? 0} rates)` : 'Choose a CSV or Excel file'}</span>
+              <input type="file" accept={ACCEPTED_FILE_TYPES} onChange={handleFile} disabled={importing} className="hidden" />
+            </label>
+          )}
+
+          {draft.rateSource !== 'none' && (
+            <p className="mt-2 text-xs text-slate-500">
+              Columns: date, base currency, quote currency, rate (1 base = rate quote). The latest rate on or before each transaction date is used.
+            </p>
+          )}
+          {importError && (
+            <p className="mt-2 text-xs text-red-400 flex items-center gap-1"><AlertCircle className="w-3 h-3" /> {importError}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="mt-4 space-y-1 text-xs">
+        {config.rateSource !== 'none' && !rateError && (
+          <p className="text-slate-400">{rateCount.toLocaleString()} rates loaded.</p>
+        )}
+        {rateError && (
+          <p className="text-red-400 flex items-center gap-1"><AlertCircle className="w-3 h-3" /> {rateError}</p>
+        )}
+        {unconverted > 0 && (
+          <p className="text-amber-400 flex items-center gap-1">
+            <AlertTriangle className="w-3 h-3" />
+            {unconverted.toLocaleString()} rows are in another currency with no rate and are left out of totals.
+          </p>
+        )}
+      </div>
+
+      <div className="flex justify-end mt-4">
+        <button
+          onClick={() => onSave(draft)}
+          className="px-4 py-2 text-sm bg-indigo-600 hover:bg-indigo-500 text-white font-medium rounded-lg transition-colors"
+        >
+          Save Currency Settings
+        </button>
+      </div>
+    </div>
+  );
+};
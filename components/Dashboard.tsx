@@ -1,223 +1,839 @@
-import React, { useEffect, useState, useMemo, useCallback } from 'react';
-import { supabase, checkTableExists } from '../services/supabaseClient';
-import { generateInsights } from '../services/geminiService';
-import { DataRow, InsightData } from '../types';
+import React, { useEffect, useState, useMemo, useCallback, useRef } from 'react';
+import { createInsightProvider, loadProviderSettings, saveProviderSettings } from '../services/insightProviders';
+import { buildInsightDigest, buildInsightPrompt } from '../services/insightDigest';
+import {
+  loadInsightHistory, saveInsightHistory, insightFingerprint, findCachedRun, recordInsightRun, diffInsights
+} from '../services/insightHistory';
+import { 
+  loadColumnMapping, saveColumnMapping, resolveColumnKeys, readNumber, readDept, readDate
+} from '../services/columnMapping';
+import {
+  applyRowChanges, canReconcile, findPrimaryKey, findChangeColumn, memoizeByRow, Watermark, advanceWatermark, watermarkOf
+} from '../services/rowReconciler';
+import { CachedDataset, datasetCacheKey, analyticsSettingsKey, loadCachedDataset, saveCachedDataset } from '../services/offlineCache';
+import { MAX_LOOKUP_ROWS } from '../services/relations';
+import { getActiveProfile, getSupabase } from '../services/supabaseClient';
+import {
+  DEFAULT_DATE_RANGE, COMPARISON_LABELS, shiftMonthKey, describeDateRange, isInRange
+} from '../services/dateRange';
+import { downloadText, reportFilename } from '../services/exporter';
+import {
+  loadCurrencyConfig, saveCurrencyConfig, fetchRateTable, createFxConverter, convertRow, createMoneyFormatter
+} from '../services/currency';
+import { loadWidgetLayout, saveWidgetLayout, resetWidgetLayout } from '../services/widgets';
+import { ANOMALY_RULES } from '../services/anomalyDetection';
+import { forecastSeries, backtestSeries, FORECAST_MODELS, FORECAST_HORIZONS } from '../services/forecast';
+import { loadBudgetConfig, saveBudgetConfig, fetchBudgetTable, computeBudgetVariance } from '../services/budgets';
+import { buildReportHtml, collectChartSvgs, openPrintableReport } from '../services/reportBuilder';
+import {
+  loadAlertRules, saveAlertRules, loadAlertFeed, saveAlertFeed, addAlerts, evaluateRowRules, showAlertNotification,
+  AlertMatch
+} from '../services/alerts';
+import { loadGridState, saveGridState, createGridFilter, hasActiveFilters } from '../services/dataGrid';
+import { AnalyticsResult, MonthPoint, MonthTotals, resolveAnalyticsRanges } from '../services/analytics';
+import { AccumulatorConfig, AnalyticsSnapshot } from '../services/incrementalAnalytics';
+import { AnalyticsEngine, createAnalyticsEngine } from '../services/analyticsWorkerClient';
+import {
+  loadFiscalCalendar, saveFiscalCalendar, fiscalPeriodLabel, fiscalPeriodKey, describeFiscalCalendar
+} from '../services/fiscalCalendar';
+import {
+  DataRow, ColumnMapping, DateRangeFilter, DrillFilter, DataSource, LoadProgress, RealtimeStatus,
+  BudgetConfig, BudgetEntry, ForecastSettings, ForecastModel, Anomaly, CurrencyConfig, FxRate, WidgetConfig,
+  InsightProviderSettings, InsightRun, UserAccess, Alert, AlertRule, GridState, FiscalCalendar, RowChange
+} from '../types';
 import { 
   AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
   BarChart, Bar, Legend, PieChart, Pie, Cell, ComposedChart, Line
 } from 'recharts';
 import { 
-  Activity, Database, RefreshCw, AlertCircle, 
-  Table as TableIcon, DollarSign, TrendingUp, PieChart as PieIcon,
-  Search
+  Database, RefreshCw, AlertCircle, Table as TableIcon,
+  Columns, Printer, FileDown, Coins, CalendarRange, WifiOff
 } from 'lucide-react';
 import { Spinner } from './Spinner';
 import { InsightsPanel } from './InsightsPanel';
+import { ColumnMappingPanel } from './ColumnMappingPanel';
+import { DateRangePicker } from './DateRangePicker';
+import { DeltaTooltip, formatDelta, deltaColor } from './DeltaTooltip';
+import { DrillBreadcrumb } from './DrillBreadcrumb';
+import { DrillRowsTable } from './DrillRowsTable';
+import { ExportMenu } from './ExportMenu';
+import { BudgetPanel } from './BudgetPanel';
+import { BudgetEditor } from './BudgetEditor';
+import { AnomalyPanel } from './AnomalyPanel';
+import { CurrencySettings } from './CurrencySettings';
+import { FiscalCalendarSettings } from './FiscalCalendarSettings';
+import { WidgetBoard } from './WidgetBoard';
+import { PresetView } from './WidgetCard';
+import { QueryPanel } from './QueryPanel';
+import { AlertPanel } from './AlertPanel';
+import { DataGrid } from './DataGrid';
+import { SchemaBrowser } from './SchemaBrowser';
+
+// Quiet time after the last change before the rows are written to the offline cache
+const CACHE_SAVE_DELAY_MS = 3000;
+// Realtime changes that cannot be matched to a row are folded into one reload
+const REFETCH_DELAY_MS = 1000;
 
-// --- Helper Utilities ---
+// Forecast values for a month; bands are [lower, upper] at 95%
+interface ForecastFields {
+  forecastRevenue: number;
+  revenueBand: [number, number];
+  forecastExpenses: number;
+  forecastProfit: number;
+  profitBand: [number, number];
+}
 
-// Fuzzy match column names
-const findKey = (row: DataRow, candidates: string[]): string | undefined => {
-  const keys = Object.keys(row).map(k => k.toLowerCase());
-  const found = candidates.find(c => keys.some(k => k.includes(c)));
-  if (!found) return undefined;
-  // Return actual case-sensitive key
-  return Object.keys(row).find(k => k.toLowerCase().includes(found));
-};
+type ForecastPoint = Pick<MonthTotals, 'month' | 'sortKey'> & ForecastFields & { isForecast: true };
 
-// Colors for charts
-const COLORS = ['#6366f1', '#ec4899', '#10b981', '#f59e0b', '#06b6d4', '#8b5cf6', '#a855f7', '#ef4444'];
+// A month on the trend chart: actual figures, forecast figures, or both where the series meet
+type MonthlySeriesPoint = Pick<MonthTotals, 'month' | 'sortKey'>
+  & Partial<Omit<MonthPoint, 'month' | 'sortKey'>>
+  & Partial<ForecastFields>
+  & { isForecast?: boolean };
 
 interface Props {
-  tableName: string;
+  source: DataSource;
+  // Signed-in user; null when browsing with the anon key
+  access: UserAccess | null;
   onTableChange: (newTable: string) => void;
 }
 
-export const Dashboard: React.FC<Props> = ({ tableName, onTableChange }) => {
+export const Dashboard: React.FC<Props> = ({ source, access, onTableChange }) => {
+  // Stored insights and alerts are kept per user, like the offline cache
+  const userId = access?.userId ?? null;
   const [data, setData] = useState<DataRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [tableExists, setTableExists] = useState(false);
-  const [realtimeStatus, setRealtimeStatus] = useState<'connecting' | 'connected' | 'disconnected'>('disconnected');
-  const [insights, setInsights] = useState<InsightData | null>(null);
+  const [realtimeStatus, setRealtimeStatus] = useState<RealtimeStatus>('disconnected');
+  const [insightHistory, setInsightHistory] = useState<InsightRun[]>(() => loadInsightHistory(source.id, userId));
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const [insightsCached, setInsightsCached] = useState(false);
   const [analyzing, setAnalyzing] = useState(false);
-  const [newTableInput, setNewTableInput] = useState('');
+  const [insightsError, setInsightsError] = useState<string | null>(null);
+  const [providerSettings, setProviderSettings] = useState<InsightProviderSettings>(loadProviderSettings);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>(() => loadColumnMapping(source.id));
+  const [isMappingOpen, setIsMappingOpen] = useState(false);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
+  const [dateRange, setDateRange] = useState<DateRangeFilter>(DEFAULT_DATE_RANGE);
+  const [drill, setDrill] = useState<DrillFilter>({});
+  const [showDrillRows, setShowDrillRows] = useState(false);
+  const [loadInfo, setLoadInfo] = useState<{ total: number | null; complete: boolean; incompleteLookups: string[] }>(
+    { total: null, complete: true, incompleteLookups: [] }
+  );
+  const chartsRef = useRef<HTMLDivElement>(null);
+  const [budgetConfig, setBudgetConfig] = useState<BudgetConfig>(() => loadBudgetConfig(source.id));
+  const [budgetEntries, setBudgetEntries] = useState<BudgetEntry[]>([]);
+  const [budgetLoading, setBudgetLoading] = useState(false);
+  const [budgetError, setBudgetError] = useState<string | null>(null);
+  const [isBudgetEditorOpen, setIsBudgetEditorOpen] = useState(false);
+  const [currencyConfig, setCurrencyConfig] = useState<CurrencyConfig>(() => loadCurrencyConfig(source.id));
+  const [fxRates, setFxRates] = useState<FxRate[]>([]);
+  const [fxError, setFxError] = useState<string | null>(null);
+  const [isCurrencyOpen, setIsCurrencyOpen] = useState(false);
+  const [widgetLayout, setWidgetLayout] = useState<WidgetConfig[]>(() => loadWidgetLayout(source.id));
+  const [selectedAnomaly, setSelectedAnomaly] = useState<Anomaly | null>(null);
+  const [forecastSettings, setForecastSettings] = useState<ForecastSettings>({ model: 'none', horizon: 6 });
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(() => loadAlertRules(source.id));
+  const [alertFeed, setAlertFeed] = useState<Alert[]>(() => loadAlertFeed(source.id, userId));
+  // Latest feed for matches arriving from the realtime handler
+  const alertFeedRef = useRef(alertFeed);
+  const [gridState, setGridState] = useState<GridState>(() => loadGridState(source.id));
+  // Shared by every source
+  const [fiscalCalendar, setFiscalCalendar] = useState<FiscalCalendar>(loadFiscalCalendar);
+  const [isFiscalOpen, setIsFiscalOpen] = useState(false);
+  // Aggregates from the analytics worker; null until the first snapshot arrives
+  const [snapshot, setSnapshot] = useState<AnalyticsSnapshot | null>(null);
+  const [analyticsError, setAnalyticsError] = useState<string | null>(null);
+  const engineRef = useRef<AnalyticsEngine | null>(null);
+  // Bumped when the worker asks for every row again
+  const [resyncCount, setResyncCount] = useState(0);
+  // Realtime changes already in `data` that the worker has not seen yet
+  const liveChangesRef = useRef<RowChange[]>([]);
+  // Set when `data` was replaced wholesale, so the worker starts over
+  const rowsReplacedRef = useRef(false);
+  // Settings the current snapshot was computed for, saved with it in the offline cache
+  const snapshotConfigRef = useRef<AccumulatorConfig | null>(null);
+  // Aggregates from the offline cache, shown until the worker's first snapshot
+  const cachedAnalyticsRef = useRef<CachedDataset['analytics']>(null);
+  // Latest change seen and when the rows last matched the server
+  const watermarkRef = useRef<Watermark | null>(null);
+  const syncedAtRef = useRef<string | null>(null);
+  // Set while showing cached rows that have not been brought up to date yet
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  // Set after catching up on changes instead of loading everything again
+  const [missedDeletes, setMissedDeletes] = useState(false);
+
+  useEffect(() => {
+    setColumnMapping(loadColumnMapping(source.id));
+    setBudgetConfig(loadBudgetConfig(source.id));
+    setCurrencyConfig(loadCurrencyConfig(source.id));
+    setWidgetLayout(loadWidgetLayout(source.id));
+    setDrill({});
+    setShowDrillRows(false);
+    setSelectedAnomaly(null);
+    setInsightHistory(loadInsightHistory(source.id, userId));
+    setActiveRunId(null);
+    setInsightsError(null);
+    setGridState(loadGridState(source.id));
+    setAlertRules(loadAlertRules(source.id));
+    const feed = loadAlertFeed(source.id, userId);
+    alertFeedRef.current = feed;
+    setAlertFeed(feed);
+  }, [source, userId]);
+
+  // Column roles for the current table: saved overrides on top of auto-detection.
+  // Only the first row's columns matter here.
+  const firstRow = data.length > 0 ? data[0] : null;
+  const columnKeys = useMemo(
+    () => (firstRow ? resolveColumnKeys(firstRow, columnMapping) : null),
+    [firstRow, columnMapping]
+  );
+
+  // Unique row identity for realtime changes; null when the table has none
+  const primaryKey = firstRow ? findPrimaryKey(firstRow, columnMapping) : null;
+
+  // Latest keys for the realtime handler, which outlives individual renders
+  const columnKeysRef = useRef(columnKeys);
+  columnKeysRef.current = columnKeys;
+  const primaryKeyRef = useRef(primaryKey);
+  primaryKeyRef.current = primaryKey;
+  // Alert check for incoming rows, reassigned every render (see Alerts below)
+  const checkLiveRowRef = useRef<(row: DataRow) => void>(() => {});
+
+  const handleMappingSave = (mapping: ColumnMapping) => {
+    saveColumnMapping(source.id, mapping);
+    setColumnMapping(mapping);
+    setIsMappingOpen(false);
+  };
+
+  const handleBudgetSave = (config: BudgetConfig) => {
+    saveBudgetConfig(source.id, config);
+    setBudgetConfig(config);
+    setIsBudgetEditorOpen(false);
+  };
+
+  const handleCurrencySave = (config: CurrencyConfig) => {
+    saveCurrencyConfig(source.id, config);
+    setCurrencyConfig(config);
+    setIsCurrencyOpen(false);
+  };
+
+  const handleFiscalSave = (calendar: FiscalCalendar) => {
+    saveFiscalCalendar(calendar);
+    setFiscalCalendar(calendar);
+    // A drilled-into month is keyed by the old calendar's periods
+    setDrill(prev => ({ ...prev, month: undefined, monthLabel: undefined }));
+    setIsFiscalOpen(false);
+  };
+
+  const handleLayoutChange = (layout: WidgetConfig[]) => {
+    saveWidgetLayout(source.id, layout);
+    setWidgetLayout(layout);
+  };
+
+  const handleGridStateChange = (state: GridState) => {
+    saveGridState(source.id, state);
+    setGridState(state);
+  };
+
+  const handleLayoutReset = () => {
+    resetWidgetLayout(source.id);
+    setWidgetLayout(loadWidgetLayout(source.id));
+  };
 
   // --- Data Fetching ---
 
-  const fetchData = useCallback(async () => {
-    setLoading(true);
+  // Rows of live tables are cached per table and user
+  const cacheKey = source.capabilities.refresh ? datasetCacheKey(source.id, userId) : null;
+
+  // A background load keeps the current (cached) rows on screen and only reports
+  // failures, so the dashboard keeps working offline
+  const fetchData = useCallback(async (background = false) => {
+    if (!background) {
+      setLoading(true);
+      setRealtimeStatus('disconnected');
+    }
     setError(null);
-    setRealtimeStatus('disconnected');
     
     try {
-      const exists = await checkTableExists(tableName);
-      if (!exists) {
-        setTableExists(false);
-        throw new Error(`Table "${tableName}" was not found or is not accessible.`);
-      }
-
-      setTableExists(true);
-
-      const { data: rows, error: fetchError } = await supabase
-        .from(tableName)
-        .select('*')
-        .limit(1000); // Increased limit for better analytics
-
-      if (fetchError) throw fetchError;
+      const mapping = loadColumnMapping(source.id);
+      const department = access?.department ?? null;
+      const { rows, total, complete, incompleteLookups = [] } = await source.load({
+        pickKey: (sample) => findPrimaryKey(sample, mapping),
+        // Department heads only request their department's rows
+        pickScope: department === null ? undefined : (sample) => {
+          const { deptKey } = resolveColumnKeys(sample, mapping);
+          if (!deptKey) throw new Error(`${source.label} has no department column, so it cannot be limited to ${department}.`);
+          return { column: deptKey, value: department };
+        },
+        onProgress: setLoadProgress
+      });
 
       // Sort by date if possible
-      const dateK = rows && rows.length > 0 ? findKey(rows[0], ['created_at', 'date', 'time']) : null;
-      const sortedRows = rows ? [...rows].sort((a, b) => {
+      const dateK = rows.length > 0 ? resolveColumnKeys(rows[0], mapping).dateKey : null;
+      const sortedRows = [...rows].sort((a, b) => {
         if (!dateK) return 0;
         return new Date(a[dateK]).getTime() - new Date(b[dateK]).getTime();
-      }) : [];
+      });
 
+      watermarkRef.current = watermarkOf(sortedRows);
+      syncedAtRef.current = new Date().toISOString();
+      rowsReplacedRef.current = true;
+      setLoadInfo({ total, complete, incompleteLookups });
       setData(sortedRows);
+      setCachedAt(null);
+      setSyncError(null);
+      setMissedDeletes(false);
     } catch (err: any) {
       console.warn("Dashboard Error:", err);
-      setError(err.message || 'Failed to fetch data');
+      if (background) setSyncError(err.message || 'Failed to fetch data');
+      else setError(err.message || 'Failed to fetch data');
     } finally {
-      setLoading(false);
+      if (!background) setLoading(false);
+      setLoadProgress(null);
     }
-  }, [tableName]);
+  }, [source, access]);
 
+  // Opens with the cached rows when there are any, then brings them up to date
   useEffect(() => {
-    fetchData();
-  }, [fetchData]);
+    let cancelled = false;
+    setLoading(true);
+    setCachedAt(null);
+    setSyncError(null);
+    cachedAnalyticsRef.current = null;
 
-  // Realtime
+    const open = async () => {
+      const cached = cacheKey ? await loadCachedDataset(cacheKey) : null;
+      if (cancelled) return;
+      if (!cached || cached.rows.length === 0) {
+        fetchData();
+        return;
+      }
+
+      // Caches written before catch-up required an update-timestamp column may hold a creation-time watermark
+      const sample = cached.rows[0];
+      const watermark = cached.watermark && cached.watermark.column === findChangeColumn(sample) ? cached.watermark : null;
+      watermarkRef.current = watermark;
+      syncedAtRef.current = cached.syncedAt;
+      cachedAnalyticsRef.current = cached.analytics;
+      rowsReplacedRef.current = true;
+      setLoadInfo({ total: cached.total, complete: cached.complete, incompleteLookups: cached.incompleteLookups ?? [] });
+      setData(cached.rows);
+      setCachedAt(cached.syncedAt);
+      setError(null);
+      setRealtimeStatus('disconnected');
+      setLoading(false);
+
+      // Catching up from the watermark needs rows that can be matched by key;
+      // otherwise everything is loaded again behind the cached rows
+      if (!watermark || !findPrimaryKey(sample, loadColumnMapping(source.id)) || !source.fetchChangedSince) fetchData(true);
+    };
+    open();
+    return () => { cancelled = true; };
+  }, [source, cacheKey, fetchData]);
+
+  // Budgets: typed-in entries, or the rows of the configured budget table
   useEffect(() => {
-    if (!tableExists || loading || error) return;
-    setRealtimeStatus('connecting');
-    const channel = supabase
-      .channel(`public:${tableName}`)
-      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: tableName }, (payload) => {
-          setData(prev => [...prev, payload.new].slice(-1000));
+    setBudgetError(null);
+    if (budgetConfig.mode === 'manual' || !budgetConfig.tableName) {
+      setBudgetEntries(budgetConfig.mode === 'manual' ? budgetConfig.entries : []);
+      return;
+    }
+
+    let cancelled = false;
+    setBudgetLoading(true);
+    fetchBudgetTable(source.client ?? getSupabase(), budgetConfig.tableName)
+      .then(entries => { if (!cancelled) setBudgetEntries(entries); })
+      .catch((err: any) => {
+        console.warn("Budget Error:", err);
+        if (!cancelled) {
+          setBudgetEntries([]);
+          setBudgetError(err.message || 'Failed to load budgets');
+        }
       })
-      .subscribe((status) => {
-        if (status === 'SUBSCRIBED') setRealtimeStatus('connected');
-        else setRealtimeStatus('disconnected');
+      .finally(() => { if (!cancelled) setBudgetLoading(false); });
+    return () => { cancelled = true; };
+  }, [budgetConfig, source]);
+
+  // Exchange rates for the configured source
+  useEffect(() => {
+    setFxError(null);
+    if (currencyConfig.rateSource === 'file') {
+      setFxRates(currencyConfig.fileRates ?? []);
+      return;
+    }
+    if (currencyConfig.rateSource === 'none' || !currencyConfig.tableName) {
+      setFxRates([]);
+      return;
+    }
+
+    let cancelled = false;
+    fetchRateTable(source.client ?? getSupabase(), currencyConfig.tableName)
+      .then(rates => { if (!cancelled) setFxRates(rates); })
+      .catch((err: any) => {
+        console.warn("FX Error:", err);
+        if (!cancelled) {
+          setFxRates([]);
+          setFxError(err.message || 'Failed to load exchange rates');
+        }
       });
-    return () => { supabase.removeChannel(channel); };
-  }, [tableName, tableExists, loading, error]);
+    return () => { cancelled = true; };
+  }, [currencyConfig, source]);
 
-  // AI Insights
-  const triggerAnalysis = useCallback(async () => {
-    if (data.length === 0) return;
-    setAnalyzing(true);
-    const result = await generateInsights(tableName, data);
-    setInsights(result);
-    setAnalyzing(false);
-  }, [data, tableName]);
+  // Realtime
+
+  // Loads everything again, once per burst, for changes that cannot be matched to a row
+  const refetchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const scheduleRefetchRef = useRef(() => {});
+  scheduleRefetchRef.current = () => {
+    if (refetchTimerRef.current) return;
+    refetchTimerRef.current = setTimeout(() => {
+      refetchTimerRef.current = null;
+      fetchData(true);
+    }, REFETCH_DELAY_MS);
+  };
+  // Changes waiting to go into the rows; a burst of them is applied in one pass
+  const pendingChangesRef = useRef<RowChange[]>([]);
+  const flushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useEffect(() => () => {
+    if (refetchTimerRef.current) clearTimeout(refetchTimerRef.current);
+    if (flushTimerRef.current) clearTimeout(flushTimerRef.current);
+  }, []);
 
+  // Applies a pushed or caught-up change to the rows. Caught-up rows may have been
+  // seen before, so row rules only run on pushed changes.
+  const applyLiveChange = useCallback((change: RowChange, caughtUp = false) => {
+    // Without a unique key an update or delete could hit any number of rows
+    if (!canReconcile(change, primaryKeyRef.current)) {
+      scheduleRefetchRef.current();
+      return;
+    }
+    if (change.eventType !== 'DELETE') {
+      if (!caughtUp) checkLiveRowRef.current(change.new);
+      watermarkRef.current = watermarkRef.current ? advanceWatermark(watermarkRef.current, change.new) : watermarkOf([change.new]);
+    }
+    syncedAtRef.current = new Date().toISOString();
+    pendingChangesRef.current.push(change);
+    if (flushTimerRef.current) return;
+    flushTimerRef.current = setTimeout(() => {
+      flushTimerRef.current = null;
+      const changes = pendingChangesRef.current;
+      pendingChangesRef.current = [];
+      liveChangesRef.current.push(...changes);
+      const primaryKey = primaryKeyRef.current;
+      const dateKey = columnKeysRef.current?.dateKey ?? null;
+      setData(prev => applyRowChanges(prev, changes, primaryKey, dateKey));
+    }, 0);
+  }, []);
+
+  // Fetches what changed while the channel was down, reassigned every render (see Offline cache below)
+  const catchUpRef = useRef<(reconnected: boolean) => void>(() => {});
+
+  useEffect(() => {
+    if (!source.capabilities.realtime || !source.subscribe || loading || error) return;
+    let connectedBefore = false;
+    return source.subscribe(applyLiveChange, (status) => {
+      setRealtimeStatus(status);
+      if (status !== 'connected') return;
+      // The first connection also covers changes made while the rows were loading
+      catchUpRef.current(connectedBefore);
+      connectedBefore = true;
+    });
+  }, [source, loading, error, applyLiveChange]);
+
+
+  // --- Currency ---
+
+  const money = useMemo(() => createMoneyFormatter(currencyConfig.reportingCurrency), [currencyConfig.reportingCurrency]);
+
+  // Department heads only see their own department's rows
+  const scopedDepartment = access?.department ?? null;
+
+  // Scope and conversion of one row, null for another department's rows. Kept per
+  // row object, so after a realtime change only the rows it brought are converted.
+  const prepareRow = useMemo(() => {
+    if (!columnKeys) return null;
+    const target = scopedDepartment?.trim().toLowerCase() ?? null;
+    const converter = createFxConverter(fxRates, currencyConfig.reportingCurrency);
+    return memoizeByRow(row => (
+      target !== null && readDept(row, columnKeys.deptKey).trim().toLowerCase() !== target
+        ? null
+        : convertRow(row, columnKeys, converter, currencyConfig.reportingCurrency)
+    ));
+  }, [columnKeys, scopedDepartment, fxRates, currencyConfig.reportingCurrency]);
+
+  // Rows with amounts in the reporting currency; everything below works on these
+  const conversion = useMemo(() => {
+    if (!prepareRow) return { rows: data, visible: data.length, unconverted: 0, currencies: [] as string[] };
+    const rows: DataRow[] = [];
+    const currencies = new Set<string>();
+    let visible = 0;
+    data.forEach(raw => {
+      const prepared = prepareRow(raw);
+      if (!prepared) return;
+      visible++;
+      if (prepared.currency) currencies.add(prepared.currency);
+      if (prepared.row) rows.push(prepared.row);
+    });
+    return { rows, visible, unconverted: visible - rows.length, currencies: [...currencies].sort() };
+  }, [data, prepareRow]);
+  const reportingRows = conversion.rows;
+
+  // --- Data grid ---
+
+  // Paging, sorting and column visibility do not change which rows match
+  const { search: gridSearch, filters: gridFilters } = gridState;
+  const matchesGrid = useMemo(() => {
+    const test = createGridFilter({ search: gridSearch, filters: gridFilters }, fiscalCalendar.timeZone);
+    return test ? memoizeByRow(test) : null;
+  }, [gridSearch, gridFilters, fiscalCalendar.timeZone]);
+  const gridRows = useMemo(
+    () => (matchesGrid ? reportingRows.filter(matchesGrid) : reportingRows),
+    [reportingRows, matchesGrid]
+  );
+  // The grid's filters narrow the charts too when the user asks for it
+  const chartsFiltered = gridState.driveCharts && hasActiveFilters(gridState);
+  const chartRows = chartsFiltered ? gridRows : reportingRows;
+
+  // --- Aggregation Logic ---
+
+  // Totals, department stats and top orders are kept by a worker that folds in
+  // realtime changes one row at a time instead of recomputing over every row.
+  // Anomalies, month-on-month alerts, widgets and grid columns come with them.
+  useEffect(() => {
+    const engine = createAnalyticsEngine(
+      (next, config) => {
+        snapshotConfigRef.current = config;
+        setSnapshot(next);
+        setAnalyticsError(null);
+      },
+      setAnalyticsError,
+      // A change the worker could not match: send it every row again
+      () => {
+        rowsReplacedRef.current = true;
+        setResyncCount(count => count + 1);
+      }
+    );
+    engineRef.current = engine;
+    return () => {
+      engine.dispose();
+      engineRef.current = null;
+    };
+  }, []);
+
+  // Only the charts of plain widgets are aggregated; moving or resizing one changes nothing
+  const widgetChartsKey = JSON.stringify(widgetLayout.filter(w => !w.preset).map(w => ({ id: w.id, chart: w.chart })));
+  const widgetCharts = useMemo(() => JSON.parse(widgetChartsKey) as AccumulatorConfig['widgets'], [widgetChartsKey]);
+
+  // Everything that decides how raw rows become chart rows; a change means starting over
+  const analyticsConfig = useMemo((): AccumulatorConfig | null => {
+    if (!columnKeys) return null;
+    return {
+      keys: columnKeys,
+      primaryKey,
+      dateRange,
+      drill,
+      calendar: fiscalCalendar,
+      now: new Date(),
+      scopedDepartment,
+      reportingCurrency: currencyConfig.reportingCurrency,
+      fxRates,
+      gridFilter: chartsFiltered ? { search: gridSearch, filters: gridFilters } : null,
+      alertRules,
+      widgets: widgetCharts
+    };
+  }, [columnKeys, primaryKey, dateRange, drill, fiscalCalendar, scopedDepartment, currencyConfig.reportingCurrency, fxRates,
+      chartsFiltered, gridSearch, gridFilters, alertRules, widgetCharts]);
+
+  // Sends realtime changes on their own, or every row when the settings or the dataset changed
+  const syncedConfigRef = useRef<AccumulatorConfig | null>(null);
   useEffect(() => {
-    if (data.length > 0 && !insights && !analyzing) {
-      triggerAnalysis();
+    const engine = engineRef.current;
+    const changes = liveChangesRef.current;
+    const replaced = rowsReplacedRef.current;
+    liveChangesRef.current = [];
+    rowsReplacedRef.current = false;
+    if (!engine || !analyticsConfig) {
+      syncedConfigRef.current = null;
+      setSnapshot(null);
+      return;
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [data.length]);
-
-  const handleTableUpdate = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (newTableInput) {
-      onTableChange(newTableInput);
-      setNewTableInput('');
+    // Changes the worker cannot match to a row come back as a request for every row
+    const incremental = !replaced && analyticsConfig === syncedConfigRef.current && changes.length > 0;
+    syncedConfigRef.current = analyticsConfig;
+    if (incremental) {
+      engine.apply(changes);
+      return;
+    }
+    // Cached aggregates for the same settings fill in until the worker catches up
+    const cached = cachedAnalyticsRef.current;
+    cachedAnalyticsRef.current = null;
+    if (cached && cached.settings === analyticsSettingsKey(analyticsConfig)) {
+      snapshotConfigRef.current = analyticsConfig;
+      setSnapshot(cached.snapshot);
+    }
+    engine.reset(analyticsConfig, data);
+  }, [data, analyticsConfig, resyncCount]);
+
+  // Whether a row is behind the aggregates, kept per row object like the conversion
+  const inScope = useMemo(() => {
+    if (!analyticsConfig) return null;
+    const { keys, dateRange, drill, calendar, now } = analyticsConfig;
+    const { range } = resolveAnalyticsRanges(dateRange, drill, calendar, now);
+    return memoizeByRow(row =>
+      (drill.department === undefined || readDept(row, keys.deptKey) === drill.department)
+      && isInRange(readDate(row, keys.dateKey, calendar.timeZone), range)
+    );
+  }, [analyticsConfig]);
+
+  const analytics = useMemo((): AnalyticsResult | null => {
+    if (reportingRows.length === 0 || !columnKeys || !snapshot || !inScope) return null;
+    const { range, anomalies, alerts, widgets, gridColumns, ...aggregates } = snapshot;
+    return {
+      ...aggregates,
+      // The rows behind the aggregates, for drill-down tables and exports
+      scopeRows: chartRows.filter(inScope),
+      budgetVariance: computeBudgetVariance(budgetEntries, aggregates.deptChartData, range, drill.department ?? scopedDepartment ?? undefined),
+      keys: columnKeys
+    };
+  }, [snapshot, reportingRows, chartRows, columnKeys, inScope, drill.department, budgetEntries, scopedDepartment]);
+
+  // --- Offline cache ---
+
+  catchUpRef.current = (reconnected: boolean) => {
+    const watermark = watermarkRef.current;
+    if (watermark && primaryKey && source.fetchChangedSince) {
+      source.fetchChangedSince(watermark.column, watermark.value)
+        .then(rows => {
+          // Upserts by primary key, so rows already seen are harmless
+          rows.forEach(row => applyLiveChange({ eventType: 'UPDATE', new: row, old: {} }, true));
+          // Deletions leave nothing to fetch, so rows deleted while offline are still shown
+          if (reconnected || cachedAt) setMissedDeletes(true);
+          syncedAtRef.current = new Date().toISOString();
+          setCachedAt(null);
+          setSyncError(null);
+        })
+        .catch((err: any) => {
+          console.warn("Catch-up Error:", err);
+          setSyncError(err.message || 'Failed to fetch missed changes');
+        });
+    } else if (reconnected || syncError) {
+      // Nothing to tell changed rows apart by, so missed events mean loading everything
+      fetchData(true);
     }
   };
 
-  // --- Aggregation Logic ---
+  // Writes the user's rows and aggregates once changes settle. Realtime events can
+  // bring rows of other departments; those are left out.
+  useEffect(() => {
+    if (!cacheKey || loading || data.length === 0 || cachedAt) return;
+    const timer = setTimeout(() => {
+      const config = snapshotConfigRef.current;
+      saveCachedDataset(cacheKey, {
+        rows: scopedDepartment && prepareRow ? data.filter(row => prepareRow(row) !== null) : data,
+        total: loadInfo.total,
+        complete: loadInfo.complete,
+        incompleteLookups: loadInfo.incompleteLookups,
+        syncedAt: syncedAtRef.current ?? new Date().toISOString(),
+        watermark: watermarkRef.current,
+        analytics: snapshot && config ? { settings: analyticsSettingsKey(config), snapshot } : null
+      });
+    }, CACHE_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [cacheKey, loading, data, snapshot, loadInfo, cachedAt, scopedDepartment, prepareRow]);
 
-  const analytics = useMemo(() => {
-    if (data.length === 0) return null;
+  // --- Anomalies ---
 
-    const sample = data[0];
-    
-    // Attempt to identify semantic columns
-    const deptKey = findKey(sample, ['department', 'category', 'dept', 'group']) || 'department';
-    const revKey = findKey(sample, ['revenue', 'sales', 'amount', 'total', 'price']) || 'revenue';
-    const expKey = findKey(sample, ['expense', 'cost', 'spending']) || 'expenses';
-    const profitKey = findKey(sample, ['profit', 'net', 'margin']) || 'profit'; // Will derive if missing
-    const dateKey = findKey(sample, ['created_at', 'date', 'time']) || 'created_at';
-    const idKey = findKey(sample, ['id', 'order', 'name']) || 'id';
-
-    // 1. Monthly Revenue & Profit
-    // We store a sortKey (YYYYMM) to ensure chronological sorting
-    const monthlyData: Record<string, { month: string, revenue: number, profit: number, sortKey: number }> = {};
-    
-    // 2. Department aggregation
-    const deptStats: Record<string, { name: string, revenue: number, expenses: number, profit: number }> = {};
-
-    data.forEach(row => {
-      const rev = Number(row[revKey]) || 0;
-      const exp = Number(row[expKey]) || 0;
-      // Derive profit if column doesn't exist
-      const profit = row[profitKey] !== undefined ? Number(row[profitKey]) : (rev - exp);
-
-      // Monthly
-      let month = 'Unknown';
-      let sortKey = 0;
-      try {
-        const d = new Date(row[dateKey]);
-        if (!isNaN(d.getTime())) {
-          month = d.toLocaleString('default', { month: 'short', year: '2-digit' });
-          sortKey = d.getFullYear() * 100 + d.getMonth();
-        }
-      } catch (e) {}
-
-      if (!monthlyData[month]) monthlyData[month] = { month, revenue: 0, profit: 0, sortKey };
-      monthlyData[month].revenue += rev;
-      monthlyData[month].profit += profit;
-
-      // Department
-      const dept = String(row[deptKey] || 'Unassigned');
-      if (!deptStats[dept]) deptStats[dept] = { name: dept, revenue: 0, expenses: 0, profit: 0 };
-      deptStats[dept].revenue += rev;
-      deptStats[dept].expenses += exp;
-      deptStats[dept].profit += profit;
-    });
+  // Checked by the worker against the rows in scope, so flags match what the charts show
+  const anomalies = snapshot?.anomalies ?? [];
+  // Figures of the user-configured widgets and the grid's columns, from the same snapshot
+  const widgetResults = snapshot?.widgets ?? {};
+  const gridColumns = snapshot?.gridColumns ?? [];
 
-    // Transform to arrays for charts and sort chronologically
-    const monthlyChartData = Object.values(monthlyData).sort((a, b) => a.sortKey - b.sortKey);
-    
-    // Assign stable colors to departments based on alphabetical order
-    // This ensures that "Marketing" has the same color across all charts
-    const deptChartData = Object.values(deptStats)
-      .sort((a, b) => a.name.localeCompare(b.name))
-      .map((d, index) => ({
-        ...d,
-        margin: d.revenue > 0 ? (d.profit / d.revenue) * 100 : 0,
-        fill: COLORS[index % COLORS.length] // Stable color assignment
-      }));
-
-    // Top 5 Expenses
-    // We sort by expenses, but the 'fill' property remains attached to the department
-    const expensesByDept = [...deptChartData].sort((a,b) => b.expenses - a.expenses).slice(0, 5);
-
-    // Top 10 Profitable Orders
-    const topOrders = [...data]
-      .map(row => {
-        const rev = Number(row[revKey]) || 0;
-        const exp = Number(row[expKey]) || 0;
-        const profit = row[profitKey] !== undefined ? Number(row[profitKey]) : (rev - exp);
-        return { ...row, _derivedProfit: profit };
-      })
-      .sort((a, b) => b._derivedProfit - a._derivedProfit)
-      .slice(0, 10);
+  // Flagged rows arrive as copies; the drill-down table highlights the rows it shows
+  const anomalyRows = useMemo(() => {
+    if (!selectedAnomaly || !analytics) return [];
+    const sameRow = (a: DataRow, b: DataRow) => (primaryKey
+      ? a[primaryKey] === b[primaryKey]
+      : Object.keys(b).every(key => a[key] === b[key]));
+    return analytics.scopeRows.filter(row => selectedAnomaly.rows.some(flagged => sameRow(row, flagged)));
+  }, [selectedAnomaly, analytics, primaryKey]);
+
+  // --- Forecast ---
+
+  const forecast = useMemo(() => {
+    if (!analytics || forecastSettings.model === 'none' || drill.month !== undefined) return null;
+    // The running month is only partly booked and would drag the fit down, so train on closed months
+    const currentKey = fiscalPeriodKey(new Date(), fiscalCalendar);
+    const monthlyHistory = analytics.monthlyHistory.filter(m => m.sortKey < currentKey);
+    const { monthlyChartData } = analytics;
+    const last = monthlyHistory[monthlyHistory.length - 1];
+    // Only extend the chart when it runs up to the last closed month or the running one
+    const chartEnd = monthlyChartData[monthlyChartData.length - 1]?.sortKey;
+    if (!last || (chartEnd !== last.sortKey && chartEnd !== shiftMonthKey(last.sortKey, 1))) return null;
+
+    const { model, horizon } = forecastSettings;
+    const revenue = forecastSeries(monthlyHistory.map(m => m.revenue), horizon, model);
+    const expenses = forecastSeries(monthlyHistory.map(m => m.expenses), horizon, model);
+    const profit = forecastSeries(monthlyHistory.map(m => m.profit), horizon, model);
+    if (!revenue || !expenses || !profit) return null;
+
+    const points = revenue.point.map((_, i): ForecastPoint => {
+      const sortKey = shiftMonthKey(last.sortKey, i + 1);
+      return {
+        month: fiscalPeriodLabel(sortKey, fiscalCalendar),
+        sortKey,
+        isForecast: true,
+        forecastRevenue: revenue.point[i],
+        revenueBand: [revenue.lower[i], revenue.upper[i]],
+        forecastExpenses: expenses.point[i],
+        forecastProfit: profit.point[i],
+        profitBand: [profit.lower[i], profit.upper[i]]
+      };
+    });
 
     return {
-      monthlyChartData,
-      deptChartData,
-      expensesByDept,
-      topOrders,
-      keys: { deptKey, revKey, expKey, profitKey, idKey, dateKey }
+      points,
+      lastSortKey: last.sortKey,
+      modelName: revenue.model,
+      backtest: backtestSeries(monthlyHistory.map(m => m.revenue), model)
     };
+  }, [analytics, forecastSettings, drill.month, fiscalCalendar]);
+
+  // AI Insights
+  const insightProvider = useMemo(() => createInsightProvider(providerSettings), [providerSettings]);
+
+  // Reuses a stored run when the provider and digest are unchanged, unless forced
+  const triggerAnalysis = useCallback(async (force: boolean = false) => {
+    if (reportingRows.length === 0 || !columnKeys) return;
+    const digest = buildInsightDigest(source.label, reportingRows, columnKeys, analytics?.budgetVariance);
+    const prompt = buildInsightPrompt(digest);
+    const fingerprint = insightFingerprint(insightProvider.label, prompt);
 
-  }, [data]);
+    const cached = force ? undefined : findCachedRun(insightHistory, fingerprint);
+    if (cached) {
+      setActiveRunId(cached.id);
+      setInsightsCached(true);
+      setInsightsError(null);
+      return;
+    }
+
+    setAnalyzing(true);
+    setInsightsError(null);
+    try {
+      const result = await insightProvider.generateInsights(digest, prompt);
+      const { run, history } = recordInsightRun(insightHistory, fingerprint, insightProvider.label, result);
+      saveInsightHistory(source.id, userId, history);
+      setInsightHistory(history);
+      setActiveRunId(run.id);
+      setInsightsCached(false);
+    } catch (err: any) {
+      console.error("Error generating insights:", err);
+      setInsightsError(err.message || 'Failed to generate insights');
+    } finally {
+      setAnalyzing(false);
+    }
+  }, [reportingRows, source, columnKeys, analytics, insightProvider, insightHistory]);
+
+  const activeRunIndex = insightHistory.findIndex(run => run.id === activeRunId);
+  const activeRun = activeRunIndex >= 0 ? insightHistory[activeRunIndex] : null;
+  const insights = activeRun?.insights ?? null;
+  // Compared with the run stored just before it
+  const previousRun = activeRunIndex >= 0 ? insightHistory[activeRunIndex + 1] ?? null : null;
+  const insightDiff = useMemo(
+    () => (activeRun && previousRun ? diffInsights(previousRun.insights, activeRun.insights) : null),
+    [activeRun, previousRun]
+  );
+
+  const handleSelectRun = (id: string) => {
+    setActiveRunId(id);
+    setInsightsCached(true);
+  };
+
+  const handleProviderChange = (settings: InsightProviderSettings) => {
+    saveProviderSettings(settings);
+    setProviderSettings(settings);
+  };
+
+  // Analyse once per source after its first load rather than on every row
+  // count change; with unchanged data this resolves from the cache. The latest
+  // trigger is read through a ref so new rows do not rerun the effect.
+  const autoAnalyzedRef = useRef<string | null>(null);
+  const triggerAnalysisRef = useRef(triggerAnalysis);
+  triggerAnalysisRef.current = triggerAnalysis;
+  useEffect(() => {
+    if (loading || data.length === 0 || autoAnalyzedRef.current === source.id) return;
+    autoAnalyzedRef.current = source.id;
+    triggerAnalysisRef.current();
+  }, [loading, data.length, source.id]);
+
+  // --- Alerts ---
+
+  const handleAlertFeedChange = (feed: Alert[]) => {
+    alertFeedRef.current = feed;
+    saveAlertFeed(source.id, userId, feed);
+    setAlertFeed(feed);
+  };
+
+  const handleAlertRulesChange = (rules: AlertRule[]) => {
+    saveAlertRules(source.id, rules);
+    setAlertRules(rules);
+  };
+
+  const recordAlerts = (matches: AlertMatch[]) => {
+    const { feed, added } = addAlerts(alertFeedRef.current, matches);
+    if (added.length === 0) return;
+    handleAlertFeedChange(feed);
+    added
+      .filter(alert => matches.find(m => m.rule.id === alert.ruleId)?.rule.notify)
+      .forEach(showAlertNotification);
+  };
+  // For the effect below, which only reruns when a new snapshot arrives
+  const recordAlertsRef = useRef(recordAlerts);
+  recordAlertsRef.current = recordAlerts;
+
+  // Row rules run on each incoming row, in the reporting currency and the user's scope
+  checkLiveRowRef.current = (row: DataRow) => {
+    if (!columnKeys || !prepareRow || alertRules.length === 0) return;
+    // Another department's row, or no rate for its currency: thresholds are in the reporting currency
+    const converted = prepareRow(row)?.row;
+    if (!converted) return;
+    const rowId = primaryKey && row[primaryKey] !== undefined ? String(row[primaryKey]) : `new-${Date.now()}`;
+    recordAlerts(evaluateRowRules(converted, alertRules, columnKeys, rowId, money.format));
+  };
+
+  // Aggregate rules are checked by the worker whenever the totals they read change
+  useEffect(() => {
+    if (loading || !snapshot) return;
+    recordAlertsRef.current(snapshot.alerts);
+  }, [loading, snapshot]);
 
   // --- Rendering ---
 
-  if (loading) return <div className="flex justify-center py-20"><Spinner className="w-10 h-10 text-indigo-500" /></div>;
+  if (loading) {
+    const percent = loadProgress && loadProgress.total
+      ? Math.min(100, Math.round((loadProgress.loaded / loadProgress.total) * 100))
+      : null;
+    return (
+      <div className="flex flex-col items-center justify-center py-20 gap-4">
+        <Spinner className="w-10 h-10 text-indigo-500" />
+        {loadProgress && (
+          <div className="w-full max-w-sm text-center">
+            <p className="text-sm text-slate-400 mb-2">
+              Loading <span className="text-white font-mono">{loadProgress.loaded.toLocaleString()}</span>
+              {loadProgress.total !== null && <> of <span className="text-white font-mono">{loadProgress.total.toLocaleString()}</span></>} rows
+            </p>
+            {percent !== null && (
+              <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percent}%` }} />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  }
   
   if (error) {
     return (
@@ -225,16 +841,27 @@ export const Dashboard: React.FC<Props> = ({ tableName, onTableChange }) => {
         <AlertCircle className="w-12 h-12 text-red-400 mb-4" />
         <h3 className="text-xl font-bold text-white mb-2">Connection Issue</h3>
         <p className="text-slate-400 mb-6 text-center">{error}</p>
-        <form onSubmit={handleTableUpdate} className="flex gap-2 w-full max-w-sm">
-            <input 
-              type="text" 
-              placeholder="Try another table (e.g. orders)"
-              className="flex-1 bg-slate-900 border border-slate-600 rounded-lg px-4 py-2 text-white outline-none"
-              value={newTableInput}
-              onChange={(e) => setNewTableInput(e.target.value)}
-            />
-            <button type="submit" className="bg-indigo-600 text-white px-4 py-2 rounded-lg">Connect</button>
-        </form>
+        {source.kind === 'supabase' && (
+          <div className="w-full">
+            <p className="text-sm text-slate-400 mb-3">Pick a table on {getActiveProfile().name} instead:</p>
+            <SchemaBrowser profile={getActiveProfile()} currentTable={source.label} onOpen={onTableChange} />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (reportingRows.length > 0 && columnKeys && !analytics) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 gap-4">
+        {analyticsError ? (
+          <>
+            <AlertCircle className="w-12 h-12 text-red-400" />
+            <p className="text-slate-400">{analyticsError}</p>
+          </>
+        ) : (
+          <Spinner className="w-10 h-10 text-indigo-500" />
+        )}
       </div>
     );
   }
@@ -243,12 +870,398 @@ export const Dashboard: React.FC<Props> = ({ tableName, onTableChange }) => {
     return (
       <div className="flex flex-col items-center justify-center py-20">
         <Database className="w-12 h-12 text-slate-600 mb-4" />
-        <p className="text-slate-400">No data available in {tableName}.</p>
+        <p className="text-slate-400">
+          {scopedDepartment && data.length > 0
+            ? `No rows for ${scopedDepartment} in ${source.label}.`
+            : `No data available in ${source.label}.`}
+        </p>
       </div>
     );
   }
 
-  const { monthlyChartData, deptChartData, expensesByDept, topOrders, keys } = analytics;
+  const { monthlyChartData, deptChartData, expensesByDept, topOrders, scopeRows, budgetVariance, totals, hasComparison, keys } = analytics;
+  const comparisonLabel = COMPARISON_LABELS[dateRange.comparison];
+
+  const drillToDepartment = (department: string | undefined) => {
+    if (department === undefined) return;
+    setDrill(prev => ({ ...prev, department }));
+    setShowDrillRows(true);
+  };
+
+  // Actual months, with the forecast appended. The last closed month repeats its
+  // values as forecast fields so the dashed series joins the solid one, and a
+  // running month carries both its partial actuals and its forecast.
+  const monthlySeries: MonthlySeriesPoint[] = forecast
+    ? [
+        ...monthlyChartData.map((m): MonthlySeriesPoint => {
+          if (m.sortKey === forecast.lastSortKey) {
+            return {
+              ...m,
+              forecastRevenue: m.revenue,
+              revenueBand: [m.revenue, m.revenue],
+              forecastExpenses: m.expenses,
+              forecastProfit: m.profit,
+              profitBand: [m.profit, m.profit]
+            };
+          }
+          const projected = forecast.points.find(p => p.sortKey === m.sortKey);
+          return projected ? { ...projected, ...m, isForecast: false } : m;
+        }),
+        ...forecast.points.filter(p => p.sortKey > (monthlyChartData[monthlyChartData.length - 1]?.sortKey ?? 0))
+      ]
+    : monthlyChartData;
+
+  const drillToMonth = (index: number | undefined) => {
+    const point = index !== undefined ? monthlySeries[index] : undefined;
+    if (!point || point.isForecast || point.sortKey === 0) return;
+    setDrill(prev => ({ ...prev, month: point.sortKey, monthLabel: point.month }));
+    setShowDrillRows(true);
+  };
+
+  const handleAnomalySelect = (anomaly: Anomaly) => {
+    setSelectedAnomaly(anomaly);
+    setShowDrillRows(true);
+  };
+
+  const drillTitle = [drill.department, drill.monthLabel].filter(Boolean).join(' · ') || 'All rows';
+
+  // --- Export ---
+
+  const monthlyExportRows = () => [
+    ...monthlyChartData.map(({ sortKey, ...rest }) => rest),
+    ...(forecast ? forecast.points.map(p => ({
+      month: p.month,
+      forecast_model: forecast.modelName,
+      forecast_revenue: p.forecastRevenue,
+      revenue_lower_95: p.revenueBand[0],
+      revenue_upper_95: p.revenueBand[1],
+      forecast_expenses: p.forecastExpenses,
+      forecast_profit: p.forecastProfit,
+      profit_lower_95: p.profitBand[0],
+      profit_upper_95: p.profitBand[1]
+    })) : [])
+  ];
+  const deptExportRows = () => deptChartData.map(({ fill, ...rest }) => rest);
+  const topOrderExportRows = () => topOrders.map(({ _derivedProfit, ...row }) => ({ ...row, derived_profit: _derivedProfit }));
+
+  const anomalyExportRows = () => anomalies.map(a => ({
+    rule: ANOMALY_RULES[a.rule],
+    severity: a.severity,
+    reason: a.reason,
+    row_ids: a.rowIds.join(', ')
+  }));
+
+  // --- Built-in charts ---
+
+  const selectClass = "bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-white outline-none";
+
+  // Draws the built-in widgets from the analytics, so they keep comparisons, forecast and drill-down
+  const renderPreset = (widget: WidgetConfig): PresetView | null => {
+    switch (widget.preset) {
+      case 'monthly-trend':
+        return {
+          exportRows: monthlyExportRows,
+          details: (
+            <div className="space-y-2 mt-1">
+              <p className="text-sm text-slate-400">Financial performance over time · {describeFiscalCalendar(fiscalCalendar)}</p>
+              {(totals.revenueChange !== null || totals.profitChange !== null) && (
+                <p className="text-xs space-x-3">
+                  {totals.revenueChange !== null && (
+                    <span className={deltaColor(totals.revenueChange)}>
+                      Revenue {formatDelta(totals.revenueChange)} {comparisonLabel}
+                    </span>
+                  )}
+                  {totals.profitChange !== null && (
+                    <span className={deltaColor(totals.profitChange)}>
+                      Profit {formatDelta(totals.profitChange)} {comparisonLabel}
+                    </span>
+                  )}
+                </p>
+              )}
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <select
+                  value={forecastSettings.model}
+                  onChange={(e) => setForecastSettings(prev => ({ ...prev, model: e.target.value as ForecastModel }))}
+                  className={selectClass}
+                >
+                  {FORECAST_MODELS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                </select>
+                {forecastSettings.model !== 'none' && (
+                  <select
+                    value={forecastSettings.horizon}
+                    onChange={(e) => setForecastSettings(prev => ({ ...prev, horizon: Number(e.target.value) }))}
+                    className={selectClass}
+                  >
+                    {FORECAST_HORIZONS.map(h => <option key={h} value={h}>Next {h} months</option>)}
+                  </select>
+                )}
+                {forecastSettings.model !== 'none' && !forecast && (
+                  <span className="text-slate-500 italic">Forecast needs at least 3 months of history up to the latest month.</span>
+                )}
+                {forecast && (
+                  <span className="text-slate-400">
+                    {forecast.modelName} · 95% band
+                    {forecast.backtest && (
+                      <> · Backtest ({forecast.backtest.holdout}-month holdout): {forecast.backtest.mape !== null
+                        ? <span className="text-white font-mono">MAPE {forecast.backtest.mape.toFixed(1)}%</span>
+                        : <span className="text-white font-mono">MAE {money.format(forecast.backtest.mae)}</span>}
+                      </>
+                    )}
+                  </span>
+                )}
+              </div>
+            </div>
+          ),
+          body: (
+            <div className="h-[300px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart
+                  data={monthlySeries}
+                  onClick={(state) => state && state.activeTooltipIndex !== undefined && drillToMonth(Number(state.activeTooltipIndex))}
+                  className="cursor-pointer"
+                >
+                  <defs>
+                    <linearGradient id="colorRev" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="5%" stopColor="#10b981" stopOpacity={0.3}/>
+                      <stop offset="95%" stopColor="#10b981" stopOpacity={0}/>
+                    </linearGradient>
+                  </defs>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                  <XAxis dataKey="month" stroke="#94a3b8" fontSize={12} />
+                  <YAxis stroke="#94a3b8" fontSize={12} tickFormatter={money.compact} width={70} />
+                  <Tooltip content={
+                    <DeltaTooltip
+                      comparisonLabel={comparisonLabel}
+                      metrics={[
+                        { key: 'revenue', name: 'Revenue', deltaKey: 'revenueChange', format: money.format },
+                        { key: 'profit', name: 'Profit', deltaKey: 'profitChange', format: money.format },
+                        { key: 'priorRevenue', name: 'Prior revenue', format: money.format },
+                        { key: 'priorProfit', name: 'Prior profit', format: money.format },
+                        { key: 'forecastRevenue', name: 'Forecast revenue', format: money.format },
+                        { key: 'forecastExpenses', name: 'Forecast expenses', format: money.format },
+                        { key: 'forecastProfit', name: 'Forecast profit', format: money.format }
+                      ]}
+                    />
+                  } />
+                  <Legend />
+                  <Area type="monotone" dataKey="revenue" name="Revenue" stroke="#10b981" fillOpacity={1} fill="url(#colorRev)" />
+                  <Line type="monotone" dataKey="profit" name="Profit" stroke="#f59e0b" strokeWidth={3} dot={{ r: 4, strokeWidth: 2 }} />
+                  {forecast && (
+                    <Area type="monotone" dataKey="revenueBand" name="Revenue 95% band" stroke="none" fill="#10b981" fillOpacity={0.12} legendType="none" />
+                  )}
+                  {forecast && (
+                    <Area type="monotone" dataKey="profitBand" name="Profit 95% band" stroke="none" fill="#f59e0b" fillOpacity={0.12} legendType="none" />
+                  )}
+                  {forecast && (
+                    <Line type="monotone" dataKey="forecastRevenue" name="Revenue forecast" stroke="#10b981" strokeWidth={2} strokeDasharray="6 4" dot={false} />
+                  )}
+                  {forecast && (
+                    <Line type="monotone" dataKey="forecastExpenses" name="Expenses forecast" stroke="#f43f5e" strokeWidth={2} strokeDasharray="6 4" dot={false} />
+                  )}
+                  {forecast && (
+                    <Line type="monotone" dataKey="forecastProfit" name="Profit forecast" stroke="#f59e0b" strokeWidth={2} strokeDasharray="6 4" dot={false} />
+                  )}
+                  {hasComparison && (
+                    <Line type="monotone" dataKey="priorRevenue" name={`Prior revenue (${dateRange.comparison === 'yoy' ? 'YoY' : 'MoM'})`} stroke="#10b981" strokeOpacity={0.5} strokeDasharray="5 5" dot={false} />
+                  )}
+                  {hasComparison && (
+                    <Line type="monotone" dataKey="priorProfit" name={`Prior profit (${dateRange.comparison === 'yoy' ? 'YoY' : 'MoM'})`} stroke="#f59e0b" strokeOpacity={0.5} strokeDasharray="5 5" dot={false} />
+                  )}
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          )
+        };
+
+      case 'department-revenue':
+        return {
+          exportRows: deptExportRows,
+          body: (
+            <div className="h-[250px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={deptChartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                  <XAxis dataKey="name" stroke="#94a3b8" fontSize={12} />
+                  <YAxis stroke="#94a3b8" fontSize={12} tickFormatter={money.compact} width={70} />
+                  <Tooltip
+                    content={<DeltaTooltip comparisonLabel={comparisonLabel} metrics={[{ key: 'revenue', name: 'Revenue', deltaKey: 'revenueChange', format: money.format }]} />}
+                    cursor={{fill: '#334155', opacity: 0.2}}
+                  />
+                  <Bar dataKey="revenue" radius={[4, 4, 0, 0]} className="cursor-pointer" onClick={(_, index) => drillToDepartment(deptChartData[index]?.name)}>
+                    {deptChartData.map((entry, index) => (
+                      <Cell key={`cell-${index}`} fill={entry.fill} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )
+        };
+
+      case 'department-expenses':
+        return {
+          exportRows: () => expensesByDept.map(({ fill, ...rest }) => rest),
+          body: (
+            <div className="h-[250px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <PieChart>
+                  <Pie
+                    data={expensesByDept}
+                    cx="50%"
+                    cy="50%"
+                    innerRadius={60}
+                    outerRadius={80}
+                    paddingAngle={5}
+                    dataKey="expenses"
+                    className="cursor-pointer"
+                    onClick={(_, index) => drillToDepartment(expensesByDept[index]?.name)}
+                  >
+                    {expensesByDept.map((entry, index) => (
+                      <Cell key={`cell-${index}`} fill={entry.fill} />
+                    ))}
+                  </Pie>
+                  <Tooltip content={<DeltaTooltip comparisonLabel={comparisonLabel} metrics={[{ key: 'expenses', name: 'Expenses', deltaKey: 'expensesChange', lowerIsBetter: true, format: money.format }]} />} />
+                  <Legend verticalAlign="bottom" height={36}/>
+                </PieChart>
+              </ResponsiveContainer>
+            </div>
+          )
+        };
+
+      case 'department-margin':
+        return {
+          exportRows: deptExportRows,
+          body: (
+            <div className="h-[300px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={deptChartData} layout="vertical">
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" horizontal={false} />
+                  <XAxis type="number" stroke="#94a3b8" fontSize={12} unit="%" />
+                  <YAxis dataKey="name" type="category" stroke="#94a3b8" fontSize={12} width={80} />
+                  <Tooltip content={
+                    <DeltaTooltip
+                      comparisonLabel={comparisonLabel}
+                      metrics={[{ key: 'margin', name: 'Margin', deltaKey: 'marginChange', deltaUnit: 'pp', format: (val) => val.toFixed(1) + '%' }]}
+                    />
+                  } />
+                  <Bar dataKey="margin" radius={[0, 4, 4, 0]} barSize={20} className="cursor-pointer" onClick={(_, index) => drillToDepartment(deptChartData[index]?.name)}>
+                    {deptChartData.map((entry, index) => (
+                      <Cell key={`cell-${index}`} fill={entry.fill} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )
+        };
+
+      default:
+        return null;
+    }
+  };
+
+  const buildReport = () => {
+    const charts = collectChartSvgs(chartsRef.current);
+    const filters = [
+      `Source: ${source.label}`,
+      `Date range: ${describeDateRange(dateRange, new Date(), fiscalCalendar)}`,
+      `Fiscal calendar: ${describeFiscalCalendar(fiscalCalendar)}`,
+      `Comparison: ${comparisonLabel}`,
+      `Currency: ${money.currency}`,
+      `Drill-down: ${drillTitle}`,
+      ...(scopedDepartment ? [`Department access: ${scopedDepartment}`] : []),
+      ...(chartsFiltered ? [`Table filters: ${gridRows.length.toLocaleString()} of ${reportingRows.length.toLocaleString()} rows`] : []),
+      loadInfo.complete ? `${data.length.toLocaleString()} rows (complete)` : `${data.length.toLocaleString()} of ${loadInfo.total?.toLocaleString() ?? 'unknown'} rows (sampled)`,
+      ...(loadInfo.incompleteLookups.length > 0 ? [`Partial joins: ${loadInfo.incompleteLookups.join(', ')}`] : [])
+    ];
+
+    return buildReportHtml({
+      title: `${source.label} — Financial Report`,
+      generatedAt: new Date(),
+      filters,
+      kpis: [
+        { label: 'Revenue', value: money.format(totals.revenue) + (totals.revenueChange !== null ? ` (${formatDelta(totals.revenueChange)})` : '') },
+        { label: 'Profit', value: money.format(totals.profit) + (totals.profitChange !== null ? ` (${formatDelta(totals.profitChange)})` : '') },
+        { label: 'Rows in scope', value: scopeRows.length.toLocaleString() }
+      ],
+      insights,
+      sections: [
+        // Charts in layout order; built-in ones keep their analytics tables
+        ...widgetLayout.map(widget => {
+          const chartSvg = charts[`widget-${widget.id}`];
+          if (widget.preset === 'monthly-trend') {
+            return {
+              title: widget.title,
+              chartSvg,
+              table: { columns: ['Month', 'Revenue', 'Profit'], rows: monthlyChartData.map(m => [m.month, m.revenue, m.profit]) }
+            };
+          }
+          if (widget.preset === 'department-revenue') {
+            return {
+              title: widget.title,
+              chartSvg,
+              table: {
+                columns: ['Department', 'Revenue', 'Expenses', 'Profit', 'Margin %'],
+                rows: deptChartData.map(d => [d.name, d.revenue, d.expenses, d.profit, d.margin])
+              }
+            };
+          }
+          const result = widgetResults[widget.id];
+          if (widget.preset || !result) return { title: widget.title, chartSvg };
+          const { rows, series } = result;
+          return {
+            title: widget.title,
+            chartSvg,
+            table: widget.type === 'kpi' ? undefined : {
+              columns: ['Group', ...series.map(s => s.label)],
+              rows: rows.map(row => [row.name, ...series.map(s => row[s.value])])
+            }
+          };
+        }),
+        ...(budgetVariance.length > 0 ? [{
+          title: 'Budget vs. Actual',
+          table: {
+            columns: ['Department', 'Rev. Budget', 'Rev. Actual', 'Rev. Variance', 'Exp. Budget', 'Exp. Actual', 'Exp. Variance'],
+            rows: budgetVariance.map(v => [
+              v.department, v.revenueBudget, v.revenueActual, v.revenueVariance,
+              v.expensesBudget, v.expensesActual, v.expensesVariance
+            ])
+          }
+        }] : []),
+        {
+          title: 'Top 10 Most Profitable Orders',
+          table: {
+            columns: ['Order ID', 'Date', 'Dept', 'Revenue', 'Profit'],
+            rows: topOrders.map((row, idx) => [
+              keys.idKey ? String(row[keys.idKey]) : String(idx + 1),
+              keys.dateKey && row[keys.dateKey] ? String(row[keys.dateKey]) : 'N/A',
+              readDept(row, keys.deptKey),
+              readNumber(row, keys.revKey),
+              row._derivedProfit
+            ])
+          }
+        },
+        ...(anomalies.length > 0 ? [{
+          title: 'Flagged Records',
+          table: {
+            columns: ['Rule', 'Count'],
+            rows: (Object.keys(ANOMALY_RULES) as Anomaly['rule'][])
+              .map(rule => ({ rule, count: anomalies.filter(a => a.rule === rule).length }))
+              .filter(({ count }) => count > 0)
+              .map(({ rule, count }) => [ANOMALY_RULES[rule], count.toLocaleString()])
+          }
+        }] : [])
+      ]
+    });
+  };
+
+  const handlePrintReport = () => {
+    const html = buildReport();
+    if (!openPrintableReport(html)) {
+      // Pop-up blocked: fall back to downloading the printable HTML
+      downloadText(html, reportFilename(source.label), 'text/html');
+    }
+  };
 
   return (
     <div className="space-y-6">
@@ -256,134 +1269,215 @@ export const Dashboard: React.FC<Props> = ({ tableName, onTableChange }) => {
       {/* Realtime Status Bar */}
       <div className="flex items-center justify-between bg-slate-800/50 p-3 rounded-lg border border-slate-700">
         <div className="flex items-center gap-3">
-          <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium ${
-            realtimeStatus === 'connected' ? 'bg-emerald-500/10 text-emerald-400' : 'bg-amber-500/10 text-amber-400'
-          }`}>
-            <span className={`h-2 w-2 rounded-full ${realtimeStatus === 'connected' ? 'bg-emerald-500' : 'bg-amber-500'} animate-pulse`} />
-            {realtimeStatus === 'connected' ? 'Live Updates' : 'Connecting...'}
-          </div>
-          <span className="text-slate-400 text-sm">Analyzing <span className="text-white font-mono">{data.length}</span> records</span>
+          {source.capabilities.realtime ? (
+            <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium ${
+              realtimeStatus === 'connected' ? 'bg-emerald-500/10 text-emerald-400' : 'bg-amber-500/10 text-amber-400'
+            }`}>
+              <span className={`h-2 w-2 rounded-full ${realtimeStatus === 'connected' ? 'bg-emerald-500' : 'bg-amber-500'} animate-pulse`} />
+              {realtimeStatus === 'connected' ? 'Live Updates' : realtimeStatus === 'reconnecting' ? 'Reconnecting...' : 'Connecting...'}
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium bg-slate-700 text-slate-300">
+              <span className="h-2 w-2 rounded-full bg-slate-400" />
+              {source.kind === 'file' ? 'Imported file' : 'Static data'}
+            </div>
+          )}
+          <span className="text-slate-400 text-sm">Analyzing <span className="text-white font-mono">{conversion.visible.toLocaleString()}</span> records</span>
+          {chartsFiltered && (
+            <button
+              onClick={() => handleGridStateChange({ ...gridState, driveCharts: false })}
+              className="px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-500/10 text-indigo-400 hover:bg-indigo-500/20"
+              title="Charts show only the rows matching the transaction table's filters. Click to show all rows."
+            >
+              Filtered: {gridRows.length.toLocaleString()} rows ×
+            </button>
+          )}
+          {scopedDepartment && (
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-500/10 text-indigo-400" title="Your role limits the dashboard to one department">
+              Department: {scopedDepartment}
+            </span>
+          )}
+          {loadInfo.complete ? (
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-emerald-500/10 text-emerald-400" title="Every row of the table is loaded">
+              Complete totals
+            </span>
+          ) : (
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-500/10 text-amber-400" title="Totals cover only the loaded rows">
+              Sampled: first {data.length.toLocaleString()} of {loadInfo.total?.toLocaleString() ?? 'unknown'} rows
+            </span>
+          )}
+          {loadInfo.incompleteLookups.length > 0 && (
+            <span
+              className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-500/10 text-amber-400"
+              title={`Only the first ${MAX_LOOKUP_ROWS.toLocaleString()} rows of each were read; other references show no joined values`}
+            >
+              Partial joins: {loadInfo.incompleteLookups.join(', ')}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={handlePrintReport}
+            title="Print or save report as PDF"
+            className="p-2 hover:bg-slate-700 rounded-full text-slate-400 hover:text-white"
+          >
+            <Printer className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => downloadText(buildReport(), reportFilename(source.label), 'text/html')}
+            title="Download HTML report"
+            className="p-2 hover:bg-slate-700 rounded-full text-slate-400 hover:text-white"
+          >
+            <FileDown className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setIsFiscalOpen(!isFiscalOpen)}
+            title="Fiscal calendar"
+            className={`p-2 hover:bg-slate-700 rounded-full hover:text-white ${isFiscalOpen ? 'text-indigo-400' : 'text-slate-400'}`}
+          >
+            <CalendarRange className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setIsCurrencyOpen(!isCurrencyOpen)}
+            title="Currency"
+            className={`p-2 hover:bg-slate-700 rounded-full hover:text-white ${isCurrencyOpen ? 'text-indigo-400' : 'text-slate-400'}`}
+          >
+            <Coins className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setIsMappingOpen(!isMappingOpen)}
+            title="Column mapping"
+            className={`p-2 hover:bg-slate-700 rounded-full hover:text-white ${isMappingOpen ? 'text-indigo-400' : 'text-slate-400'}`}
+          >
+            <Columns className="w-4 h-4" />
+          </button>
+          {source.capabilities.refresh && (
+            <button onClick={() => fetchData()} className="p-2 hover:bg-slate-700 rounded-full text-slate-400 hover:text-white"><RefreshCw className="w-4 h-4" /></button>
+          )}
         </div>
-        <button onClick={fetchData} className="p-2 hover:bg-slate-700 rounded-full text-slate-400 hover:text-white"><RefreshCw className="w-4 h-4" /></button>
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        
-        {/* ROW 1: Monthly Revenue & Profit (Big Chart) */}
-        <div className="lg:col-span-2 bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-xl">
-          <div className="mb-6">
-            <h3 className="text-lg font-semibold text-white flex items-center gap-2">
-              <Activity className="w-5 h-5 text-indigo-400" />
-              Monthly Revenue & Profit
-            </h3>
-            <p className="text-sm text-slate-400">Financial performance over time</p>
-          </div>
-          <div className="h-[300px]">
-            <ResponsiveContainer width="100%" height="100%">
-              <ComposedChart data={monthlyChartData}>
-                <defs>
-                  <linearGradient id="colorRev" x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="5%" stopColor="#10b981" stopOpacity={0.3}/>
-                    <stop offset="95%" stopColor="#10b981" stopOpacity={0}/>
-                  </linearGradient>
-                </defs>
-                <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
-                <XAxis dataKey="month" stroke="#94a3b8" fontSize={12} />
-                <YAxis stroke="#94a3b8" fontSize={12} />
-                <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#f8fafc' }} />
-                <Legend />
-                <Area type="monotone" dataKey="revenue" name="Revenue" stroke="#10b981" fillOpacity={1} fill="url(#colorRev)" />
-                <Line type="monotone" dataKey="profit" name="Profit" stroke="#f59e0b" strokeWidth={3} dot={{ r: 4, strokeWidth: 2 }} />
-              </ComposedChart>
-            </ResponsiveContainer>
-          </div>
+      {(cachedAt || syncError) && (
+        <div className="flex items-center gap-2 bg-amber-500/10 border border-amber-500/20 text-amber-400 text-sm px-3 py-2 rounded-lg">
+          <WifiOff className="w-4 h-4" />
+          {cachedAt && `Showing rows cached ${new Date(cachedAt).toLocaleString()}. `}
+          {syncError ? `Could not reach ${source.label}: ${syncError}` : 'Syncing...'}
+          {syncError && <button onClick={() => fetchData(true)} className="ml-auto text-xs underline hover:text-white">Retry</button>}
         </div>
+      )}
 
-        {/* ROW 1: AI Insights Panel */}
-        <div className="lg:col-span-1">
-           <InsightsPanel insights={insights} loading={analyzing} onRefresh={triggerAnalysis} />
+      {missedDeletes && !cachedAt && !syncError && (
+        <div className="flex items-center gap-2 bg-slate-800 border border-slate-700 text-slate-400 text-sm px-3 py-2 rounded-lg">
+          <WifiOff className="w-4 h-4" />
+          Caught up on changes made while offline. Rows deleted in the meantime are shown until the next full reload.
+          <button onClick={() => fetchData(true)} className="ml-auto text-xs underline hover:text-white">Reload</button>
         </div>
+      )}
 
-        {/* ROW 2: Dept Revenue & Dept Expenses */}
-        <div className="lg:col-span-2 bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-xl">
-           <h3 className="text-lg font-semibold text-white flex items-center gap-2 mb-6">
-              <TrendingUp className="w-5 h-5 text-emerald-400" />
-              Total Revenue by Department
-           </h3>
-           <div className="h-[250px]">
-             <ResponsiveContainer width="100%" height="100%">
-               <BarChart data={deptChartData}>
-                 <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
-                 <XAxis dataKey="name" stroke="#94a3b8" fontSize={12} />
-                 <YAxis stroke="#94a3b8" fontSize={12} />
-                 <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155' }} cursor={{fill: '#334155', opacity: 0.2}} />
-                 <Bar dataKey="revenue" radius={[4, 4, 0, 0]}>
-                    {deptChartData.map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={entry.fill} />
-                    ))}
-                 </Bar>
-               </BarChart>
-             </ResponsiveContainer>
-           </div>
+      {isMappingOpen && (
+        <ColumnMappingPanel
+          tableName={source.label}
+          data={data}
+          mapping={columnMapping}
+          onSave={handleMappingSave}
+          onClose={() => setIsMappingOpen(false)}
+        />
+      )}
+
+      {isFiscalOpen && (
+        <FiscalCalendarSettings
+          calendar={fiscalCalendar}
+          onSave={handleFiscalSave}
+          onClose={() => setIsFiscalOpen(false)}
+        />
+      )}
+
+      {isCurrencyOpen && (
+        <CurrencySettings
+          config={currencyConfig}
+          currencyColumn={keys.currencyKey}
+          currencies={conversion.currencies}
+          unconverted={conversion.unconverted}
+          rateCount={fxRates.length}
+          rateError={fxError}
+          onSave={handleCurrencySave}
+          onClose={() => setIsCurrencyOpen(false)}
+        />
+      )}
+
+      {!isCurrencyOpen && (conversion.unconverted > 0 || fxError) && (
+        <div className="flex items-center gap-2 bg-amber-500/10 border border-amber-500/20 text-amber-400 text-sm px-3 py-2 rounded-lg">
+          <AlertCircle className="w-4 h-4" />
+          {fxError ?? `${conversion.unconverted.toLocaleString()} rows have no ${money.currency} exchange rate and are left out of totals.`}
+          <button onClick={() => setIsCurrencyOpen(true)} className="ml-auto text-xs underline hover:text-white">Currency settings</button>
         </div>
+      )}
 
-        <div className="lg:col-span-1 bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-xl flex flex-col">
-          <h3 className="text-lg font-semibold text-white flex items-center gap-2 mb-4">
-             <PieIcon className="w-5 h-5 text-rose-400" />
-             Expenses by Dept (Top 5)
-          </h3>
-          <div className="flex-1 min-h-[250px]">
-            <ResponsiveContainer width="100%" height="100%">
-              <PieChart>
-                <Pie
-                  data={expensesByDept}
-                  cx="50%"
-                  cy="50%"
-                  innerRadius={60}
-                  outerRadius={80}
-                  paddingAngle={5}
-                  dataKey="expenses"
-                >
-                  {expensesByDept.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={entry.fill} />
-                  ))}
-                </Pie>
-                <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155' }} />
-                <Legend verticalAlign="bottom" height={36}/>
-              </PieChart>
-            </ResponsiveContainer>
-          </div>
+      <DateRangePicker value={dateRange} onChange={setDateRange} />
+
+      <DrillBreadcrumb
+        drill={drill}
+        rowCount={scopeRows.length}
+        showRows={showDrillRows}
+        onChange={setDrill}
+        onToggleRows={() => setShowDrillRows(!showDrillRows)}
+      />
+
+      {showDrillRows && (
+        <DrillRowsTable
+          title={`Rows: ${drillTitle}`}
+          rows={scopeRows}
+          highlighted={anomalyRows}
+          actions={<ExportMenu name={`${source.label} rows ${drillTitle}`} getRows={() => scopeRows} />}
+        />
+      )}
+
+      <div ref={chartsRef} className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        
+        {/* ROW 1: Built-in and user-configured charts, saved per table */}
+        <div className="lg:col-span-3">
+          <WidgetBoard
+            layout={widgetLayout}
+            results={widgetResults}
+            rowCount={scopeRows.length}
+            data={data}
+            keys={keys}
+            formatMoney={money.format}
+            compactMoney={money.compact}
+            renderPreset={renderPreset}
+            onChange={handleLayoutChange}
+            onReset={handleLayoutReset}
+          />
         </div>
 
-        {/* ROW 3: Avg Margin & Top Orders */}
-        <div className="lg:col-span-1 bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-xl">
-           <h3 className="text-lg font-semibold text-white flex items-center gap-2 mb-6">
-              <DollarSign className="w-5 h-5 text-amber-400" />
-              Avg Profit Margin %
-           </h3>
-           <div className="h-[300px]">
-             <ResponsiveContainer width="100%" height="100%">
-               <BarChart data={deptChartData} layout="vertical">
-                 <CartesianGrid strokeDasharray="3 3" stroke="#334155" horizontal={false} />
-                 <XAxis type="number" stroke="#94a3b8" fontSize={12} unit="%" />
-                 <YAxis dataKey="name" type="category" stroke="#94a3b8" fontSize={12} width={80} />
-                 <Tooltip contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155' }} formatter={(val: number) => val.toFixed(1) + '%'} />
-                 <Bar dataKey="margin" radius={[0, 4, 4, 0]} barSize={20}>
-                    {deptChartData.map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={entry.fill} />
-                    ))}
-                 </Bar>
-               </BarChart>
-             </ResponsiveContainer>
-           </div>
+        {/* ROW 2: AI Insights Panel */}
+        <div className="lg:col-span-1">
+           <InsightsPanel
+             insights={insights}
+             loading={analyzing}
+             error={insightsError}
+             runs={insightHistory}
+             activeRun={activeRun}
+             cached={insightsCached}
+             diff={insightDiff}
+             previousRun={previousRun}
+             onSelectRun={handleSelectRun}
+             onRerun={() => triggerAnalysis(true)}
+             providerLabel={insightProvider.label}
+             providerSettings={providerSettings}
+             onProviderChange={handleProviderChange}
+             onRefresh={() => triggerAnalysis()}
+           />
         </div>
 
+        {/* ROW 2: Top Orders */}
         <div className="lg:col-span-2 bg-slate-800 border border-slate-700 rounded-xl overflow-hidden shadow-xl">
-          <div className="p-6 border-b border-slate-700">
+          <div className="p-6 border-b border-slate-700 flex justify-between items-start">
             <h3 className="text-lg font-semibold text-white flex items-center gap-2">
               <TableIcon className="w-5 h-5 text-indigo-400" />
               Top 10 Most Profitable Orders
             </h3>
+            <ExportMenu name="Top orders" getRows={topOrderExportRows} />
           </div>
           <div className="overflow-x-auto">
             <table className="w-full text-left text-sm text-slate-400">
@@ -399,25 +1493,27 @@ export const Dashboard: React.FC<Props> = ({ tableName, onTableChange }) => {
               <tbody className="divide-y divide-slate-700">
                 {topOrders.map((row, idx) => (
                   <tr key={idx} className="hover:bg-slate-700/50 transition-colors">
-                    <td className="px-6 py-4 font-mono text-white">{row[keys.idKey]}</td>
+                    <td className="px-6 py-4 font-mono text-white">{keys.idKey ? row[keys.idKey] : idx + 1}</td>
                     <td className="px-6 py-4">
                       {(() => {
-                        const rawDate = row[keys.dateKey];
+                        const rawDate = keys.dateKey ? row[keys.dateKey] : null;
                         if (!rawDate) return 'N/A';
-                        const d = new Date(rawDate);
-                        return isNaN(d.getTime()) ? String(rawDate) : d.toLocaleDateString();
+                        // Date-only values are days in the reporting time zone, not UTC midnights
+                        const d = readDate(row, keys.dateKey, fiscalCalendar.timeZone);
+                        if (!d) return String(rawDate);
+                        return d.toLocaleDateString(undefined, fiscalCalendar.timeZone ? { timeZone: fiscalCalendar.timeZone } : undefined);
                       })()}
                     </td>
                     <td className="px-6 py-4">
                       <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-slate-700 text-slate-300">
-                        {row[keys.deptKey] || 'N/A'}
+                        {(keys.deptKey && row[keys.deptKey]) || 'N/A'}
                       </span>
                     </td>
                     <td className="px-6 py-4 text-right text-emerald-400 font-medium">
-                      ${Number(row[keys.revKey]).toFixed(2)}
+                      {money.format(readNumber(row, keys.revKey))}
                     </td>
                     <td className="px-6 py-4 text-right text-amber-400 font-medium">
-                      ${row._derivedProfit.toFixed(2)}
+                      {money.format(row._derivedProfit)}
                     </td>
                   </tr>
                 ))}
@@ -426,6 +1522,74 @@ export const Dashboard: React.FC<Props> = ({ tableName, onTableChange }) => {
           </div>
         </div>
 
+        {/* Natural-language questions over every loaded row */}
+        <div className="lg:col-span-3">
+          <QueryPanel
+            tableName={source.label}
+            rows={reportingRows}
+            keys={keys}
+            calendar={fiscalCalendar}
+            formatMoney={money.format}
+            compactMoney={money.compact}
+            provider={insightProvider}
+          />
+        </div>
+
+        {/* Budget vs. Actual per department */}
+        {isBudgetEditorOpen && (
+          <div className="lg:col-span-3">
+            <BudgetEditor
+              config={budgetConfig}
+              departments={deptChartData.map(d => d.name)}
+              onSave={handleBudgetSave}
+              onClose={() => setIsBudgetEditorOpen(false)}
+            />
+          </div>
+        )}
+        <div className="lg:col-span-3">
+          <BudgetPanel
+            variance={budgetVariance}
+            formatMoney={money.format}
+            loading={budgetLoading}
+            error={budgetError}
+            onEdit={() => setIsBudgetEditorOpen(!isBudgetEditorOpen)}
+            actions={budgetVariance.length > 0 && <ExportMenu name="Budget vs actual" getRows={() => budgetVariance} />}
+          />
+        </div>
+
+        {/* ROW 4: Every loaded row, searchable and filterable */}
+        <div className="lg:col-span-3">
+          <DataGrid
+            name={`${source.label} transactions`}
+            columns={gridColumns}
+            totalRows={reportingRows.length}
+            filtered={gridRows}
+            state={gridState}
+            onStateChange={handleGridStateChange}
+          />
+        </div>
+
+        {/* ROW 4: Rule-based anomalies */}
+        <div className="lg:col-span-3">
+          <AnomalyPanel
+            anomalies={anomalies}
+            selected={selectedAnomaly}
+            onSelect={handleAnomalySelect}
+            actions={anomalies.length > 0 && <ExportMenu name="Flagged records" getRows={anomalyExportRows} />}
+          />
+        </div>
+
+        {/* ROW 4: Alert feed for user-defined rules */}
+        <div className="lg:col-span-3">
+          <AlertPanel
+            alerts={alertFeed}
+            rules={alertRules}
+            live={source.capabilities.realtime}
+            onAlertsChange={handleAlertFeedChange}
+            onRulesChange={handleAlertRulesChange}
+          />
+        </div>
+
       </div>
     </div>
   );
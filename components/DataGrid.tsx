@@ -0,0 +1,281 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DataRow, GridFilter, GridState } from '../types';
+import {
+  GridColumn, PAGE_SIZES, emptyFilter, formatGridCell, hasActiveFilters, isFilterActive, sortGridRows, toggleSort
+} from '../services/dataGrid';
+import { ExportMenu } from './ExportMenu';
+import {
+  Search, Columns, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, FilterX, Table as TableIcon, BarChart3
+} from 'lucide-react';
+
+interface Props {
+  name: string;
+  columns: GridColumn[];
+  // Every loaded row, and those left after the grid's search and filters
+  totalRows: number;
+  filtered: DataRow[];
+  state: GridState;
+  onStateChange: (state: GridState) => void;
+}
+
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 480;
+// Rows rendered above and below the viewport
+const OVERSCAN = 10;
+
+const filterInputClass = "w-full min-w-[64px] bg-slate-900 border border-slate-700 rounded px-1.5 py-0.5 text-xs text-white font-normal normal-case outline-none focus:ring-1 focus:ring-indigo-500";
+
+export const DataGrid: React.FC<Props> = ({ name, columns, totalRows, filtered, state, onStateChange }) => {
+  const [page, setPage] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [columnsOpen, setColumnsOpen] = useState(false);
+  const [enumOpen, setEnumOpen] = useState<string | null>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  const visibleColumns = columns.filter(c => !state.hidden.includes(c.key));
+  const sorted = useMemo(() => sortGridRows(filtered, state.sort, columns), [filtered, state.sort, columns]);
+
+  const pageCount = Math.max(1, Math.ceil(sorted.length / state.pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = sorted.slice(currentPage * state.pageSize, (currentPage + 1) * state.pageSize);
+
+  // Back to the top when the user changes which rows match or their order;
+  // realtime changes to the rows keep the page and scroll position
+  useEffect(() => {
+    setPage(0);
+  }, [state.search, state.filters, state.sort, state.pageSize]);
+  useEffect(() => {
+    if (viewportRef.current) viewportRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [currentPage, state.search, state.filters, state.sort]);
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(pageRows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+
+  const update = (patch: Partial<GridState>) => onStateChange({ ...state, ...patch });
+
+  const setFilter = (column: string, filter: GridFilter) =>
+    update({ filters: { ...state.filters, [column]: filter } });
+
+  const toggleColumn = (column: string) =>
+    update({ hidden: state.hidden.includes(column) ? state.hidden.filter(c => c !== column) : [...state.hidden, column] });
+
+  const renderFilter = (column: GridColumn) => {
+    const filter = state.filters[column.key] ?? emptyFilter(column.kind);
+    switch (filter.kind) {
+      case 'text':
+        return (
+          <input type="text" value={filter.value} placeholder="Contains" className={filterInputClass}
+            onChange={(e) => setFilter(column.key, { ...filter, value: e.target.value })} />
+        );
+      case 'numeric': {
+        const bound = (value: string) => (value === '' || isNaN(Number(value)) ? null : Number(value));
+        return (
+          <div className="flex gap-1">
+            <input type="number" value={filter.min ?? ''} placeholder="Min" className={filterInputClass}
+              onChange={(e) => setFilter(column.key, { ...filter, min: bound(e.target.value) })} />
+            <input type="number" value={filter.max ?? ''} placeholder="Max" className={filterInputClass}
+              onChange={(e) => setFilter(column.key, { ...filter, max: bound(e.target.value) })} />
+          </div>
+        );
+      }
+      case 'date':
+        return (
+          <div className="flex gap-1">
+            <input type="date" value={filter.from ?? ''} className={filterInputClass}
+              onChange={(e) => setFilter(column.key, { ...filter, from: e.target.value || null })} />
+            <input type="date" value={filter.to ?? ''} className={filterInputClass}
+              onChange={(e) => setFilter(column.key, { ...filter, to: e.target.value || null })} />
+          </div>
+        );
+      case 'enum':
+        return (
+          <div className="relative">
+            <button
+              onClick={() => setEnumOpen(enumOpen === column.key ? null : column.key)}
+              className={`${filterInputClass} text-left ${filter.values.length > 0 ? 'text-indigo-300' : 'text-slate-500'}`}
+            >
+              {filter.values.length === 0 ? 'All' : filter.values.length === 1 ? filter.values[0] || '(empty)' : `${filter.values.length} selected`}
+            </button>
+            {enumOpen === column.key && (
+              <div className="absolute left-0 top-7 z-20 w-48 max-h-64 overflow-y-auto bg-slate-900 border border-slate-700 rounded-lg shadow-xl p-2 space-y-1">
+                {column.options.map(option => (
+                  <label key={option} className="flex items-center gap-2 text-xs text-slate-300 font-normal normal-case">
+                    <input
+                      type="checkbox"
+                      checked={filter.values.includes(option)}
+                      onChange={(e) => setFilter(column.key, {
+                        ...filter,
+                        values: e.target.checked ? [...filter.values, option] : filter.values.filter(v => v !== option)
+                      })}
+                    />
+                    {option || '(empty)'}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+    }
+  };
+
+  const filtering = hasActiveFilters(state);
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl shadow-xl">
+      <div className="p-6 border-b border-slate-700 flex flex-wrap gap-4 justify-between items-start">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <TableIcon className="w-5 h-5 text-indigo-400" />
+            Transactions
+          </h3>
+          <p className="text-sm text-slate-400">
+            {filtering
+              ? `${filtered.length.toLocaleString()} of ${totalRows.toLocaleString()} rows match`
+              : `${totalRows.toLocaleString()} rows`}. Shift-click headers to sort by several columns.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="relative">
+            <Search className="w-4 h-4 text-slate-500 absolute left-2 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={state.search}
+              onChange={(e) => update({ search: e.target.value })}
+              placeholder="Search all columns"
+              className="w-56 bg-slate-900 border border-slate-700 rounded-lg pl-8 pr-2 py-1.5 text-sm text-white outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <button
+            onClick={() => update({ driveCharts: !state.driveCharts })}
+            title={state.driveCharts ? 'Charts follow these filters' : 'Apply these filters to the charts'}
+            className={`p-2 rounded-lg hover:bg-slate-700 ${state.driveCharts ? 'text-indigo-400' : 'text-slate-400 hover:text-white'}`}
+          >
+            <BarChart3 className="w-4 h-4" />
+          </button>
+          {filtering && (
+            <button
+              onClick={() => update({ search: '', filters: {} })}
+              title="Clear search and filters"
+              className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700"
+            >
+              <FilterX className="w-4 h-4" />
+            </button>
+          )}
+          <div className="relative">
+            <button
+              onClick={() => setColumnsOpen(!columnsOpen)}
+              title="Show or hide columns"
+              className={`p-2 rounded-lg hover:bg-slate-700 ${columnsOpen ? 'text-indigo-400' : 'text-slate-400 hover:text-white'}`}
+            >
+              <Columns className="w-4 h-4" />
+            </button>
+            {columnsOpen && (
+              <div className="absolute right-0 top-10 z-20 w-56 max-h-72 overflow-y-auto bg-slate-900 border border-slate-700 rounded-lg shadow-xl p-2 space-y-1">
+                {columns.map(c => (
+                  <label key={c.key} className="flex items-center gap-2 text-xs text-slate-300">
+                    <input type="checkbox" checked={!state.hidden.includes(c.key)} onChange={() => toggleColumn(c.key)} />
+                    <span className="font-mono truncate">{c.key}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+          <ExportMenu
+            name={name}
+            getRows={() => sorted.map(row => Object.fromEntries(visibleColumns.map(c => [c.key, row[c.key]])))}
+          />
+        </div>
+      </div>
+
+      <div
+        ref={viewportRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="overflow-auto"
+        style={{ maxHeight: VIEWPORT_HEIGHT + 80 }}
+      >
+        <table className="w-full text-left text-sm text-slate-400">
+          <thead className="bg-slate-900 text-slate-200 uppercase text-xs sticky top-0 z-10">
+            <tr>
+              {visibleColumns.map(c => {
+                const sortIndex = state.sort.findIndex(s => s.column === c.key);
+                const sort = sortIndex >= 0 ? state.sort[sortIndex] : null;
+                return (
+                  <th key={c.key} className="px-3 pt-3 pb-1 whitespace-nowrap">
+                    <button
+                      onClick={(e) => update({ sort: toggleSort(state.sort, c.key, e.shiftKey) })}
+                      className={`flex items-center gap-1 hover:text-white ${sort ? 'text-indigo-300' : ''} ${c.kind === 'numeric' ? 'ml-auto' : ''}`}
+                    >
+                      {c.key}
+                      {sort && (sort.direction === 'asc' ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+                      {sort && state.sort.length > 1 && <span className="text-[10px]">{sortIndex + 1}</span>}
+                    </button>
+                  </th>
+                );
+              })}
+            </tr>
+            <tr>
+              {visibleColumns.map(c => (
+                <th key={c.key} className={`px-3 pb-2 ${isFilterActive(state.filters[c.key]) ? 'bg-indigo-500/10' : ''}`}>
+                  {renderFilter(c)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-700">
+            {pageRows.length === 0 && (
+              <tr><td colSpan={visibleColumns.length} className="p-6 text-sm text-slate-500 italic">No rows match these filters.</td></tr>
+            )}
+            {first > 0 && <tr style={{ height: first * ROW_HEIGHT }} />}
+            {pageRows.slice(first, last).map((row, i) => (
+              <tr key={first + i} style={{ height: ROW_HEIGHT }} className="hover:bg-slate-700/50 transition-colors">
+                {visibleColumns.map(c => (
+                  <td
+                    key={c.key}
+                    className={`px-3 whitespace-nowrap font-mono text-xs max-w-[240px] truncate ${c.kind === 'numeric' ? 'text-right' : ''}`}
+                    title={formatGridCell(row[c.key])}
+                  >
+                    {formatGridCell(row[c.key])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {last < pageRows.length && <tr style={{ height: (pageRows.length - last) * ROW_HEIGHT }} />}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="px-6 py-3 border-t border-slate-700 flex flex-wrap items-center justify-between gap-2 text-xs text-slate-400">
+        <span>
+          {sorted.length === 0
+            ? 'No rows'
+            : `Rows ${(currentPage * state.pageSize + 1).toLocaleString()}–${(currentPage * state.pageSize + pageRows.length).toLocaleString()} of ${sorted.length.toLocaleString()}`}
+        </span>
+        <div className="flex items-center gap-2">
+          <select
+            value={state.pageSize}
+            onChange={(e) => update({ pageSize: Number(e.target.value) })}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white outline-none"
+          >
+            {PAGE_SIZES.map(size => <option key={size} value={size}>{size.toLocaleString()} per page</option>)}
+          </select>
+          <button
+            onClick={() => setPage(currentPage - 1)}
+            disabled={currentPage === 0}
+            className="p-1 rounded hover:bg-slate-700 disabled:opacity-30"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span>Page {currentPage + 1} of {pageCount}</span>
+          <button
+            onClick={() => setPage(currentPage + 1)}
+            disabled={currentPage >= pageCount - 1}
+            className="p-1 rounded hover:bg-slate-700 disabled:opacity-30"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { ConnectionProfile, DataSource } from '../types';
+import { createSupabaseSource, createFileSource, createFixtureSource, ACCEPTED_FILE_TYPES } from '../services/dataSources';
+import { Database, FileSpreadsheet, FlaskConical, AlertCircle } from 'lucide-react';
+import { Spinner } from './Spinner';
+import { SchemaBrowser } from './SchemaBrowser';
+import { RelationEditor } from './RelationEditor';
+
+type SourceTab = 'supabase' | 'file' | 'fixture';
+
+interface Props {
+  source: DataSource;
+  // Connection that new table sources are opened on
+  profile: ConnectionProfile;
+  onSourceChange: (source: DataSource) => void;
+}
+
+const TABS: { value: SourceTab; label: string; icon: React.ReactNode }[] = [
+  { value: 'supabase', label: 'Supabase Table', icon: <Database className="w-4 h-4" /> },
+  { value: 'file', label: 'Upload File', icon: <FileSpreadsheet className="w-4 h-4" /> },
+  { value: 'fixture', label: 'Demo Data', icon: <FlaskConical className="w-4 h-4" /> },
+];
+
+export const DataSourceConfig: React.FC<Props> = ({ source, profile, onSourceChange }) => {
+  const [tab, setTab] = useState<SourceTab>(source.kind);
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleTableOpen = (tableName: string) => onSourceChange(createSupabaseSource(tableName, profile));
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    setImportError(null);
+    try {
+      onSourceChange(await createFileSource(file));
+    } catch (err: any) {
+      console.warn("File import error:", err);
+      setImportError(err.message || 'Failed to import file');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex gap-2 mb-4">
+        {TABS.map(t => (
+          <button
+            key={t.value}
+            onClick={() => setTab(t.value)}
+            className={`flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg transition-colors ${
+              tab === t.value ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            {t.icon}
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'supabase' && (
+        <div>
+          <label className="block text-sm font-medium text-slate-400 mb-2">
+            Tables and views on {profile.name}
+          </label>
+          <SchemaBrowser
+            profile={profile}
+            currentTable={source.kind === 'supabase' ? source.label : undefined}
+            onOpen={handleTableOpen}
+          />
+          {source.kind === 'supabase' && (
+            <div className="mt-6">
+              <RelationEditor
+                profile={profile}
+                sourceId={source.id}
+                tableName={source.label}
+                onApply={() => handleTableOpen(source.label)}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {tab === 'file' && (
+        <div className="max-w-md">
+          <label className="block text-sm font-medium text-slate-400 mb-2">
+            CSV or Excel export (first sheet is used)
+          </label>
+          <label className="flex items-center justify-center gap-2 w-full px-4 py-6 border-2 border-dashed border-slate-700 rounded-lg text-slate-400 hover:border-indigo-500 hover:text-white cursor-pointer transition-colors">
+            {importing ? <Spinner className="text-indigo-500" /> : <FileSpreadsheet className="w-5 h-5" />}
+            <span>{importing ? 'Reading file...' : 'Choose a .csv, .xlsx or .xls file'}</span>
+            <input type="file" accept={ACCEPTED_FILE_TYPES} onChange={handleFile} disabled={importing} className="hidden" />
+          </label>
+          {importError && (
+            <p className="mt-2 text-sm text-red-400 flex items-center gap-1">
+              <AlertCircle className="w-4 h-4" /> {importError}
+            </p>
+          )}
+        </div>
+      )}
+
+      {tab === 'fixture' && (
+        <div className="flex gap-4 items-center">
+          <p className="text-sm text-slate-400 max-w-md">
+            Two years of generated orders across six departments. Works offline and loads the same rows every time.
+          </p>
+          <button
+            onClick={() => onSourceChange(createFixtureSource())}
+            className="px-6 py-2 bg-indigo-600 hover:bg-indigo-500 text-white font-medium rounded-lg transition-colors"
+          >
+            Load Demo Data
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import { ComparisonMode, DateRangeFilter } from '../types';
+import { DATE_RANGE_PRESETS, COMPARISON_LABELS, resolveDateRange } from '../services/dateRange';
+import { Calendar } from 'lucide-react';
+
+interface Props {
+  value: DateRangeFilter;
+  onChange: (value: DateRangeFilter) => void;
+}
+
+export const DateRangePicker: React.FC<Props> = ({ value, onChange }) => {
+  // An open-ended range has no earlier period to hold department and total figures against
+  const unbounded = value.comparison !== 'none' && resolveDateRange(value, new Date()) === null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 bg-slate-800/50 p-3 rounded-lg border border-slate-700">
+      <Calendar className="w-4 h-4 text-slate-400" />
+      <div className="flex rounded-lg bg-slate-900 border border-slate-700 p-0.5">
+        {DATE_RANGE_PRESETS.map(preset => (
+          <button
+            key={preset.value}
+            onClick={() => onChange({ ...value, preset: preset.value })}
+            className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+              value.preset === preset.value ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      {value.preset === 'custom' && (
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <input
+            type="date"
+            value={value.from ?? ''}
+            onChange={(e) => onChange({ ...value, from: e.target.value || undefined })}
+            className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-white outline-none"
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={value.to ?? ''}
+            onChange={(e) => onChange({ ...value, to: e.target.value || undefined })}
+            className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-white outline-none"
+          />
+        </div>
+      )}
+
+      {unbounded && (
+        <span className="ml-auto text-xs text-amber-400" title="Pick a bounded range to compare totals, departments and margins">
+          Changes are shown per month only: {value.preset === 'all' ? 'all time' : 'an open range'} has no prior period
+        </span>
+      )}
+
+      <select
+        value={value.comparison}
+        onChange={(e) => onChange({ ...value, comparison: e.target.value as ComparisonMode })}
+        className={`${unbounded ? '' : 'ml-auto '}bg-slate-900 border border-slate-700 rounded-lg px-3 py-1 text-xs text-white outline-none`}
+      >
+        {(Object.keys(COMPARISON_LABELS) as ComparisonMode[]).map(mode => (
+          <option key={mode} value={mode}>{COMPARISON_LABELS[mode]}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+
+export interface DeltaMetric {
+  key: string;
+  name: string;
+  // Key of the change against the comparison period on the same datum
+  deltaKey?: string;
+  deltaUnit?: '%' | 'pp';
+  // Costs: a rise is shown as bad news
+  lowerIsBetter?: boolean;
+  format?: (value: number) => string;
+}
+
+interface Props {
+  // Injected by recharts when used as <Tooltip content={...} />
+  active?: boolean;
+  payload?: any[];
+  label?: string;
+  metrics: DeltaMetric[];
+  comparisonLabel?: string;
+}
+
+const defaultFormat = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export const formatDelta = (delta: number, unit: '%' | 'pp' = '%') =>
+  `${delta >= 0 ? '+' : ''}${delta.toFixed(1)}${unit === 'pp' ? ' pp' : '%'}`;
+
+// Green for improvements, red for declines
+export const deltaColor = (delta: number, lowerIsBetter = false) =>
+  (lowerIsBetter ? delta <= 0 : delta >= 0) ? 'text-emerald-400' : 'text-red-400';
+
+// Chart tooltip listing each metric with its change against the comparison period
+export const DeltaTooltip: React.FC<Props> = ({ active, payload, label, metrics, comparisonLabel }) => {
+  if (!active || !payload || payload.length === 0) return null;
+  const datum = payload[0].payload;
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs shadow-xl">
+      <p className="text-slate-200 font-semibold mb-1">{label ?? datum.name}</p>
+      {metrics.map(metric => {
+        const value = datum[metric.key];
+        if (value === undefined || value === null) return null;
+        const delta = metric.deltaKey ? datum[metric.deltaKey] : null;
+        return (
+          <p key={metric.key} className="text-slate-400 flex items-center gap-2">
+            <span>{metric.name}:</span>
+            <span className="text-white font-mono">{(metric.format ?? defaultFormat)(value)}</span>
+            {typeof delta === 'number' && (
+              <span className={deltaColor(delta, metric.lowerIsBetter)}>
+                {formatDelta(delta, metric.deltaUnit)} {comparisonLabel}
+              </span>
+            )}
+          </p>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { DrillFilter } from '../types';
+import { ChevronRight, Rows3 } from 'lucide-react';
+
+interface Props {
+  drill: DrillFilter;
+  rowCount: number;
+  showRows: boolean;
+  onChange: (drill: DrillFilter) => void;
+  onToggleRows: () => void;
+}
+
+export const DrillBreadcrumb: React.FC<Props> = ({ drill, rowCount, showRows, onChange, onToggleRows }) => {
+  const crumbClass = (active: boolean) =>
+    `px-2 py-0.5 rounded-md transition-colors ${active ? 'text-white font-medium' : 'text-indigo-400 hover:bg-slate-700'}`;
+  const isRoot = drill.department === undefined && drill.month === undefined;
+
+  return (
+    <div className="flex items-center justify-between bg-slate-800/50 px-3 py-2 rounded-lg border border-slate-700 text-sm">
+      <nav className="flex items-center gap-1 text-slate-500">
+        <button onClick={() => onChange({})} disabled={isRoot} className={crumbClass(isRoot)}>
+          All data
+        </button>
+        {drill.department !== undefined && (
+          <>
+            <ChevronRight className="w-4 h-4" />
+            <button
+              onClick={() => onChange({ department: drill.department })}
+              disabled={drill.month === undefined}
+              className={crumbClass(drill.month === undefined)}
+            >
+              {drill.department}
+            </button>
+          </>
+        )}
+        {drill.month !== undefined && (
+          <>
+            <ChevronRight className="w-4 h-4" />
+            <span className={crumbClass(true)}>{drill.monthLabel}</span>
+          </>
+        )}
+        {isRoot && <span className="text-xs text-slate-500 ml-2">Click a department or month to drill down</span>}
+      </nav>
+      <button
+        onClick={onToggleRows}
+        className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs transition-colors ${
+          showRows ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-700'
+        }`}
+      >
+        <Rows3 className="w-3 h-3" />
+        {showRows ? 'Hide' : 'View'} {rowCount.toLocaleString()} rows
+      </button>
+    </div>
+  );
+};
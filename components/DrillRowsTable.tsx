@@ -0,0 +1,93 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DataRow } from '../types';
+import { Table as TableIcon } from 'lucide-react';
+
+interface Props {
+  title: string;
+  rows: DataRow[];
+  // Extra controls shown in the header, e.g. an export menu
+  actions?: React.ReactNode;
+  // Rows to highlight and scroll to, e.g. the records behind a flagged anomaly
+  highlighted?: DataRow[];
+}
+
+const ROWS_PER_PAGE = 100;
+
+const formatCell = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// The raw rows behind the aggregate currently drilled into
+export const DrillRowsTable: React.FC<Props> = ({ title, rows, actions, highlighted = [] }) => {
+  const [visible, setVisible] = useState(ROWS_PER_PAGE);
+  const highlightRef = useRef<HTMLTableRowElement>(null);
+
+  useEffect(() => { setVisible(ROWS_PER_PAGE); }, [rows]);
+
+  // Page far enough to show the first highlighted row, then bring it into view
+  const firstHighlight = highlighted.length > 0 ? rows.indexOf(highlighted[0]) : -1;
+  useEffect(() => {
+    if (firstHighlight < 0) return;
+    setVisible(v => Math.max(v, firstHighlight + 1));
+    requestAnimationFrame(() => highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' }));
+  }, [firstHighlight, highlighted]);
+
+  const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl overflow-hidden shadow-xl">
+      <div className="p-6 border-b border-slate-700 flex justify-between items-start">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <TableIcon className="w-5 h-5 text-indigo-400" />
+            {title}
+          </h3>
+          <p className="text-sm text-slate-400">
+            {rows.length.toLocaleString()} rows behind the current aggregates
+          </p>
+        </div>
+        {actions}
+      </div>
+      {rows.length === 0 ? (
+        <p className="p-6 text-sm text-slate-500 italic">No rows match this selection.</p>
+      ) : (
+        <div className="overflow-x-auto max-h-[480px] overflow-y-auto">
+          <table className="w-full text-left text-sm text-slate-400">
+            <thead className="bg-slate-900/50 text-slate-200 uppercase text-xs sticky top-0">
+              <tr>
+                {columns.map(col => <th key={col} className="px-4 py-3 whitespace-nowrap">{col}</th>)}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700">
+              {rows.slice(0, visible).map((row, idx) => (
+                <tr
+                  key={idx}
+                  ref={idx === firstHighlight ? highlightRef : undefined}
+                  className={`transition-colors ${
+                    highlighted.includes(row) ? 'bg-red-500/20 text-white hover:bg-red-500/30' : 'hover:bg-slate-700/50'
+                  }`}
+                >
+                  {columns.map(col => (
+                    <td key={col} className="px-4 py-2 whitespace-nowrap font-mono text-xs">{formatCell(row[col])}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {visible < rows.length && (
+        <div className="p-3 border-t border-slate-700 text-center">
+          <button
+            onClick={() => setVisible(v => v + ROWS_PER_PAGE)}
+            className="text-xs text-indigo-400 hover:text-white transition-colors"
+          >
+            Show {Math.min(ROWS_PER_PAGE, rows.length - visible)} more of {(rows.length - visible).toLocaleString()} remaining
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { DataRow } from '../types';
+import { exportRows, ExportFormat } from '../services/exporter';
+import { Download } from 'lucide-react';
+
+interface Props {
+  name: string;
+  // Called on click so exports always reflect the current filters
+  getRows: () => DataRow[];
+}
+
+export const ExportMenu: React.FC<Props> = ({ name, getRows }) => {
+  const [open, setOpen] = useState(false);
+
+  const handleExport = (format: ExportFormat) => {
+    setOpen(false);
+    const rows = getRows();
+    if (rows.length === 0) return;
+    exportRows(rows, name, format);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        title={`Export ${name}`}
+        className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors"
+      >
+        <Download className="w-4 h-4" />
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 z-10 bg-slate-900 border border-slate-700 rounded-lg shadow-xl py-1 min-w-[120px]">
+          {(['csv', 'xlsx'] as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="block w-full text-left px-3 py-1.5 text-xs text-slate-300 hover:bg-slate-700 hover:text-white"
+            >
+              Export {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FiscalCalendar, FiscalPattern } from '../types';
+import {
+  FISCAL_PATTERNS, MONTH_NAMES, fiscalPeriodOf, fiscalPeriodRange, fiscalPeriodLabel, fiscalQuarterLabel, fiscalYearLabel,
+  isValidTimeZone
+} from '../services/fiscalCalendar';
+import { CalendarRange, X, AlertCircle } from 'lucide-react';
+
+interface Props {
+  calendar: FiscalCalendar;
+  onSave: (calendar: FiscalCalendar) => void;
+  onClose: () => void;
+}
+
+const FALLBACK_TIME_ZONES = ['UTC', 'America/New_York', 'America/Chicago', 'America/Los_Angeles', 'Europe/London', 'Europe/Berlin', 'Asia/Tokyo', 'Australia/Sydney'];
+
+const listTimeZones = (): string[] => {
+  const supported = (Intl as any).supportedValuesOf?.('timeZone');
+  return Array.isArray(supported) && supported.length > 0 ? supported : FALLBACK_TIME_ZONES;
+};
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const FiscalCalendarSettings: React.FC<Props> = ({ calendar, onSave, onClose }) => {
+  const [draft, setDraft] = useState<FiscalCalendar>(calendar);
+
+  useEffect(() => { setDraft(calendar); }, [calendar]);
+
+  const timeZones = useMemo(listTimeZones, []);
+  const zoneValid = !draft.timeZone || isValidTimeZone(draft.timeZone);
+
+  // The periods of the current fiscal year, so the pattern can be checked before saving
+  const preview = useMemo(() => {
+    if (!zoneValid) return null;
+    const { year } = fiscalPeriodOf(new Date(), draft);
+    return {
+      year,
+      periods: Array.from({ length: 12 }, (_, period) => {
+        const key = year * 100 + period;
+        const { start, end } = fiscalPeriodRange(key, draft);
+        const lastDay = new Date(end.getTime() - 1);
+        const format = (d: Date) => d.toLocaleDateString(undefined, { timeZone: draft.timeZone ?? undefined, day: 'numeric', month: 'short' });
+        return {
+          key,
+          quarter: Math.floor(period / 3) + 1,
+          label: fiscalPeriodLabel(key, draft),
+          dates: `${format(start)} – ${format(lastDay)}`,
+          days: Math.round((end.getTime() - start.getTime()) / 86400000)
+        };
+      })
+    };
+  }, [draft, zoneValid]);
+
+  const inputClass = "bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white outline-none focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-xl">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <CalendarRange className="w-5 h-5 text-indigo-400" />
+            Fiscal Calendar
+          </h3>
+          <p className="text-sm text-slate-400">
+            Months, quarters and years in every chart, widget, query and export follow this calendar.
+          </p>
+        </div>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-white rounded">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div>
+          <label className="block text-xs uppercase tracking-wider text-slate-500 font-bold mb-2">Fiscal year starts in</label>
+          <select
+            value={draft.startMonth}
+            onChange={(e) => setDraft(prev => ({ ...prev, startMonth: Number(e.target.value) }))}
+            className={`w-full ${inputClass}`}
+          >
+            {MONTH_NAMES.map((name, month) => <option key={month} value={month}>{name}</option>)}
+          </select>
+          <p className="mt-2 text-xs text-slate-500">A fiscal year is named after the calendar year it ends in.</p>
+        </div>
+
+        <div>
+          <label className="block text-xs uppercase tracking-wider text-slate-500 font-bold mb-2">Periods</label>
+          <div className="flex gap-2">
+            {(Object.keys(FISCAL_PATTERNS) as FiscalPattern[]).map(pattern => (
+              <button
+                key={pattern}
+                onClick={() => setDraft(prev => ({ ...prev, pattern }))}
+                className={`px-3 py-1 text-xs rounded-lg transition-colors ${
+                  draft.pattern === pattern ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                {FISCAL_PATTERNS[pattern]}
+              </button>
+            ))}
+          </div>
+          {draft.pattern !== 'calendar' && (
+            <p className="mt-2 text-xs text-slate-500">
+              Years start on the Monday closest to 1 {MONTH_NAMES[draft.startMonth]}. A 53rd week is added to the last period when needed.
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-xs uppercase tracking-wider text-slate-500 font-bold mb-2">Reporting time zone</label>
+          <select
+            value={draft.timeZone ?? ''}
+            onChange={(e) => setDraft(prev => ({ ...prev, timeZone: e.target.value || null }))}
+            className={`w-full ${inputClass}`}
+          >
+            <option value="">Browser ({browserTimeZone()})</option>
+            {draft.timeZone && !timeZones.includes(draft.timeZone) && <option value={draft.timeZone}>{draft.timeZone}</option>}
+            {timeZones.map(zone => <option key={zone} value={zone}>{zone}</option>)}
+          </select>
+          {!zoneValid && (
+            <p className="mt-2 text-xs text-red-400 flex items-center gap-1"><AlertCircle className="w-3 h-3" /> Unknown time zone.</p>
+          )}
+        </div>
+      </div>
+
+      {preview && (
+        <div className="mt-6">
+          <p className="text-xs uppercase tracking-wider text-slate-500 font-bold mb-2">{fiscalYearLabel(preview.year, draft)}</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+            {[1, 2, 3, 4].map(quarter => (
+              <div key={quarter} className="bg-slate-900/50 border border-slate-700 rounded-lg p-2">
+                <p className="text-slate-300 font-medium mb-1">{fiscalQuarterLabel(preview.year, quarter, draft)}</p>
+                {preview.periods.filter(p => p.quarter === quarter).map(p => (
+                  <p key={p.key} className="text-slate-400 flex justify-between gap-2">
+                    <span className="text-slate-300">{p.label}</span>
+                    <span>{p.dates} · {p.days}d</span>
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end mt-4">
+        <button
+          onClick={() => onSave(draft)}
+          disabled={!zoneValid}
+          className="px-4 py-2 text-sm bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-medium rounded-lg transition-colors"
+        >
+          Save Fiscal Calendar
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,51 @@
-import React from 'react';
-import { InsightData } from '../types';
-import { Sparkles, TrendingUp, AlertTriangle } from 'lucide-react';
+import React, { useState } from 'react';
+import { InsightData, InsightDiff, InsightProviderKind, InsightProviderSettings, InsightRun } from '../types';
+import { INSIGHT_PROVIDERS } from '../services/insightProviders';
+import { Sparkles, TrendingUp, AlertTriangle, AlertCircle, Settings, History, GitCompare } from 'lucide-react';
 
 interface Props {
   insights: InsightData | null;
   loading: boolean;
+  error: string | null;
+  // Stored runs for this table, newest first
+  runs: InsightRun[];
+  activeRun: InsightRun | null;
+  // Whether the shown run came from history instead of a fresh model call
+  cached: boolean;
+  diff: InsightDiff | null;
+  previousRun: InsightRun | null;
+  onSelectRun: (id: string) => void;
+  onRerun: () => void;
+  providerLabel: string;
+  providerSettings: InsightProviderSettings;
+  onProviderChange: (settings: InsightProviderSettings) => void;
   onRefresh: () => void;
 }
 
-export const InsightsPanel: React.FC<Props> = ({ insights, loading, onRefresh }) => {
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white outline-none focus:ring-2 focus:ring-indigo-500";
+
+export const InsightsPanel: React.FC<Props> = ({
+  insights, loading, error, runs, activeRun, cached, diff, previousRun,
+  providerLabel, providerSettings, onProviderChange, onSelectRun, onRerun, onRefresh
+}) => {
+  const [showSettings, setShowSettings] = useState(false);
+  const [showDiff, setShowDiff] = useState(false);
+
+  const formatTime = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+  const hasChanges = !!diff && (diff.newTrends.length + diff.resolvedTrends.length + diff.newAnomalies.length + diff.resolvedAnomalies.length) > 0;
+  const isNew = (item: string, list: string[] | undefined) => !!list && list.includes(item);
+  const [draft, setDraft] = useState<InsightProviderSettings>(providerSettings);
+
+  const openSettings = () => {
+    setDraft(providerSettings);
+    setShowSettings(!showSettings);
+  };
+
+  const applySettings = () => {
+    onProviderChange(draft);
+    setShowSettings(false);
+  };
+
   return (
     <div className="bg-slate-800/50 backdrop-blur border border-slate-700 rounded-xl p-6 h-full flex flex-col">
       <div className="flex justify-between items-center mb-4">
@@ -16,16 +53,129 @@ export const InsightsPanel: React.FC<Props> = ({ insights, loading, onRefresh })
           <Sparkles className="w-5 h-5 text-purple-400" />
           AI Insights
         </h3>
-        <button 
-          onClick={onRefresh}
-          disabled={loading}
-          className="text-xs text-slate-400 hover:text-white transition-colors disabled:opacity-50"
-        >
-          {loading ? 'Analyzing...' : 'Refresh Analysis'}
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onRefresh}
+            disabled={loading}
+            className="text-xs text-slate-400 hover:text-white transition-colors disabled:opacity-50"
+          >
+            {loading ? 'Analyzing...' : 'Refresh Analysis'}
+          </button>
+          <button
+            onClick={openSettings}
+            title="Insight provider"
+            className={`p-1 rounded hover:text-white ${showSettings ? 'text-indigo-400' : 'text-slate-400'}`}
+          >
+            <Settings className="w-4 h-4" />
+          </button>
+        </div>
       </div>
+      <p className="text-xs text-slate-500 -mt-3 mb-4">{providerLabel}</p>
+
+      {showSettings && (
+        <div className="mb-4 p-3 bg-slate-900/60 border border-slate-700 rounded-lg space-y-2">
+          <select
+            value={draft.kind}
+            onChange={(e) => setDraft(prev => ({ ...prev, kind: e.target.value as InsightProviderKind }))}
+            className={inputClass}
+          >
+            {INSIGHT_PROVIDERS.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+          </select>
+          {draft.kind === 'openai' && (
+            <>
+              <input
+                type="text"
+                value={draft.baseUrl ?? ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, baseUrl: e.target.value }))}
+                placeholder="http://localhost:11434/v1"
+                className={inputClass}
+              />
+              <input
+                type="text"
+                value={draft.model ?? ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, model: e.target.value }))}
+                placeholder="Model, e.g. llama3.1"
+                className={inputClass}
+              />
+              <input
+                type="password"
+                value={draft.apiKey ?? ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, apiKey: e.target.value || undefined }))}
+                placeholder="API key (optional)"
+                className={inputClass}
+              />
+            </>
+          )}
+          <div className="flex justify-end">
+            <button
+              onClick={applySettings}
+              className="px-3 py-1 text-xs bg-indigo-600 hover:bg-indigo-500 text-white font-medium rounded-lg transition-colors"
+            >
+              Use Provider
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && !loading && (
+        <div className="mb-4 p-3 text-sm text-red-400 bg-red-400/10 border border-red-400/20 rounded-lg flex items-start gap-2">
+          <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {activeRun && (
+        <div className="mb-4 flex flex-wrap items-center gap-2 text-xs text-slate-400">
+          <History className="w-3 h-3" />
+          <select
+            value={activeRun.id}
+            onChange={(e) => onSelectRun(e.target.value)}
+            className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-0.5 text-white outline-none"
+          >
+            {runs.map(run => <option key={run.id} value={run.id}>{formatTime(run.createdAt)}</option>)}
+          </select>
+          {cached && (
+            <span className="px-2 py-0.5 rounded-full bg-slate-700 text-slate-300" title={`Stored result from ${activeRun.provider}; no model call was made`}>
+              Cached
+            </span>
+          )}
+          {cached && (
+            <button onClick={onRerun} disabled={loading} className="underline hover:text-white disabled:opacity-50">Run again</button>
+          )}
+          {previousRun && (
+            <button
+              onClick={() => setShowDiff(!showDiff)}
+              className={`ml-auto flex items-center gap-1 hover:text-white ${showDiff ? 'text-indigo-400' : ''}`}
+            >
+              <GitCompare className="w-3 h-3" /> Changes
+            </button>
+          )}
+        </div>
+      )}
+
+      {showDiff && previousRun && diff && (
+        <div className="mb-4 p-3 bg-slate-900/60 border border-slate-700 rounded-lg text-xs space-y-2">
+          <p className="text-slate-500">Since {formatTime(previousRun.createdAt)}</p>
+          {!hasChanges && <p className="text-slate-400 italic">Same trends and anomalies as the previous run.</p>}
+          {[
+            { title: 'New trends', items: diff.newTrends, className: 'text-emerald-400', prefix: '+' },
+            { title: 'Resolved trends', items: diff.resolvedTrends, className: 'text-slate-500 line-through', prefix: '−' },
+            { title: 'New anomalies', items: diff.newAnomalies, className: 'text-amber-400', prefix: '+' },
+            { title: 'Resolved anomalies', items: diff.resolvedAnomalies, className: 'text-slate-500 line-through', prefix: '−' },
+          ].filter(group => group.items.length > 0).map(group => (
+            <div key={group.title}>
+              <p className="uppercase tracking-wider text-slate-500 font-bold text-[10px] mb-1">{group.title}</p>
+              <ul className="space-y-1">
+                {group.items.map((item, i) => (
+                  <li key={i} className={group.className}>{group.prefix} {item}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
 
-      {!insights && !loading && (
+      {!insights && !loading && !error && (
         <div className="flex-1 flex items-center justify-center text-slate-500 text-sm italic">
           No insights available. Connect data to generate analysis.
         </div>
@@ -56,6 +206,7 @@ export const InsightsPanel: React.FC<Props> = ({ insights, loading, onRefresh })
                 {insights.trends.map((trend, i) => (
                   <li key={i} className="text-sm text-emerald-400 bg-emerald-400/10 p-2 rounded border border-emerald-400/20">
                     {trend}
+                    {isNew(trend, diff?.newTrends) && <span className="ml-2 text-[10px] uppercase font-bold text-emerald-300">New</span>}
                   </li>
                 ))}
               </ul>
@@ -71,6 +222,7 @@ export const InsightsPanel: React.FC<Props> = ({ insights, loading, onRefresh })
                 {insights.anomalies.map((anomaly, i) => (
                   <li key={i} className="text-sm text-amber-400 bg-amber-400/10 p-2 rounded border border-amber-400/20">
                     {anomaly}
+                    {isNew(anomaly, diff?.newAnomalies) && <span className="ml-2 text-[10px] uppercase font-bold text-amber-300">New</span>}
                   </li>
                 ))}
               </ul>
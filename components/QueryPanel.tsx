@@ -0,0 +1,233 @@
+import React, { useMemo, useState } from 'react';
+import {
+  BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
+} from 'recharts';
+import { ColumnKeys, DataRow, FiscalCalendar, InsightProvider, QuerySpec } from '../types';
+import { buildQueryCatalog, buildQueryPrompt, describeQuery, runQuery, validateQuerySpec, QueryColumn } from '../services/queryEngine';
+import { isAmountMeasure } from '../services/widgets';
+import { ExportMenu } from './ExportMenu';
+import { Spinner } from './Spinner';
+import { MessageSquare, Send, AlertCircle, BarChart3, Table as TableIcon, Code } from 'lucide-react';
+
+interface Props {
+  tableName: string;
+  // Every loaded row in the reporting currency; the query applies its own filters
+  rows: DataRow[];
+  keys: ColumnKeys;
+  // Groups months, quarters and years into fiscal periods
+  calendar: FiscalCalendar;
+  formatMoney: (value: number) => string;
+  compactMoney: (value: number) => string;
+  // The provider picked for AI insights also translates questions
+  provider: InsightProvider;
+}
+
+const EXAMPLES = [
+  'What did Marketing spend per month in Q2?',
+  'Top 5 departments by profit this year',
+  'Average order revenue by quarter',
+];
+
+const SERIES_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ec4899', '#06b6d4'];
+
+const plainFormat = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export const QueryPanel: React.FC<Props> = ({ tableName, rows, keys, calendar, formatMoney, compactMoney, provider }) => {
+  const [question, setQuestion] = useState('');
+  const [asking, setAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [spec, setSpec] = useState<QuerySpec | null>(null);
+  const [view, setView] = useState<'chart' | 'table'>('chart');
+  const [showSpec, setShowSpec] = useState(false);
+
+  // Re-run on every data change so answers follow realtime updates
+  const result = useMemo(() => (spec ? runQuery(rows, spec, keys, calendar) : null), [rows, spec, keys, calendar]);
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question.trim() || asking) return;
+
+    setAsking(true);
+    setError(null);
+    try {
+      const catalog = buildQueryCatalog(rows, keys, calendar);
+      const raw = await provider.generateQuerySpec(buildQueryPrompt(question.trim(), tableName, catalog));
+      const validated = validateQuerySpec(raw, catalog);
+      setSpec(validated);
+      setView(validated.chart === 'table' ? 'table' : 'chart');
+    } catch (err: any) {
+      console.warn("Query error:", err);
+      setSpec(null);
+      setError(err.message || 'Could not answer the question');
+    } finally {
+      setAsking(false);
+    }
+  };
+
+  const formatColumn = (column: QueryColumn) =>
+    column.measure && column.measure.aggregation !== 'count' && isAmountMeasure(column.measure.field, keys) ? formatMoney : plainFormat;
+
+  const groupColumns = result ? result.columns.filter(c => !c.measure) : [];
+  const measureColumns = result ? result.columns.filter(c => c.measure) : [];
+  // Charts need exactly one group-by field; anything else is shown as a table
+  const chartable = !!result && groupColumns.length === 1 && result.rows.length > 1;
+  const allMoney = measureColumns.length > 0 && measureColumns.every(c => formatColumn(c) === formatMoney);
+
+  const exportRows = () => (result ? result.rows.map(row =>
+    Object.fromEntries(result.columns.map(c => [c.label, row[c.key]]))
+  ) : []);
+
+  const renderChart = () => {
+    if (!result || !spec) return null;
+    const xKey = groupColumns[0].key;
+    const tooltipFormatter = (value: any, name: any, item: any) => {
+      const column = measureColumns.find(c => c.key === item?.dataKey);
+      return [column ? formatColumn(column)(Number(value)) : value, name];
+    };
+    const children = [
+      <CartesianGrid key="grid" strokeDasharray="3 3" stroke="#334155" vertical={false} />,
+      <XAxis key="x" dataKey={xKey} stroke="#94a3b8" fontSize={12} />,
+      <YAxis key="y" stroke="#94a3b8" fontSize={12} width={70} tickFormatter={allMoney ? compactMoney : undefined} />,
+      <Tooltip key="tooltip" formatter={tooltipFormatter} contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#f1f5f9' }} />,
+      measureColumns.length > 1 ? <Legend key="legend" /> : null
+    ];
+    return (
+      <div className="h-[280px]">
+        <ResponsiveContainer width="100%" height="100%">
+          {spec.chart === 'line' ? (
+            <LineChart data={result.rows}>
+              {children}
+              {measureColumns.map((c, i) => (
+                <Line key={c.key} type="monotone" dataKey={c.key} name={c.label} stroke={SERIES_COLORS[i % SERIES_COLORS.length]} strokeWidth={2} />
+              ))}
+            </LineChart>
+          ) : (
+            <BarChart data={result.rows}>
+              {children}
+              {measureColumns.map((c, i) => (
+                <Bar key={c.key} dataKey={c.key} name={c.label} fill={SERIES_COLORS[i % SERIES_COLORS.length]} radius={[4, 4, 0, 0]} />
+              ))}
+            </BarChart>
+          )}
+        </ResponsiveContainer>
+      </div>
+    );
+  };
+
+  const renderTable = () => result && (
+    <div className="overflow-auto max-h-[320px]">
+      <table className="w-full text-left text-sm text-slate-400">
+        <thead className="bg-slate-900/50 text-slate-200 uppercase text-xs sticky top-0">
+          <tr>
+            {result.columns.map(c => (
+              <th key={c.key} className={`px-4 py-2 ${c.measure ? 'text-right' : ''}`}>{c.label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-700">
+          {result.rows.map((row, idx) => (
+            <tr key={idx} className="hover:bg-slate-700/50 transition-colors">
+              {result.columns.map(c => (
+                <td key={c.key} className={c.measure ? 'px-4 py-2 text-right font-mono' : 'px-4 py-2 text-slate-200'}>
+                  {c.measure ? formatColumn(c)(row[c.key]) : row[c.key]}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-xl">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <MessageSquare className="w-5 h-5 text-purple-400" />
+            Ask a Question
+          </h3>
+          <p className="text-sm text-slate-400">
+            Answers are computed from the loaded rows. The model only writes the query, shown below each answer.
+          </p>
+        </div>
+        {result && result.rows.length > 0 && <ExportMenu name={question || 'Query result'} getRows={exportRows} />}
+      </div>
+
+      <form onSubmit={handleAsk} className="flex gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder={EXAMPLES[0]}
+          className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-4 py-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+        />
+        <button
+          type="submit"
+          disabled={asking || !question.trim()}
+          className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-sm font-medium rounded-lg transition-colors"
+        >
+          {asking ? <Spinner /> : <Send className="w-4 h-4" />}
+          Ask
+        </button>
+      </form>
+
+      {!spec && !error && !asking && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {EXAMPLES.map(example => (
+            <button
+              key={example}
+              onClick={() => setQuestion(example)}
+              className="px-2 py-0.5 text-xs rounded-full border border-slate-700 text-slate-400 hover:text-white hover:border-indigo-500 transition-colors"
+            >
+              {example}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <p className="mt-3 text-sm text-red-400 flex items-start gap-2">
+          <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" /> {error}
+        </p>
+      )}
+
+      {spec && result && (
+        <div className="mt-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="px-2 py-1 rounded-lg bg-slate-900 border border-slate-700 text-slate-300 font-mono">{describeQuery(spec)}</span>
+            <span className="text-slate-500">{result.matched.toLocaleString()} matching rows</span>
+            <div className="ml-auto flex items-center gap-1">
+              <button
+                onClick={() => setShowSpec(!showSpec)}
+                title="Show query spec"
+                className={`p-1.5 rounded-lg hover:bg-slate-700 ${showSpec ? 'text-indigo-400' : 'text-slate-400 hover:text-white'}`}
+              >
+                <Code className="w-4 h-4" />
+              </button>
+              {chartable && (
+                <button
+                  onClick={() => setView(view === 'chart' ? 'table' : 'chart')}
+                  title={view === 'chart' ? 'Show table' : 'Show chart'}
+                  className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700"
+                >
+                  {view === 'chart' ? <TableIcon className="w-4 h-4" /> : <BarChart3 className="w-4 h-4" />}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {showSpec && (
+            <pre className="text-xs text-slate-400 bg-slate-900 border border-slate-700 rounded-lg p-3 overflow-x-auto">
+              {JSON.stringify(spec, null, 2)}
+            </pre>
+          )}
+
+          {result.rows.length === 0
+            ? <p className="text-sm text-slate-500 italic">No rows match this query.</p>
+            : chartable && view === 'chart' ? renderChart() : renderTable()}
+        </div>
+      )}
+    </div>
+  );
+};
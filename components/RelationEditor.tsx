@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { ConnectionProfile, SchemaTable, TableRelation } from '../types';
+import { fetchSchema } from '../services/schemaBrowser';
+import {
+  loadRelations, saveRelations, suggestRelations, validateRelations, joinedColumns, defaultPrefix, guessLabelField
+} from '../services/relations';
+import { Link2, Plus, Trash2, AlertCircle, Check } from 'lucide-react';
+
+interface Props {
+  profile: ConnectionProfile;
+  sourceId: string;
+  tableName: string;
+  // Called after saving so the source reloads with the new joins
+  onApply: () => void;
+}
+
+const selectClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-sm text-white outline-none focus:ring-2 focus:ring-indigo-500";
+
+export const RelationEditor: React.FC<Props> = ({ profile, sourceId, tableName, onApply }) => {
+  const [tables, setTables] = useState<SchemaTable[]>([]);
+  const [relations, setRelations] = useState<TableRelation[]>(() => loadRelations(sourceId));
+  const [draft, setDraft] = useState<TableRelation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [dirty, setDirty] = useState(false);
+
+  useEffect(() => {
+    setRelations(loadRelations(sourceId));
+    setDirty(false);
+    // Failures are already shown by the schema browser
+    fetchSchema(profile).then(setTables).catch(() => setTables([]));
+  }, [profile, sourceId]);
+
+  const source = tables.find(t => t.name === tableName);
+  const sourceColumns = source?.columns.map(c => c.name) ?? [];
+  const suggestions = suggestRelations(source, tables, relations);
+  const target = draft ? tables.find(t => t.name === draft.table) : undefined;
+
+  const update = (next: TableRelation[]) => {
+    setRelations(next);
+    setDirty(true);
+    setError(null);
+  };
+
+  const startDraft = () => {
+    const column = sourceColumns.find(c => /_id$/i.test(c)) ?? sourceColumns[0] ?? '';
+    setDraft({ column, table: '', key: '', labelField: '', fields: [], prefix: defaultPrefix(column) });
+  };
+
+  const pickTable = (name: string) => {
+    if (!draft) return;
+    const table = tables.find(t => t.name === name);
+    const key = table?.columns.find(c => c.primaryKey)?.name ?? table?.columns[0]?.name ?? '';
+    setDraft({ ...draft, table: name, key, labelField: table ? guessLabelField(table, key) : '', fields: [] });
+  };
+
+  const addDraft = () => {
+    if (!draft) return;
+    const problems = validateRelations([...relations, draft], sourceColumns);
+    if (problems.length > 0) {
+      setError(problems.join(' '));
+      return;
+    }
+    update([...relations, draft]);
+    setDraft(null);
+  };
+
+  const handleApply = () => {
+    const problems = validateRelations(relations, sourceColumns);
+    if (problems.length > 0) {
+      setError(problems.join(' '));
+      return;
+    }
+    saveRelations(sourceId, relations);
+    setDirty(false);
+    onApply();
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-slate-400">Joins for <span className="font-mono text-white">{tableName}</span></label>
+        <button onClick={startDraft} disabled={!source} className="flex items-center gap-1 text-xs text-slate-400 hover:text-white disabled:opacity-50">
+          <Plus className="w-3 h-3" /> Add join
+        </button>
+      </div>
+
+      {relations.length === 0 && suggestions.length === 0 && !draft && (
+        <p className="text-xs text-slate-500">No joins. Add one to use columns from a lookup table, such as department names, as dimensions.</p>
+      )}
+
+      <div className="space-y-1">
+        {relations.map((r, i) => (
+          <div key={`${r.column}-${r.prefix}`} className="flex items-center gap-2 text-xs text-slate-300 bg-slate-900/60 border border-slate-700 rounded-lg px-3 py-1.5">
+            <Link2 className="w-3 h-3 text-indigo-400" />
+            <span className="font-mono">{r.column} → {r.table}.{r.key}</span>
+            <span className="text-slate-500">adds</span>
+            <span className="font-mono text-indigo-300">{joinedColumns(r).join(', ')}</span>
+            <button onClick={() => update(relations.filter((_, j) => j !== i))} title="Remove" className="ml-auto p-1 text-slate-500 hover:text-red-400">
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mt-2">
+          <span className="text-xs text-slate-500">From foreign keys:</span>
+          {suggestions.map(s => (
+            <button
+              key={s.column}
+              onClick={() => update([...relations, s])}
+              className="flex items-center gap-1 px-2 py-0.5 text-xs rounded-full border border-slate-700 text-slate-400 hover:text-white hover:border-indigo-500"
+            >
+              <Plus className="w-3 h-3" /> {s.column} → {s.table}.{s.labelField}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {draft && (
+        <div className="mt-3 p-4 bg-slate-900/60 border border-slate-700 rounded-lg">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <div>
+              <label className="block text-[10px] uppercase tracking-wider text-slate-500 font-bold mb-1">Column</label>
+              <select
+                value={draft.column}
+                onChange={(e) => setDraft({ ...draft, column: e.target.value, prefix: defaultPrefix(e.target.value) })}
+                className={selectClass}
+              >
+                {sourceColumns.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-[10px] uppercase tracking-wider text-slate-500 font-bold mb-1">Lookup table</label>
+              <select value={draft.table} onChange={(e) => pickTable(e.target.value)} className={selectClass}>
+                <option value="">Choose...</option>
+                {tables.filter(t => t.name !== tableName).map(t => <option key={t.name} value={t.name}>{t.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-[10px] uppercase tracking-wider text-slate-500 font-bold mb-1">Matches on</label>
+              <select value={draft.key} onChange={(e) => setDraft({ ...draft, key: e.target.value })} className={selectClass} disabled={!target}>
+                {target?.columns.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-[10px] uppercase tracking-wider text-slate-500 font-bold mb-1">Label</label>
+              <select value={draft.labelField} onChange={(e) => setDraft({ ...draft, labelField: e.target.value })} className={selectClass} disabled={!target}>
+                {target?.columns.map(c => <option key={c.name} value={c.name}>{c.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-[10px] uppercase tracking-wider text-slate-500 font-bold mb-1">Name</label>
+              <input type="text" value={draft.prefix} onChange={(e) => setDraft({ ...draft, prefix: e.target.value.trim() })} className={selectClass} />
+            </div>
+          </div>
+          {target && (
+            <div className="mt-3">
+              <label className="block text-[10px] uppercase tracking-wider text-slate-500 font-bold mb-1">Also bring in</label>
+              <div className="flex flex-wrap gap-3">
+                {target.columns.filter(c => c.name !== draft.key && c.name !== draft.labelField).map(c => (
+                  <label key={c.name} className="flex items-center gap-1 text-xs text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={draft.fields.includes(c.name)}
+                      onChange={(e) => setDraft({
+                        ...draft,
+                        fields: e.target.checked ? [...draft.fields, c.name] : draft.fields.filter(f => f !== c.name)
+                      })}
+                    />
+                    <span className="font-mono">{c.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="flex justify-end gap-2 mt-3">
+            <button onClick={() => setDraft(null)} className="px-3 py-1 text-sm text-slate-400 hover:text-white">Cancel</button>
+            <button onClick={addDraft} disabled={!draft.table} className="px-4 py-1.5 text-sm bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded-lg">
+              Add
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <p className="mt-2 text-sm text-red-400 flex items-center gap-1">
+          <AlertCircle className="w-4 h-4" /> {error}
+        </p>
+      )}
+
+      {dirty && (
+        <div className="flex justify-end mt-3">
+          <button onClick={handleApply} className="flex items-center gap-1 px-4 py-1.5 text-sm bg-indigo-600 hover:bg-indigo-500 text-white font-medium rounded-lg transition-colors">
+            <Check className="w-4 h-4" /> Apply joins and reload
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,241 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ConnectionProfile, DataRow, SchemaTable } from '../types';
+import { fetchSchema, fetchSampleRows, SAMPLE_ROW_LIMIT } from '../services/schemaBrowser';
+import { Spinner } from './Spinner';
+import { Search, RefreshCw, AlertCircle, Table as TableIcon, Eye, KeyRound, Link2, ArrowRight } from 'lucide-react';
+
+interface Props {
+  profile: ConnectionProfile;
+  // Highlighted when it is in the list
+  currentTable?: string;
+  onOpen: (tableName: string) => void;
+}
+
+const formatCell = (value: any) => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const SchemaBrowser: React.FC<Props> = ({ profile, currentTable, onOpen }) => {
+  const [tables, setTables] = useState<SchemaTable[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<string | null>(currentTable ?? null);
+  const [manualTable, setManualTable] = useState('');
+  const [preview, setPreview] = useState<{ table: string; rows: DataRow[] } | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const load = async (refresh = false) => {
+    setLoading(true);
+    setError(null);
+    try {
+      setTables(await fetchSchema(profile, refresh));
+    } catch (err: any) {
+      console.warn("Schema error:", err);
+      setError(err.message || 'Could not list tables');
+      setTables([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setPreview(null);
+    load();
+  }, [profile]);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return tables;
+    return tables.filter(t => t.name.toLowerCase().includes(term) || t.columns.some(c => c.name.toLowerCase().includes(term)));
+  }, [tables, search]);
+
+  const table = tables.find(t => t.name === selected) ?? null;
+
+  const handlePreview = async (name: string) => {
+    setPreviewLoading(true);
+    setPreviewError(null);
+    try {
+      setPreview({ table: name, rows: await fetchSampleRows(profile, name) });
+    } catch (err: any) {
+      setPreviewError(err.message || 'Could not load sample rows');
+      setPreview(null);
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const handleManualOpen = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (manualTable.trim()) onOpen(manualTable.trim());
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 py-6 text-sm text-slate-400">
+        <Spinner className="text-indigo-500" /> Reading schema on {profile.name}...
+      </div>
+    );
+  }
+
+  // Without a schema description, fall back to typing the name
+  if (error) {
+    return (
+      <div className="max-w-md">
+        <p className="text-sm text-amber-400 flex items-start gap-2 mb-3">
+          <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" /> {error}
+        </p>
+        <form onSubmit={handleManualOpen} className="flex gap-2">
+          <input
+            type="text"
+            value={manualTable}
+            onChange={(e) => setManualTable(e.target.value)}
+            placeholder="Table name (e.g. orders)"
+            className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-4 py-2 text-white outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button type="submit" className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white font-medium rounded-lg transition-colors">Open</button>
+          <button type="button" onClick={() => load(true)} title="Retry" className="p-2 text-slate-400 hover:text-white">
+            <RefreshCw className="w-4 h-4" />
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-left">
+      <div className="md:col-span-1 flex flex-col min-h-0">
+        <div className="flex gap-2 mb-2">
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 text-slate-500 absolute left-2 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={`Search ${tables.length} tables and columns`}
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg pl-8 pr-2 py-1.5 text-sm text-white outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <button onClick={() => load(true)} title="Refresh schema" className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg">
+            <RefreshCw className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="max-h-[320px] overflow-y-auto border border-slate-700 rounded-lg divide-y divide-slate-700/60">
+          {filtered.length === 0 && <p className="p-3 text-sm text-slate-500 italic">No matching tables.</p>}
+          {filtered.map(t => (
+            <button
+              key={t.name}
+              onClick={() => { setSelected(t.name); setPreview(null); setPreviewError(null); }}
+              className={`w-full flex items-center gap-2 px-3 py-2 text-sm transition-colors ${
+                t.name === selected ? 'bg-indigo-600/20 text-white' : 'text-slate-300 hover:bg-slate-700/50'
+              }`}
+            >
+              {t.kind === 'view' ? <Eye className="w-3 h-3 text-slate-500" /> : <TableIcon className="w-3 h-3 text-slate-500" />}
+              <span className="font-mono truncate">{t.name}</span>
+              {t.name === currentTable && <span className="text-[10px] text-indigo-400">open</span>}
+              <span className="ml-auto text-xs text-slate-500">{t.rowCount !== null ? t.rowCount.toLocaleString() : '—'}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="md:col-span-2 min-w-0">
+        {!table ? (
+          <p className="text-sm text-slate-500 py-6">Select a table to see its columns.</p>
+        ) : (
+          <div>
+            <div className="flex items-center gap-2 mb-2">
+              <span className="font-mono text-white">{table.name}</span>
+              <span className="px-2 py-0.5 rounded-full text-[10px] uppercase tracking-wider bg-slate-700 text-slate-300">{table.kind}</span>
+              <span className="text-xs text-slate-500">
+                {table.rowCount !== null ? `${table.rowCount.toLocaleString()} rows` : 'row count unavailable'} · {table.columns.length} columns
+              </span>
+              <div className="ml-auto flex gap-2">
+                <button
+                  onClick={() => (preview?.table === table.name ? setPreview(null) : handlePreview(table.name))}
+                  disabled={previewLoading}
+                  className="flex items-center gap-1 px-3 py-1 text-xs rounded-lg border border-slate-700 text-slate-300 hover:text-white hover:border-indigo-500 disabled:opacity-50"
+                >
+                  {previewLoading ? <Spinner className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+                  {preview?.table === table.name ? 'Show columns' : 'Preview rows'}
+                </button>
+                <button
+                  onClick={() => onOpen(table.name)}
+                  className="flex items-center gap-1 px-3 py-1 text-xs rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white font-medium"
+                >
+                  Open on dashboard <ArrowRight className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+            {table.description && <p className="text-xs text-slate-500 mb-2">{table.description}</p>}
+
+            {preview?.table === table.name ? (
+              <div className="overflow-auto max-h-[280px] border border-slate-700 rounded-lg">
+                {preview.rows.length === 0 ? (
+                  <p className="p-3 text-sm text-slate-500 italic">No rows visible.</p>
+                ) : (
+                  <table className="w-full text-left text-xs text-slate-400">
+                    <thead className="bg-slate-900/50 text-slate-200 sticky top-0">
+                      <tr>{table.columns.map(c => <th key={c.name} className="px-3 py-2 font-mono whitespace-nowrap">{c.name}</th>)}</tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-700">
+                      {preview.rows.map((row, idx) => (
+                        <tr key={idx}>
+                          {table.columns.map(c => (
+                            <td key={c.name} className="px-3 py-1.5 whitespace-nowrap max-w-[200px] truncate" title={formatCell(row[c.name])}>
+                              {formatCell(row[c.name])}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                <p className="px-3 py-1 text-[10px] text-slate-500">First {SAMPLE_ROW_LIMIT} rows</p>
+              </div>
+            ) : (
+              <div className="overflow-auto max-h-[280px] border border-slate-700 rounded-lg">
+                <table className="w-full text-left text-xs text-slate-400">
+                  <thead className="bg-slate-900/50 text-slate-200 uppercase sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2">Column</th>
+                      <th className="px-3 py-2">Type</th>
+                      <th className="px-3 py-2">Nullable</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-700">
+                    {table.columns.map(c => (
+                      <tr key={c.name}>
+                        <td className="px-3 py-1.5 font-mono text-slate-200">
+                          <span className="flex items-center gap-1">
+                            {c.name}
+                            {c.primaryKey && <KeyRound className="w-3 h-3 text-amber-400" />}
+                            {c.foreignKey && (
+                              <span className="flex items-center gap-0.5 text-[10px] text-indigo-400" title="Foreign key">
+                                <Link2 className="w-3 h-3" /> {c.foreignKey.table}.{c.foreignKey.column}
+                              </span>
+                            )}
+                          </span>
+                        </td>
+                        <td className="px-3 py-1.5 font-mono">{c.type}</td>
+                        <td className="px-3 py-1.5">{c.nullable ? 'yes' : 'no'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {previewError && (
+              <p className="mt-2 text-sm text-red-400 flex items-center gap-1">
+                <AlertCircle className="w-4 h-4" /> {previewError}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { ConnectionProfile } from '../types';
+import { getClient } from '../services/supabaseClient';
+import { signInWithPassword, sendMagicLink } from '../services/auth';
+import { Spinner } from './Spinner';
+import { Lock, Mail, AlertCircle, CheckCircle2 } from 'lucide-react';
+
+interface Props {
+  profile: ConnectionProfile;
+  // Shown above the form, e.g. after a session expired
+  notice: string | null;
+  // Only offered when anonymous browsing is allowed
+  onContinueAsGuest?: () => void;
+}
+
+type Mode = 'password' | 'magic-link';
+
+export const SignIn: React.FC<Props> = ({ profile, notice, onContinueAsGuest }) => {
+  const [mode, setMode] = useState<Mode>('password');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [linkSent, setLinkSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const client = getClient(profile);
+      if (mode === 'password') {
+        // The session arrives through App's auth listener
+        await signInWithPassword(client, email.trim(), password);
+      } else {
+        await sendMagicLink(client, email.trim());
+        setLinkSent(true);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Sign-in failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-4 py-2 text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all";
+
+  return (
+    <div className="max-w-md mx-auto mt-12 bg-slate-800 border border-slate-700 rounded-xl p-8 shadow-xl">
+      <h2 className="text-xl font-semibold text-white flex items-center gap-2 mb-1">
+        <Lock className="w-5 h-5 text-indigo-400" />
+        Sign in
+      </h2>
+      <p className="text-sm text-slate-400 mb-6">to <span className="text-white">{profile.name}</span> · {profile.url}</p>
+
+      {notice && (
+        <p className="mb-4 p-3 text-sm text-amber-400 bg-amber-400/10 border border-amber-400/20 rounded-lg flex items-center gap-2">
+          <AlertCircle className="w-4 h-4 shrink-0" /> {notice}
+        </p>
+      )}
+
+      <div className="flex rounded-lg bg-slate-900 border border-slate-700 p-0.5 mb-4">
+        {(['password', 'magic-link'] as Mode[]).map(m => (
+          <button
+            key={m}
+            onClick={() => { setMode(m); setError(null); setLinkSent(false); }}
+            className={`flex-1 px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+              mode === m ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            {m === 'password' ? 'Password' : 'Magic link'}
+          </button>
+        ))}
+      </div>
+
+      {linkSent ? (
+        <p className="p-3 text-sm text-emerald-400 bg-emerald-400/10 border border-emerald-400/20 rounded-lg flex items-center gap-2">
+          <CheckCircle2 className="w-4 h-4 shrink-0" /> Check {email} for a sign-in link.
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <input
+            type="email"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="you@company.com"
+            autoComplete="email"
+            className={inputClass}
+          />
+          {mode === 'password' && (
+            <input
+              type="password"
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              autoComplete="current-password"
+              className={inputClass}
+            />
+          )}
+          {error && (
+            <p className="text-sm text-red-400 flex items-center gap-1">
+              <AlertCircle className="w-4 h-4" /> {error}
+            </p>
+          )}
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full flex items-center justify-center gap-2 px-6 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-medium rounded-lg transition-colors"
+          >
+            {submitting ? <Spinner /> : mode === 'magic-link' ? <Mail className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+            {mode === 'password' ? 'Sign in' : 'Send magic link'}
+          </button>
+        </form>
+      )}
+
+      {onContinueAsGuest && (
+        <button onClick={onContinueAsGuest} className="mt-6 w-full text-xs text-slate-500 hover:text-white">
+          Continue without signing in (public data only)
+        </button>
+      )}
+    </div>
+  );
+};
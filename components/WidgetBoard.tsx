@@ -0,0 +1,102 @@
+import React, { useMemo, useState } from 'react';
+import { ColumnKeys, DataRow, WidgetConfig, WidgetType } from '../types';
+import { WIDGET_TYPES, WidgetData, createWidget, listDimensions, listMeasures, moveWidget } from '../services/widgets';
+import { PresetView, WidgetCard } from './WidgetCard';
+import { LayoutGrid, Plus, RotateCcw } from 'lucide-react';
+
+interface Props {
+  layout: WidgetConfig[];
+  // Figures of each plain widget by id, aggregated over the rows in scope
+  results: Record<string, WidgetData>;
+  // Rows in scope (date range and drill-down applied)
+  rowCount: number;
+  // All loaded rows, used to list the columns a widget can use
+  data: DataRow[];
+  keys: ColumnKeys;
+  formatMoney: (value: number) => string;
+  compactMoney: (value: number) => string;
+  renderPreset: (widget: WidgetConfig) => PresetView | null;
+  onChange: (layout: WidgetConfig[]) => void;
+  onReset: () => void;
+}
+
+export const WidgetBoard: React.FC<Props> = ({ layout, results, rowCount, data, keys, formatMoney, compactMoney, renderPreset, onChange, onReset }) => {
+  const [isAddOpen, setIsAddOpen] = useState(false);
+
+  const dimensions = useMemo(() => listDimensions(data, keys), [data, keys]);
+  const measures = useMemo(() => listMeasures(data, keys), [data, keys]);
+
+  const addWidget = (type: WidgetType) => {
+    setIsAddOpen(false);
+    onChange([...layout, createWidget(type)]);
+  };
+
+  const updateWidget = (widget: WidgetConfig) => onChange(layout.map(w => (w.id === widget.id ? widget : w)));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <LayoutGrid className="w-5 h-5 text-indigo-400" />
+          Charts
+        </h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onReset}
+            title="Restore the default charts"
+            className="p-2 hover:bg-slate-700 rounded-full text-slate-400 hover:text-white"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </button>
+          <div className="relative">
+            <button
+              onClick={() => setIsAddOpen(!isAddOpen)}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm bg-indigo-600 hover:bg-indigo-500 text-white font-medium rounded-lg transition-colors"
+            >
+              <Plus className="w-4 h-4" /> Add widget
+            </button>
+            {isAddOpen && (
+              <div className="absolute right-0 mt-1 z-10 bg-slate-900 border border-slate-700 rounded-lg shadow-xl py-1 min-w-[140px]">
+                {WIDGET_TYPES.map(t => (
+                  <button
+                    key={t.value}
+                    onClick={() => addWidget(t.value)}
+                    className="block w-full text-left px-3 py-1.5 text-xs text-slate-300 hover:bg-slate-700 hover:text-white"
+                  >
+                    {t.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {layout.length === 0 ? (
+        <p className="text-sm text-slate-500 italic">No charts yet. Add a widget to build your own view of this table.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {layout.map((widget, index) => (
+            <WidgetCard
+              key={widget.id}
+              widget={widget}
+              result={results[widget.id]}
+              rowCount={rowCount}
+              keys={keys}
+              dimensions={dimensions}
+              measures={measures}
+              formatMoney={formatMoney}
+              compactMoney={compactMoney}
+              renderPreset={renderPreset}
+              isFirst={index === 0}
+              isLast={index === layout.length - 1}
+              onChange={updateWidget}
+              onMove={(offset) => onChange(moveWidget(layout, widget.id, offset))}
+              onRemove={() => onChange(layout.filter(w => w.id !== widget.id))}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import {
+  AreaChart, Area, BarChart, Bar, LineChart, Line, PieChart, Pie, Cell,
+  XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
+} from 'recharts';
+import { ColumnKeys, DataRow, WidgetConfig } from '../types';
+import { isAmountMeasure, FieldOption, WidgetData } from '../services/widgets';
+import { ExportMenu } from './ExportMenu';
+import { WidgetEditor } from './WidgetEditor';
+import { ChevronLeft, ChevronRight, Maximize2, Minimize2, Pencil, Trash2 } from 'lucide-react';
+
+// A built-in chart as drawn by the dashboard that holds its analytics
+export interface PresetView {
+  body: React.ReactNode;
+  // Under the title, e.g. changes against the comparison range or forecast controls
+  details?: React.ReactNode;
+  exportRows: () => DataRow[];
+}
+
+interface Props {
+  widget: WidgetConfig;
+  // Figures from the analytics worker; missing until it has aggregated a new or edited widget
+  result: WidgetData | undefined;
+  // Rows behind the figures
+  rowCount: number;
+  keys: ColumnKeys;
+  dimensions: FieldOption[];
+  measures: FieldOption[];
+  formatMoney: (value: number) => string;
+  compactMoney: (value: number) => string;
+  // Draws built-in charts; without it they fall back to their plain config
+  renderPreset?: (widget: WidgetConfig) => PresetView | null;
+  isFirst: boolean;
+  isLast: boolean;
+  onChange: (widget: WidgetConfig) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}
+
+const SERIES_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ec4899', '#8b5cf6', '#06b6d4', '#f43f5e', '#84cc16'];
+
+const SPAN_CLASSES: Record<WidgetConfig['size'], string> = {
+  1: 'lg:col-span-1',
+  2: 'lg:col-span-2',
+  3: 'lg:col-span-3',
+};
+
+const EMPTY_RESULT: WidgetData = { rows: [], series: [], total: {} };
+
+const plainFormat = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+const compactFormat = (value: number) => value.toLocaleString(undefined, { notation: 'compact', maximumFractionDigits: 1 });
+
+export const WidgetCard: React.FC<Props> = ({
+  widget, result, rowCount, keys, dimensions, measures, formatMoney, compactMoney, renderPreset, isFirst, isLast, onChange, onMove, onRemove
+}) => {
+  const [editing, setEditing] = useState(false);
+  const { chart } = widget;
+
+  // Built-in charts bring their own figures
+  const preset = widget.preset && renderPreset ? renderPreset(widget) : null;
+  const data = result ?? EMPTY_RESULT;
+  const series = widget.type === 'pie' || widget.type === 'kpi' ? data.series.slice(0, 1) : data.series;
+
+  // Counts are plain numbers even when the measure is an amount
+  const isMoney = (measure: string) => chart.aggregation !== 'count' && isAmountMeasure(measure, keys);
+  const formatFor = (measure: string) => (isMoney(measure) ? formatMoney : plainFormat);
+  const axisFormat = series.every(s => isMoney(s.value)) ? compactMoney : compactFormat;
+  const dimensionLabel = dimensions.find(d => d.value === chart.xAxisKey)?.label ?? chart.xAxisKey;
+  // Exports use readable headers instead of role tokens such as '$revenue'
+  const exportRows = () => data.rows.map(row => ({
+    [dimensionLabel]: row.name,
+    ...Object.fromEntries(series.map(s => [s.label, row[s.value]]))
+  }));
+  const tooltipFormatter = (value: any, name: any, item: any) => [formatFor(String(item?.dataKey ?? ''))(Number(value)), name];
+
+  const renderBody = () => {
+    if (!result) {
+      return <p className="text-sm text-slate-500 italic">Aggregating...</p>;
+    }
+    if (series.length === 0) {
+      return <p className="text-sm text-slate-500 italic">Pick at least one measure.</p>;
+    }
+    if (data.rows.length === 0) {
+      return <p className="text-sm text-slate-500 italic">No rows in the current selection.</p>;
+    }
+
+    switch (widget.type) {
+      case 'kpi': {
+        const measure = series[0];
+        return (
+          <div>
+            <p className="text-3xl font-semibold text-white font-mono">{formatFor(measure.value)(data.total[measure.value])}</p>
+            <p className="text-xs text-slate-500 mt-1">{measure.label} · {rowCount.toLocaleString()} rows</p>
+          </div>
+        );
+      }
+
+      case 'table':
+        return (
+          <div className="overflow-auto max-h-[300px]">
+            <table className="w-full text-left text-sm text-slate-400">
+              <thead className="bg-slate-900/50 text-slate-200 uppercase text-xs sticky top-0">
+                <tr>
+                  <th className="px-4 py-2">{dimensionLabel}</th>
+                  {series.map(s => <th key={s.value} className="px-4 py-2 text-right">{s.label}</th>)}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700">
+                {data.rows.map(row => (
+                  <tr key={row.name} className="hover:bg-slate-700/50 transition-colors">
+                    <td className="px-4 py-2 text-slate-200">{row.name}</td>
+                    {series.map(s => (
+                      <td key={s.value} className="px-4 py-2 text-right font-mono">{formatFor(s.value)(row[s.value])}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+
+      case 'pie':
+        return (
+          <div className="h-[250px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <PieChart>
+                <Pie data={data.rows} dataKey={series[0].value} nameKey="name" innerRadius={50} outerRadius={80} paddingAngle={3}>
+                  {data.rows.map((row, index) => <Cell key={row.name} fill={SERIES_COLORS[index % SERIES_COLORS.length]} />)}
+                </Pie>
+                <Tooltip formatter={(value: any) => formatFor(series[0].value)(Number(value))} />
+                <Legend verticalAlign="bottom" height={36} />
+              </PieChart>
+            </ResponsiveContainer>
+          </div>
+        );
+
+      default: {
+        const axes = [
+          <CartesianGrid key="grid" strokeDasharray="3 3" stroke="#334155" vertical={false} />,
+          <XAxis key="x" dataKey="name" stroke="#94a3b8" fontSize={12} />,
+          <YAxis key="y" stroke="#94a3b8" fontSize={12} tickFormatter={axisFormat} width={70} />,
+          <Tooltip
+            key="tooltip"
+            formatter={tooltipFormatter}
+            contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#f1f5f9' }}
+            cursor={widget.type === 'bar' ? { fill: '#334155', opacity: 0.2 } : undefined}
+          />,
+          series.length > 1 ? <Legend key="legend" /> : null
+        ];
+        const color = (index: number) => SERIES_COLORS[index % SERIES_COLORS.length];
+        return (
+          <div className="h-[250px]">
+            <ResponsiveContainer width="100%" height="100%">
+              {widget.type === 'area' ? (
+                <AreaChart data={data.rows}>
+                  {axes}
+                  {series.map((s, i) => (
+                    <Area key={s.value} type="monotone" dataKey={s.value} name={s.label} stroke={color(i)} fill={color(i)} fillOpacity={0.2} />
+                  ))}
+                </AreaChart>
+              ) : widget.type === 'line' ? (
+                <LineChart data={data.rows}>
+                  {axes}
+                  {series.map((s, i) => (
+                    <Line key={s.value} type="monotone" dataKey={s.value} name={s.label} stroke={color(i)} strokeWidth={2} dot={false} />
+                  ))}
+                </LineChart>
+              ) : (
+                <BarChart data={data.rows}>
+                  {axes}
+                  {series.map((s, i) => (
+                    <Bar key={s.value} dataKey={s.value} name={s.label} fill={color(i)} radius={[4, 4, 0, 0]} />
+                  ))}
+                </BarChart>
+              )}
+            </ResponsiveContainer>
+          </div>
+        );
+      }
+    }
+  };
+
+  const iconButton = "p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent";
+
+  return (
+    <div data-report-chart={`widget-${widget.id}`} className={`${SPAN_CLASSES[widget.size]} bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-xl`}>
+      <div className="flex justify-between items-start gap-2 mb-4">
+        <div className="min-w-0">
+          <h3 className="text-lg font-semibold text-white truncate" title={widget.title}>{widget.title}</h3>
+          {preset?.details}
+        </div>
+        <div className="flex items-center shrink-0">
+          <button onClick={() => onMove(-1)} disabled={isFirst} title="Move left" className={iconButton}>
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button onClick={() => onMove(1)} disabled={isLast} title="Move right" className={iconButton}>
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          {widget.size < 3 ? (
+            <button onClick={() => onChange({ ...widget, size: (widget.size + 1) as WidgetConfig['size'] })} title="Wider" className={iconButton}>
+              <Maximize2 className="w-4 h-4" />
+            </button>
+          ) : (
+            <button onClick={() => onChange({ ...widget, size: 1 })} title="Narrower" className={iconButton}>
+              <Minimize2 className="w-4 h-4" />
+            </button>
+          )}
+          <button onClick={() => setEditing(!editing)} title="Configure" className={`${iconButton} ${editing ? 'text-indigo-400' : ''}`}>
+            <Pencil className="w-4 h-4" />
+          </button>
+          <ExportMenu name={widget.title} getRows={preset ? preset.exportRows : exportRows} />
+          <button onClick={onRemove} title="Remove widget" className={`${iconButton} hover:text-red-400`}>
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {editing ? (
+        <WidgetEditor
+          widget={widget}
+          dimensions={dimensions}
+          measures={measures}
+          onSave={(next) => { onChange({ ...next, preset: undefined }); setEditing(false); }}
+          onCancel={() => setEditing(false)}
+        />
+      ) : preset ? preset.body : renderBody()}
+    </div>
+  );
+};
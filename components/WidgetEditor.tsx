@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { Aggregation, WidgetConfig, WidgetSize, WidgetType } from '../types';
+import { AGGREGATIONS, WIDGET_SIZES, WIDGET_TYPES, FieldOption } from '../services/widgets';
+
+interface Props {
+  widget: WidgetConfig;
+  dimensions: FieldOption[];
+  measures: FieldOption[];
+  onSave: (widget: WidgetConfig) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-white outline-none focus:ring-2 focus:ring-indigo-500";
+const labelClass = "block text-[10px] uppercase tracking-wider text-slate-500 font-bold mb-1";
+
+export const WidgetEditor: React.FC<Props> = ({ widget, dimensions, measures, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<WidgetConfig>(widget);
+
+  useEffect(() => { setDraft(widget); }, [widget]);
+
+  const setChart = (patch: Partial<WidgetConfig['chart']>) =>
+    setDraft(prev => ({ ...prev, chart: { ...prev.chart, ...patch } }));
+
+  const toggleMeasure = (value: string) => {
+    const selected = draft.chart.dataKeys.includes(value)
+      ? draft.chart.dataKeys.filter(k => k !== value)
+      : [...draft.chart.dataKeys, value];
+    setChart({ dataKeys: selected });
+  };
+
+  const isCount = draft.chart.aggregation === 'count';
+  // Pie charts and KPI tiles show a single measure
+  const singleMeasure = draft.type === 'pie' || draft.type === 'kpi';
+  const canSave = draft.title.trim() !== '' && (isCount || draft.chart.dataKeys.length > 0);
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className={labelClass}>Title</label>
+        <input
+          type="text"
+          value={draft.title}
+          onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Type</label>
+          <select
+            value={draft.type}
+            onChange={(e) => setDraft(prev => ({ ...prev, type: e.target.value as WidgetType }))}
+            className={inputClass}
+          >
+            {WIDGET_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Width</label>
+          <select
+            value={draft.size}
+            onChange={(e) => setDraft(prev => ({ ...prev, size: Number(e.target.value) as WidgetSize }))}
+            className={inputClass}
+          >
+            {WIDGET_SIZES.map(size => <option key={size} value={size}>{size} / 3</option>)}
+          </select>
+        </div>
+        {draft.type !== 'kpi' && (
+          <div>
+            <label className={labelClass}>Group by</label>
+            <select
+              value={draft.chart.xAxisKey}
+              onChange={(e) => setChart({ xAxisKey: e.target.value })}
+              className={inputClass}
+            >
+              {!dimensions.some(d => d.value === draft.chart.xAxisKey) && (
+                <option value={draft.chart.xAxisKey}>{draft.chart.xAxisKey} (missing)</option>
+              )}
+              {dimensions.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+            </select>
+          </div>
+        )}
+        <div>
+          <label className={labelClass}>Aggregation</label>
+          <select
+            value={draft.chart.aggregation}
+            onChange={(e) => setChart({ aggregation: e.target.value as Aggregation })}
+            className={inputClass}
+          >
+            {AGGREGATIONS.map(a => <option key={a.value} value={a.value}>{a.label}</option>)}
+          </select>
+        </div>
+        {draft.type !== 'kpi' && (
+          <div>
+            <label className={labelClass}>Limit</label>
+            <input
+              type="number"
+              min={0}
+              value={draft.chart.limit ?? ''}
+              onChange={(e) => setChart({ limit: e.target.value ? Math.max(0, Number(e.target.value)) : undefined })}
+              placeholder="All groups"
+              className={inputClass}
+            />
+          </div>
+        )}
+      </div>
+
+      {!isCount && (
+        <div>
+          <label className={labelClass}>Measures{singleMeasure ? ' (first one is shown)' : ''}</label>
+          <div className="flex flex-wrap gap-1">
+            {measures.map(m => (
+              <button
+                key={m.value}
+                onClick={() => toggleMeasure(m.value)}
+                className={`px-2 py-0.5 text-xs rounded-full border transition-colors ${
+                  draft.chart.dataKeys.includes(m.value)
+                    ? 'bg-indigo-600 border-indigo-500 text-white'
+                    : 'border-slate-700 text-slate-400 hover:text-white'
+                }`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {widget.preset && (
+        <p className="text-xs text-amber-400">
+          Applying turns this built-in chart into a plain widget without comparisons, forecast or drill-down.
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-3 py-1 text-xs text-slate-400 hover:text-white">Cancel</button>
+        <button
+          onClick={() => onSave({ ...draft, title: draft.title.trim() })}
+          disabled={!canSave}
+          className="px-3 py-1 text-xs bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-medium rounded-lg transition-colors"
+        >
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+};
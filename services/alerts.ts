@@ -0,0 +1,276 @@
+import { Alert, AlertRule, AlertRuleKind, ColumnKeys, DataRow, FiscalCalendar } from '../types';
+import { STORAGE_PREFIX } from '../constants';
+import { readDate, readDept, readNumber, readProfit } from './columnMapping';
+import { readMeasure } from './widgets';
+import { DEFAULT_FISCAL_CALENDAR, fiscalPeriodOf, fiscalPeriodLabel } from './fiscalCalendar';
+
+export const ALERT_RULE_KINDS: Record<AlertRuleKind, string> = {
+  'row-threshold': 'Single row amount',
+  'monthly-growth': 'Month-on-month change',
+  'negative-margin': 'Row margin',
+};
+
+export const ALERT_MEASURES = [
+  { value: '$revenue', label: 'Revenue' },
+  { value: '$expenses', label: 'Expenses' },
+  { value: '$profit', label: 'Profit' },
+];
+
+// Older alerts are dropped beyond this
+export const MAX_ALERTS = 200;
+
+export const SNOOZE_OPTIONS = [
+  { label: '1 hour', minutes: 60 },
+  { label: '1 day', minutes: 24 * 60 },
+  { label: '1 week', minutes: 7 * 24 * 60 },
+];
+
+type RuleTemplate = Omit<AlertRule, 'id' | 'enabled' | 'notify'>;
+
+// Starting points offered in the rule editor
+export const ALERT_TEMPLATES: RuleTemplate[] = [
+  { name: 'Single expense over 50k', kind: 'row-threshold', measure: '$expenses', comparator: 'above', threshold: 50000, perDepartment: false },
+  { name: 'Department monthly spend over 110% of last month', kind: 'monthly-growth', measure: '$expenses', comparator: 'above', threshold: 110, perDepartment: true },
+  { name: 'Negative-margin order', kind: 'negative-margin', measure: '$profit', comparator: 'below', threshold: 0, perDepartment: false },
+];
+
+export const createAlertRule = (template: RuleTemplate = ALERT_TEMPLATES[0]): AlertRule => ({
+  ...template,
+  id: `r-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+  enabled: true,
+  notify: false
+});
+
+// A rule match before it enters the feed
+export interface AlertMatch {
+  rule: AlertRule;
+  subject: string;
+  message: string;
+}
+
+const measureLabel = (measure: string) => ALERT_MEASURES.find(m => m.value === measure)?.label ?? measure;
+
+const passes = (value: number, rule: AlertRule) =>
+  rule.comparator === 'above' ? value > rule.threshold : value < rule.threshold;
+
+// --- Row rules, checked on each incoming row ---
+
+export const evaluateRowRules = (
+  row: DataRow,
+  rules: AlertRule[],
+  keys: ColumnKeys,
+  rowId: string,
+  formatMoney: (value: number) => string
+): AlertMatch[] => {
+  const dept = readDept(row, keys.deptKey);
+  const matches: AlertMatch[] = [];
+
+  rules.filter(r => r.enabled).forEach(rule => {
+    if (rule.kind === 'row-threshold') {
+      const value = readMeasure(row, rule.measure, keys);
+      if (!passes(value, rule)) return;
+      matches.push({
+        rule,
+        subject: `row:${rowId}`,
+        message: `Row ${rowId} (${dept}): ${measureLabel(rule.measure).toLowerCase()} ${formatMoney(value)} is ${rule.comparator} ${formatMoney(rule.threshold)}`
+      });
+    } else if (rule.kind === 'negative-margin') {
+      // Margin in percent; a row without revenue has no margin unless it made a profit or loss
+      const revenue = readNumber(row, keys.revKey);
+      const profit = readProfit(row, keys);
+      const margin = revenue !== 0 ? (profit / revenue) * 100 : profit === 0 ? null : Math.sign(profit) * Infinity;
+      if (margin === null || !passes(margin, rule)) return;
+      const result = profit < 0 ? `lost ${formatMoney(Math.abs(profit))}` : `made ${formatMoney(profit)}`;
+      const marginText = isFinite(margin) ? `${margin.toFixed(1)}% margin` : 'no revenue';
+      matches.push({
+        rule,
+        subject: `row:${rowId}`,
+        message: `Row ${rowId} (${dept}) ${result} (${marginText}, ${rule.comparator} ${rule.threshold}%)`
+      });
+    }
+  });
+  return matches;
+};
+
+// --- Aggregate rules, checked whenever the totals are recomputed ---
+
+// Consecutive fiscal periods get consecutive indexes
+const periodIndex = (d: Date, calendar: FiscalCalendar) => {
+  const { year, period } = fiscalPeriodOf(d, calendar);
+  return year * 12 + period;
+};
+
+const periodName = (index: number, calendar: FiscalCalendar) =>
+  fiscalPeriodLabel(Math.floor(index / 12) * 100 + (index % 12), calendar);
+
+// Fiscal year and period, e.g. 2025-01
+const periodId = (index: number) => `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+
+export interface AggregateRuleAccumulator {
+  add: (row: DataRow) => void;
+  remove: (row: DataRow) => void;
+  evaluate: (formatMoney: (value: number) => string) => AlertMatch[];
+}
+
+// Compares the last closed fiscal month with the one before it. The running month
+// is still filling up, and rows dated after it are ignored. Totals are kept one
+// row at a time, so evaluating after a change does not go over every row again.
+export const createAggregateRuleAccumulator = (
+  rules: AlertRule[],
+  keys: ColumnKeys,
+  calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR,
+  now: Date = new Date()
+): AggregateRuleAccumulator => {
+  const growthRules = keys.dateKey ? rules.filter(r => r.enabled && r.kind === 'monthly-growth') : [];
+  const latest = periodIndex(now, calendar) - 1;
+  // Per rule: group -> [previous month, latest month] and the rows behind them
+  const totals = growthRules.map(() => new Map<string, { pair: [number, number]; count: number }>());
+
+  const track = (row: DataRow, sign: 1 | -1) => {
+    if (growthRules.length === 0) return;
+    const d = readDate(row, keys.dateKey, calendar.timeZone);
+    if (!d) return;
+    const offset = latest - periodIndex(d, calendar);
+    if (offset < 0 || offset > 1) return;
+    growthRules.forEach((rule, i) => {
+      const group = rule.perDepartment ? readDept(row, keys.deptKey) : 'Total';
+      const slot = totals[i].get(group) ?? { pair: [0, 0], count: 0 };
+      slot.pair[offset === 0 ? 1 : 0] += sign * readMeasure(row, rule.measure, keys);
+      slot.count += sign;
+      if (slot.count > 0) totals[i].set(group, slot);
+      else totals[i].delete(group);
+    });
+  };
+
+  const evaluate = (formatMoney: (value: number) => string): AlertMatch[] => {
+    const matches: AlertMatch[] = [];
+    growthRules.forEach((rule, i) => {
+      totals[i].forEach(({ pair: [previous, current] }, group) => {
+        if (previous <= 0) return;
+        const pct = (current / previous) * 100;
+        if (!passes(pct, rule)) return;
+        matches.push({
+          rule,
+          subject: `${group}:${periodId(latest)}`,
+          message: `${group} ${measureLabel(rule.measure).toLowerCase()} for ${periodName(latest, calendar)}: ${pct.toFixed(0)}% of ${periodName(latest - 1, calendar)} (${formatMoney(current)} vs ${formatMoney(previous)})`
+        });
+      });
+    });
+    return matches;
+  };
+
+  return { add: row => track(row, 1), remove: row => track(row, -1), evaluate };
+};
+
+export const evaluateAggregateRules = (
+  rows: DataRow[],
+  rules: AlertRule[],
+  keys: ColumnKeys,
+  formatMoney: (value: number) => string,
+  calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR,
+  now: Date = new Date()
+): AlertMatch[] => {
+  const accumulator = createAggregateRuleAccumulator(rules, keys, calendar, now);
+  rows.forEach(accumulator.add);
+  return accumulator.evaluate(formatMoney);
+};
+
+// --- Feed ---
+
+// Adds new matches to the front of the feed; a rule fires once per subject
+export const addAlerts = (feed: Alert[], matches: AlertMatch[]): { feed: Alert[]; added: Alert[] } => {
+  const seen = new Set(feed.map(a => `${a.ruleId}|${a.subject}`));
+  const now = new Date().toISOString();
+  const added: Alert[] = [];
+  matches.forEach(m => {
+    const key = `${m.rule.id}|${m.subject}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    added.push({
+      id: `a-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+      ruleId: m.rule.id,
+      ruleName: m.rule.name,
+      message: m.message,
+      subject: m.subject,
+      createdAt: now,
+      acknowledged: false,
+      snoozedUntil: null
+    });
+  });
+  if (added.length === 0) return { feed, added };
+  return { feed: [...[...added].reverse(), ...feed].slice(0, MAX_ALERTS), added };
+};
+
+export const isSnoozed = (alert: Alert, now: Date = new Date()) =>
+  !!alert.snoozedUntil && new Date(alert.snoozedUntil) > now;
+
+// --- Browser notifications ---
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+export const showAlertNotification = (alert: Alert) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  try {
+    new Notification(alert.ruleName, { body: alert.message, tag: `${alert.ruleId}|${alert.subject}` });
+  } catch (e) {
+    console.warn("Could not show notification:", e);
+  }
+};
+
+// --- Persistence ---
+
+const rulesKey = (sourceId: string) => `${STORAGE_PREFIX}:alert-rules:${sourceId}`;
+// Matches describe the rows the user could see, so the feed is kept per user
+const FEED_PREFIX = `${STORAGE_PREFIX}:alerts:`;
+const feedKey = (sourceId: string, userId: string | null) => `${FEED_PREFIX}${sourceId}|${userId ?? 'anon'}`;
+
+export const loadAlertRules = (sourceId: string): AlertRule[] => {
+  try {
+    const raw = localStorage.getItem(rulesKey(sourceId));
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.warn(`Could not read alert rules for ${sourceId}:`, e);
+    return [];
+  }
+};
+
+export const saveAlertRules = (sourceId: string, rules: AlertRule[]) => {
+  try {
+    localStorage.setItem(rulesKey(sourceId), JSON.stringify(rules));
+  } catch (e) {
+    console.warn(`Could not save alert rules for ${sourceId}:`, e);
+  }
+};
+
+export const loadAlertFeed = (sourceId: string, userId: string | null): Alert[] => {
+  try {
+    const raw = localStorage.getItem(feedKey(sourceId, userId));
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.warn(`Could not read alerts for ${sourceId}:`, e);
+    return [];
+  }
+};
+
+export const saveAlertFeed = (sourceId: string, userId: string | null, feed: Alert[]) => {
+  try {
+    localStorage.setItem(feedKey(sourceId, userId), JSON.stringify(feed));
+  } catch (e) {
+    console.warn(`Could not save alerts for ${sourceId}:`, e);
+  }
+};
+
+// Drops the feeds of every table and user, e.g. on sign-out
+export const clearAlertFeeds = () => {
+  try {
+    Object.keys(localStorage).filter(key => key.startsWith(FEED_PREFIX)).forEach(key => localStorage.removeItem(key));
+  } catch (e) {
+    console.warn("Could not clear alerts:", e);
+  }
+};
@@ -0,0 +1,66 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { computeAnalytics } from './analytics';
+import { resolveColumnKeys } from './columnMapping';
+import { parseSpreadsheet } from './dataSources/fileSource';
+import { DEFAULT_FISCAL_CALENDAR } from './fiscalCalendar';
+
+const { rows } = parseSpreadsheet(readFileSync(new URL('../fixtures/orders.csv', import.meta.url)), 'orders.csv');
+const keys = resolveColumnKeys(rows[0], {});
+// End of 30 June 2025: the last fixture row falls on the next day
+const now = new Date(2025, 5, 30, 23, 59, 59, 999);
+
+describe('computeAnalytics', () => {
+  it('detects the fixture columns', () => {
+    expect(keys).toMatchObject({ deptKey: 'department', revKey: 'revenue', expKey: 'expenses', dateKey: 'date', idKey: 'id', profitKey: null });
+  });
+
+  it('totals the rows of the selected range', () => {
+    const result = computeAnalytics(rows, keys, { dateRange: { preset: 'ytd', comparison: 'none' }, now });
+    expect(result.scopeRows.map(row => row.id)).toEqual([2, 3, 4, 5, 6, 7]);
+    expect(result.totals).toEqual({ revenue: 9000, profit: 5500, revenueChange: null, profitChange: null });
+  });
+
+  it('groups the range by fiscal month', () => {
+    const result = computeAnalytics(rows, keys, { dateRange: { preset: 'ytd', comparison: 'none' }, now });
+    expect(result.monthlyChartData.map(({ month, revenue, expenses, profit }) => ({ month, revenue, expenses, profit }))).toEqual([
+      { month: 'Jan 25', revenue: 2500, expenses: 1500, profit: 1000 },
+      { month: 'Feb 25', revenue: 1500, expenses: 500, profit: 1000 },
+      { month: 'Mar 25', revenue: 3800, expenses: 1200, profit: 2600 },
+      { month: 'Jun 25', revenue: 1200, expenses: 300, profit: 900 }
+    ]);
+    // History runs from the first to the last dated month, gaps included
+    expect(result.monthlyHistory).toHaveLength(8);
+  });
+
+  it('summarizes departments and ranks top orders by profit', () => {
+    const result = computeAnalytics(rows, keys, { dateRange: { preset: 'ytd', comparison: 'none' }, now });
+    expect(result.deptChartData.map(({ name, revenue, expenses, profit }) => ({ name, revenue, expenses, profit }))).toEqual([
+      { name: 'Engineering', revenue: 4200, expenses: 1300, profit: 2900 },
+      { name: 'Marketing', revenue: 1300, expenses: 900, profit: 400 },
+      { name: 'Sales', revenue: 3500, expenses: 1300, profit: 2200 }
+    ]);
+    expect(result.deptChartData[1].margin).toBeCloseTo(30.77, 2);
+    expect(result.topOrders.map(row => [row.id, row._derivedProfit])).toEqual([[5, 2000], [2, 1200], [4, 1000], [7, 900], [6, 600], [3, -200]]);
+  });
+
+  it('compares with the prior month', () => {
+    const result = computeAnalytics(rows, keys, { dateRange: { preset: 'mtd', comparison: 'mom' }, now });
+    expect(result.totals.revenue).toBe(1200);
+    // Nothing was booked in May, so there is no change to report
+    expect(result.totals.revenueChange).toBeNull();
+  });
+
+  it('starts the fiscal year in the configured month', () => {
+    const calendar = { ...DEFAULT_FISCAL_CALENDAR, startMonth: 6 };
+    const result = computeAnalytics(rows, keys, { dateRange: { preset: 'ytd', comparison: 'none' }, calendar, now });
+    // FY2025 runs from July 2024, so December 2024 is in range
+    expect(result.totals.revenue).toBe(10000);
+  });
+
+  it('scopes every aggregate to a drilled department', () => {
+    const result = computeAnalytics(rows, keys, { dateRange: { preset: 'all', comparison: 'none' }, drill: { department: 'Sales' }, now });
+    expect(result.totals.revenue).toBe(5400);
+    expect(result.monthlyHistory.reduce((sum, m) => sum + m.revenue, 0)).toBe(5400);
+  });
+});
@@ -0,0 +1,301 @@
+import {
+  BudgetEntry, BudgetVariance, ColumnKeys, ComparisonMode, DataRow, DateRangeFilter, DrillFilter, FiscalCalendar
+} from '../types';
+import { readDate, readDept, readNumber, readProfit } from './columnMapping';
+import {
+  DEFAULT_DATE_RANGE, ResolvedRange, resolveDateRange, comparisonRange, isInRange, shiftMonthKey, percentChange
+} from './dateRange';
+import { DEFAULT_FISCAL_CALENDAR, fiscalPeriodKey, fiscalPeriodLabel, fiscalPeriodRange } from './fiscalCalendar';
+import { computeBudgetVariance } from './budgets';
+
+// Colors for charts; departments take them in alphabetical order
+export const DEPARTMENT_COLORS = ['#6366f1', '#ec4899', '#10b981', '#f59e0b', '#06b6d4', '#8b5cf6', '#a855f7', '#ef4444'];
+
+export interface AnalyticsOptions {
+  dateRange?: DateRangeFilter;
+  drill?: DrillFilter;
+  calendar?: FiscalCalendar;
+  budgetEntries?: BudgetEntry[];
+  // Department the viewer is limited to; budgets are compared for it alone
+  scopedDepartment?: string | null;
+  // Reference time for MTD, QTD and YTD
+  now?: Date;
+}
+
+export interface MonthTotals {
+  month: string;
+  revenue: number;
+  expenses: number;
+  profit: number;
+  // Fiscal year * 100 + period; 0 for undated rows
+  sortKey: number;
+}
+
+export interface MonthPoint extends MonthTotals {
+  // Only present when a comparison is selected
+  priorRevenue?: number | null;
+  priorProfit?: number | null;
+  revenueChange?: number | null;
+  profitChange?: number | null;
+}
+
+export interface DepartmentTotals {
+  name: string;
+  revenue: number;
+  expenses: number;
+  profit: number;
+}
+
+export interface DepartmentStats extends DepartmentTotals {
+  margin: number;
+  revenueChange: number | null;
+  expensesChange: number | null;
+  // Percentage points against the comparison range
+  marginChange: number | null;
+  fill: string;
+}
+
+export interface AnalyticsResult {
+  // Months overlapping the selected range
+  monthlyChartData: MonthPoint[];
+  // Every dated month from first to last, gaps filled with zeros, as input for forecasting
+  monthlyHistory: MonthTotals[];
+  deptChartData: DepartmentStats[];
+  // Top 5 departments by expenses
+  expensesByDept: DepartmentStats[];
+  // Top 10 rows in range by profit
+  topOrders: (DataRow & { _derivedProfit: number })[];
+  // The rows behind the department stats, totals and the in-range months
+  scopeRows: DataRow[];
+  budgetVariance: BudgetVariance[];
+  totals: {
+    revenue: number;
+    profit: number;
+    revenueChange: number | null;
+    profitChange: number | null;
+  };
+  hasComparison: boolean;
+  keys: ColumnKeys;
+}
+
+export const TOP_ORDER_COUNT = 10;
+
+// Adds a row's amounts to a group (sign -1 takes them back out)
+export const addTotals = <K, T extends { revenue: number; expenses: number; profit: number }>(
+  groups: Map<K, T>,
+  key: K,
+  create: () => T,
+  figures: Pick<RowFigures, 'revenue' | 'expenses' | 'profit'>,
+  sign: 1 | -1
+): T => {
+  let group = groups.get(key);
+  if (!group) {
+    group = create();
+    groups.set(key, group);
+  }
+  group.revenue += sign * figures.revenue;
+  group.expenses += sign * figures.expenses;
+  group.profit += sign * figures.profit;
+  return group;
+};
+
+// Whether the fiscal month of a sort key intersects a range
+const monthOverlaps = (sortKey: number, range: ResolvedRange, calendar: FiscalCalendar) => {
+  const month = fiscalPeriodRange(sortKey, calendar);
+  return month.start < range.end && month.end > range.start;
+};
+
+// Narrows the selected date range to a drilled-into month
+const intersectRange = (range: ResolvedRange | null, month: ResolvedRange): ResolvedRange => {
+  if (!range) return month;
+  return {
+    start: range.start > month.start ? range.start : month.start,
+    end: range.end < month.end ? range.end : month.end
+  };
+};
+
+export interface AnalyticsRanges {
+  // Selected range narrowed to a drilled-into month; null means all time
+  range: ResolvedRange | null;
+  priorRange: ResolvedRange | null;
+}
+
+export const resolveAnalyticsRanges = (
+  dateRange: DateRangeFilter,
+  drill: DrillFilter,
+  calendar: FiscalCalendar,
+  now: Date
+): AnalyticsRanges => {
+  const selectedRange = resolveDateRange(dateRange, now, calendar);
+  const range = drill.month !== undefined ? intersectRange(selectedRange, fiscalPeriodRange(drill.month, calendar)) : selectedRange;
+  return { range, priorRange: comparisonRange(range, dateRange.comparison, calendar) };
+};
+
+// What one row adds to the aggregates
+export interface RowFigures {
+  dept: string;
+  revenue: number;
+  expenses: number;
+  profit: number;
+  date: Date | null;
+  // Fiscal month sort key; 0 for undated rows
+  sortKey: number;
+}
+
+export const readRowFigures = (row: DataRow, keys: ColumnKeys, calendar: FiscalCalendar): RowFigures => {
+  const date = readDate(row, keys.dateKey, calendar.timeZone);
+  return {
+    dept: readDept(row, keys.deptKey),
+    revenue: readNumber(row, keys.revKey),
+    expenses: readNumber(row, keys.expKey),
+    // Derive profit if column doesn't exist
+    profit: readProfit(row, keys),
+    date,
+    sortKey: date ? fiscalPeriodKey(date, calendar) : 0
+  };
+};
+
+export const monthLabelFor = (sortKey: number, calendar: FiscalCalendar) =>
+  sortKey === 0 ? 'Unknown' : fiscalPeriodLabel(sortKey, calendar);
+
+// Chart series from per-month totals: the months overlapping the range, with
+// comparison fields, and the gap-filled history used for forecasting
+export const summarizeMonths = (
+  monthlyData: Map<number, MonthTotals>,
+  range: ResolvedRange | null,
+  comparison: ComparisonMode,
+  calendar: FiscalCalendar
+): { monthlyChartData: MonthPoint[]; monthlyHistory: MonthTotals[] } => {
+  // Sort chronologically, keeping the months that overlap the selected range
+  const monthStep = comparison === 'yoy' ? -12 : -1;
+  const monthlyChartData: MonthPoint[] = [...monthlyData.values()]
+    .filter(m => !range || (m.sortKey > 0 && monthOverlaps(m.sortKey, range, calendar)))
+    .sort((a, b) => a.sortKey - b.sortKey)
+    .map(m => {
+      if (comparison === 'none') return m;
+      const prior = monthlyData.get(shiftMonthKey(m.sortKey, monthStep));
+      return {
+        ...m,
+        priorRevenue: prior ? prior.revenue : null,
+        priorProfit: prior ? prior.profit : null,
+        revenueChange: percentChange(m.revenue, prior?.revenue),
+        profitChange: percentChange(m.profit, prior?.profit)
+      };
+    });
+
+  const datedKeys = [...monthlyData.keys()].filter(k => k > 0).sort((a, b) => a - b);
+  const monthlyHistory: MonthTotals[] = [];
+  for (let key = datedKeys[0]; datedKeys.length > 0 && key <= datedKeys[datedKeys.length - 1]; key = shiftMonthKey(key, 1)) {
+    monthlyHistory.push(monthlyData.get(key) ?? { month: fiscalPeriodLabel(key, calendar), revenue: 0, expenses: 0, profit: 0, sortKey: key });
+  }
+  return { monthlyChartData, monthlyHistory };
+};
+
+// Margins, changes and colors per department; priorStats is null without a comparison
+export const summarizeDepartments = (
+  stats: Map<string, DepartmentTotals>,
+  priorStats: Map<string, DepartmentTotals> | null
+): { deptChartData: DepartmentStats[]; expensesByDept: DepartmentStats[] } => {
+  // Assign stable colors to departments based on alphabetical order
+  // This ensures that "Marketing" has the same color across all charts
+  const deptChartData: DepartmentStats[] = [...stats.values()]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((d, index) => {
+      const margin = d.revenue > 0 ? (d.profit / d.revenue) * 100 : 0;
+      const prior = priorStats ? priorStats.get(d.name) : undefined;
+      const priorMargin = prior && prior.revenue > 0 ? (prior.profit / prior.revenue) * 100 : null;
+      return {
+        name: d.name,
+        revenue: d.revenue,
+        expenses: d.expenses,
+        profit: d.profit,
+        margin,
+        revenueChange: percentChange(d.revenue, prior?.revenue),
+        expensesChange: percentChange(d.expenses, prior?.expenses),
+        marginChange: priorMargin !== null ? margin - priorMargin : null,
+        fill: DEPARTMENT_COLORS[index % DEPARTMENT_COLORS.length] // Stable color assignment
+      };
+    });
+
+  // Top 5 Expenses
+  // We sort by expenses, but the 'fill' property remains attached to the department
+  const expensesByDept = [...deptChartData].sort((a, b) => b.expenses - a.expenses).slice(0, 5);
+  return { deptChartData, expensesByDept };
+};
+
+export const summarizeTotals = (
+  totals: { revenue: number; profit: number },
+  priorTotals: { revenue: number; profit: number } | null
+): AnalyticsResult['totals'] => ({
+  revenue: totals.revenue,
+  profit: totals.profit,
+  revenueChange: priorTotals ? percentChange(totals.revenue, priorTotals.revenue) : null,
+  profitChange: priorTotals ? percentChange(totals.profit, priorTotals.profit) : null
+});
+
+// Monthly totals, department stats, margins and top orders for a set of rows.
+// Pure: the same rows and options always give the same result.
+export const computeAnalytics = (rows: DataRow[], keys: ColumnKeys, options: AnalyticsOptions = {}): AnalyticsResult => {
+  const {
+    dateRange = DEFAULT_DATE_RANGE,
+    drill = {},
+    calendar = DEFAULT_FISCAL_CALENDAR,
+    budgetEntries = [],
+    scopedDepartment = null,
+    now = new Date()
+  } = options;
+  const { range, priorRange } = resolveAnalyticsRanges(dateRange, drill, calendar, now);
+
+  // 1. Monthly Revenue & Profit, by fiscal month
+  // Months cover every row so that prior months are available for comparison.
+  const monthlyData = new Map<number, MonthTotals>();
+
+  // 2. Department aggregation, for the selected range and the comparison range
+  const deptStats = new Map<string, DepartmentTotals>();
+  const priorDeptStats = new Map<string, DepartmentTotals>();
+  const rangeRows: DataRow[] = [];
+  const totals = { revenue: 0, profit: 0 };
+  const priorTotals = { revenue: 0, profit: 0 };
+
+  rows.forEach(row => {
+    const f = readRowFigures(row, keys, calendar);
+    // Department drill-down scopes every aggregate, monthly series included
+    if (drill.department !== undefined && f.dept !== drill.department) return;
+
+    addTotals(monthlyData, f.sortKey, () => ({ month: monthLabelFor(f.sortKey, calendar), revenue: 0, expenses: 0, profit: 0, sortKey: f.sortKey }), f, 1);
+
+    // Department
+    if (isInRange(f.date, range)) {
+      rangeRows.push(row);
+      addTotals(deptStats, f.dept, () => ({ name: f.dept, revenue: 0, expenses: 0, profit: 0 }), f, 1);
+      totals.revenue += f.revenue;
+      totals.profit += f.profit;
+    }
+    // Ranges can overlap (e.g. trailing 12 months vs prior month), so this is not an else
+    if (priorRange && isInRange(f.date, priorRange)) {
+      addTotals(priorDeptStats, f.dept, () => ({ name: f.dept, revenue: 0, expenses: 0, profit: 0 }), f, 1);
+      priorTotals.revenue += f.revenue;
+      priorTotals.profit += f.profit;
+    }
+  });
+
+  const { deptChartData, expensesByDept } = summarizeDepartments(deptStats, priorRange ? priorDeptStats : null);
+
+  // Top 10 Profitable Orders
+  const topOrders = rangeRows
+    .map(row => ({ ...row, _derivedProfit: readProfit(row, keys) }))
+    .sort((a, b) => b._derivedProfit - a._derivedProfit)
+    .slice(0, TOP_ORDER_COUNT);
+
+  return {
+    ...summarizeMonths(monthlyData, range, dateRange.comparison, calendar),
+    deptChartData,
+    expensesByDept,
+    topOrders,
+    scopeRows: rangeRows,
+    budgetVariance: computeBudgetVariance(budgetEntries, deptChartData, range, drill.department ?? scopedDepartment ?? undefined),
+    totals: summarizeTotals(totals, priorRange ? priorTotals : null),
+    hasComparison: dateRange.comparison !== 'none',
+    keys
+  };
+};
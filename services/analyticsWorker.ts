@@ -0,0 +1,58 @@
+// Web Worker keeping the dashboard's aggregates up to date off the main thread.
+// Loaded by analyticsWorkerClient; see incrementalAnalytics for the accumulators.
+import {
+  AnalyticsAccumulator, AnalyticsSnapshot, AnalyticsWorkerRequest, AnalyticsWorkerResponse, createAnalyticsAccumulator, diffSnapshot
+} from './incrementalAnalytics';
+
+// Bursts of realtime changes are folded into one snapshot
+const SNAPSHOT_DELAY_MS = 100;
+
+// The project's lib settings target the DOM, so the worker scope is typed by hand
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<AnalyticsWorkerRequest>) => void) | null;
+  postMessage: (message: AnalyticsWorkerResponse) => void;
+};
+
+let accumulator: AnalyticsAccumulator | null = null;
+let generation = 0;
+let pending: ReturnType<typeof setTimeout> | null = null;
+// Last snapshot posted for this generation; later posts leave out what it already holds
+let posted: AnalyticsSnapshot | null = null;
+
+const post = () => {
+  pending = null;
+  if (!accumulator) return;
+  try {
+    const snapshot = accumulator.snapshot();
+    scope.postMessage({ type: 'snapshot', generation, snapshot: diffSnapshot(snapshot, posted) });
+    posted = snapshot;
+  } catch (err: any) {
+    scope.postMessage({ type: 'error', generation, message: err.message || 'Failed to summarize rows' });
+  }
+};
+
+scope.onmessage = (event) => {
+  const request = event.data;
+  try {
+    if (request.type === 'reset') {
+      generation = request.generation;
+      posted = null;
+      accumulator = createAnalyticsAccumulator({ ...request.config, now: new Date(request.config.now) });
+      accumulator.reset(request.rows);
+      if (pending) clearTimeout(pending);
+      post();
+      return;
+    }
+    // Changes queued for an earlier dataset were already folded into its replacement
+    if (request.generation !== generation || !accumulator) return;
+    if (!request.changes.every(change => accumulator!.apply(change))) {
+      // The totals no longer match the rows; wait for them to be sent again
+      accumulator = null;
+      scope.postMessage({ type: 'stale', generation });
+      return;
+    }
+    if (!pending) pending = setTimeout(post, SNAPSHOT_DELAY_MS);
+  } catch (err: any) {
+    scope.postMessage({ type: 'error', generation: request.generation, message: err.message || 'Failed to aggregate rows' });
+  }
+};
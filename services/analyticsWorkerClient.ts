@@ -0,0 +1,108 @@
+import { DataRow, RowChange } from '../types';
+import {
+  AccumulatorConfig, AnalyticsAccumulator, AnalyticsSnapshot, AnalyticsWorkerRequest, AnalyticsWorkerResponse,
+  createAnalyticsAccumulator, mergeSnapshot
+} from './incrementalAnalytics';
+
+export interface AnalyticsEngine {
+  // Replaces the rows and settings; snapshots of the previous dataset are dropped
+  reset: (config: AccumulatorConfig, rows: DataRow[]) => void;
+  // Realtime changes to the rows last passed to reset
+  apply: (changes: RowChange[]) => void;
+  dispose: () => void;
+}
+
+// Runs the accumulators in a Web Worker, or on the main thread where workers
+// are unavailable. Snapshots always arrive asynchronously, with the settings
+// they were computed for. onStale asks for a reset with the current rows when
+// a change could not be matched to a row.
+export const createAnalyticsEngine = (
+  onSnapshot: (snapshot: AnalyticsSnapshot, config: AccumulatorConfig) => void,
+  onError: (message: string) => void,
+  onStale: () => void
+): AnalyticsEngine => {
+  let generation = 0;
+  let config: AccumulatorConfig | null = null;
+
+  let worker: Worker | null = null;
+  try {
+    if (typeof Worker !== 'undefined') {
+      worker = new Worker(new URL('./analyticsWorker.ts', import.meta.url), { type: 'module' });
+    }
+  } catch (e) {
+    console.warn("Analytics worker unavailable, aggregating on the main thread:", e);
+  }
+
+  if (worker) {
+    const send = (request: AnalyticsWorkerRequest) => worker!.postMessage(request);
+    // The worker only sends the parts that changed since its previous snapshot
+    let latest: AnalyticsSnapshot | null = null;
+    worker.onmessage = (event: MessageEvent<AnalyticsWorkerResponse>) => {
+      const response = event.data;
+      // Answers for a dataset that has since been replaced
+      if (response.generation !== generation) return;
+      if (response.type === 'snapshot') {
+        latest = mergeSnapshot(latest, response.snapshot);
+        if (latest) onSnapshot(latest, config!);
+      } else if (response.type === 'stale') onStale();
+      else onError(response.message);
+    };
+    worker.onerror = (event) => {
+      console.warn("Analytics worker error:", event);
+      onError(event.message || 'Analytics worker failed');
+    };
+    return {
+      reset: (next, rows) => {
+        config = next;
+        latest = null;
+        send({ type: 'reset', generation: ++generation, config: next, rows });
+      },
+      apply: (changes) => send({ type: 'changes', generation, changes }),
+      dispose: () => worker!.terminate()
+    };
+  }
+
+  let accumulator: AnalyticsAccumulator | null = null;
+  let pending: ReturnType<typeof setTimeout> | null = null;
+  const schedule = () => {
+    if (pending) return;
+    const current = generation;
+    pending = setTimeout(() => {
+      pending = null;
+      if (!accumulator || current !== generation) return;
+      try {
+        onSnapshot(accumulator.snapshot(), config!);
+      } catch (err: any) {
+        onError(err.message || 'Failed to summarize rows');
+      }
+    }, 0);
+  };
+  const guard = (run: () => void) => {
+    try {
+      run();
+      schedule();
+    } catch (err: any) {
+      onError(err.message || 'Failed to aggregate rows');
+    }
+  };
+  return {
+    reset: (next, rows) => guard(() => {
+      generation++;
+      if (pending) clearTimeout(pending);
+      pending = null;
+      config = next;
+      accumulator = createAnalyticsAccumulator(next);
+      accumulator.reset(rows);
+    }),
+    apply: (changes) => guard(() => {
+      if (!accumulator || changes.every(change => accumulator!.apply(change))) return;
+      accumulator = null;
+      const current = generation;
+      setTimeout(() => { if (current === generation) onStale(); }, 0);
+    }),
+    dispose: () => {
+      if (pending) clearTimeout(pending);
+      accumulator = null;
+    }
+  };
+};
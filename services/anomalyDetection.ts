@@ -0,0 +1,169 @@
+import { Anomaly, AnomalyRule, ColumnKeys, DataRow } from '../types';
+import { readNumber, readProfit, readDept } from './columnMapping';
+import { parseDay } from './dateRange';
+
+export const ANOMALY_RULES: Record<AnomalyRule, string> = {
+  'zscore': 'Z-score outlier',
+  'iqr': 'IQR outlier',
+  'negative-margin': 'Negative margin',
+  'duplicate-id': 'Duplicate order ID',
+  'weekend': 'Weekend posting',
+  'after-hours': 'After-hours posting',
+};
+
+// |z| above this is flagged
+const Z_THRESHOLD = 3;
+// Tukey's "far out" fences: Q1 - 3*IQR and Q3 + 3*IQR
+const IQR_MULTIPLIER = 3;
+// Fewer rows than this in a department gives no meaningful distribution
+const MIN_GROUP_SIZE = 5;
+// Business hours in local time, [start, end)
+const BUSINESS_HOURS = { start: 7, end: 19 };
+
+const quantile = (sorted: number[], q: number) => {
+  const pos = (sorted.length - 1) * q;
+  const base = Math.floor(pos);
+  const rest = pos - base;
+  return sorted[base + 1] !== undefined ? sorted[base] + rest * (sorted[base + 1] - sorted[base]) : sorted[base];
+};
+
+const defaultFormat = (n: number) => n.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const isDateOnly = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.trim());
+
+// Date-only values carry no time of day, so they never count as after-hours
+const hasTime = (value: unknown) => typeof value === 'string' && !isDateOnly(value);
+
+interface DetectOptions {
+  keys: ColumnKeys;
+  primaryKey: string | null;
+  // Formats amounts in reasons, e.g. in the reporting currency
+  formatAmount?: (value: number) => string;
+}
+
+export interface AnomalyItem {
+  row: DataRow;
+  // Position among the rows checked; names rows without a primary key
+  index: number;
+}
+
+// Each rule over just the rows it compares, so a caller keeping rows up to date
+// can rerun only the checks a change touched
+export const createAnomalyChecks = ({ keys, primaryKey, formatAmount }: DetectOptions) => {
+  const money = formatAmount ?? defaultFormat;
+  const rowId = ({ row, index }: AnomalyItem) =>
+    primaryKey && row[primaryKey] !== undefined && row[primaryKey] !== null ? String(row[primaryKey]) : `#${index + 1}`;
+  const label = (item: AnomalyItem) =>
+    keys.idKey && item.row[keys.idKey] !== undefined ? `Order ${item.row[keys.idKey]}` : `Row ${rowId(item)}`;
+  const flag = (rule: AnomalyRule, severity: Anomaly['severity'], reason: string, items: AnomalyItem[]): Anomaly =>
+    ({ rule, severity, reason, rowIds: items.map(rowId), rows: items.map(i => i.row) });
+
+  const measures = [
+    { key: keys.revKey, name: 'revenue' },
+    { key: keys.expKey, name: 'expenses' },
+  ].filter(m => m.key);
+  // Skipped when the order ID is the primary key, which is unique
+  const checksOrderIds = !!keys.idKey && keys.idKey !== primaryKey;
+
+  return {
+    // 1. Amount outliers within one department (z-score and IQR), on each amount column
+    outliers: (dept: string, items: AnomalyItem[]): Anomaly[] => {
+      const anomalies: Anomaly[] = [];
+      if (items.length < MIN_GROUP_SIZE) return anomalies;
+      measures.forEach(measure => {
+        const values = items.map(i => readNumber(i.row, measure.key));
+        const mean = values.reduce((a, b) => a + b, 0) / values.length;
+        const std = Math.sqrt(values.reduce((a, v) => a + (v - mean) ** 2, 0) / values.length);
+        const sorted = [...values].sort((a, b) => a - b);
+        const q1 = quantile(sorted, 0.25);
+        const q3 = quantile(sorted, 0.75);
+        const iqr = q3 - q1;
+        const low = q1 - IQR_MULTIPLIER * iqr;
+        const high = q3 + IQR_MULTIPLIER * iqr;
+
+        items.forEach((item, i) => {
+          const value = values[i];
+          const z = std > 0 ? (value - mean) / std : 0;
+          if (Math.abs(z) > Z_THRESHOLD) {
+            anomalies.push(flag('zscore', 'high',
+              `${label(item)}: ${measure.name} ${money(value)} is ${z.toFixed(1)}σ from the ${dept} mean of ${money(mean)}`,
+              [item]));
+          } else if (iqr > 0 && (value < low || value > high)) {
+            anomalies.push(flag('iqr', 'medium',
+              `${label(item)}: ${measure.name} ${money(value)} is outside the ${dept} range ${money(low)} – ${money(high)}`,
+              [item]));
+          }
+        });
+      });
+      return anomalies;
+    },
+
+    // 2. Negative margin of one row
+    negativeMargin: (item: AnomalyItem): Anomaly | null => {
+      if (!keys.revKey && !keys.profitKey) return null;
+      const profit = readProfit(item.row, keys);
+      if (profit >= 0) return null;
+      const revenue = readNumber(item.row, keys.revKey);
+      const margin = revenue > 0 ? ` (${((profit / revenue) * 100).toFixed(1)}% margin)` : '';
+      return flag('negative-margin', 'medium', `${label(item)}: profit ${money(profit)}${margin}`, [item]);
+    },
+
+    // The order ID duplicates are grouped by; null when IDs are not checked or missing
+    orderId: (row: DataRow): string | null => {
+      if (!checksOrderIds) return null;
+      const value = row[keys.idKey as string];
+      return value === null || value === undefined || value === '' ? null : String(value);
+    },
+
+    // 3. Rows sharing one order ID
+    duplicates: (value: string, items: AnomalyItem[]): Anomaly | null =>
+      items.length > 1 ? flag('duplicate-id', 'high', `Order ID ${value} appears ${items.length} times`, items) : null,
+
+    // 4. A posting on a weekend or outside business hours
+    postingTime: (item: AnomalyItem): Anomaly | null => {
+      if (!keys.dateKey) return null;
+      const raw = item.row[keys.dateKey];
+      if (raw === null || raw === undefined || raw === '') return null;
+      // A bare day is a calendar date; new Date() would read it as UTC midnight,
+      // which is the previous day west of UTC
+      const d = isDateOnly(raw) ? parseDay(String(raw).trim()) : new Date(raw);
+      if (!d || isNaN(d.getTime())) return null;
+      const day = d.getDay();
+      if (day === 0 || day === 6) {
+        return flag('weekend', 'low', `${label(item)}: posted on ${d.toLocaleDateString(undefined, { weekday: 'long' })} ${d.toLocaleDateString()}`, [item]);
+      }
+      if (hasTime(raw) && (d.getHours() < BUSINESS_HOURS.start || d.getHours() >= BUSINESS_HOURS.end)) {
+        return flag('after-hours', 'low', `${label(item)}: posted at ${d.toLocaleTimeString()}`, [item]);
+      }
+      return null;
+    }
+  };
+};
+
+const isFlagged = (anomaly: Anomaly | null): anomaly is Anomaly => anomaly !== null;
+
+// Runs every rule over the rows. Results are deterministic for the same input.
+export const detectAnomalies = (rows: DataRow[], options: DetectOptions): Anomaly[] => {
+  const checks = createAnomalyChecks(options);
+  const items = rows.map((row, index) => ({ row, index }));
+
+  const byDept = new Map<string, AnomalyItem[]>();
+  const byOrderId = new Map<string, AnomalyItem[]>();
+  const group = (groups: Map<string, AnomalyItem[]>, key: string, item: AnomalyItem) => {
+    const members = groups.get(key);
+    if (members) members.push(item);
+    else groups.set(key, [item]);
+  };
+  items.forEach(item => {
+    group(byDept, readDept(item.row, options.keys.deptKey), item);
+    const orderId = checks.orderId(item.row);
+    if (orderId !== null) group(byOrderId, orderId, item);
+  });
+
+  return [
+    ...[...byDept].flatMap(([dept, members]) => checks.outliers(dept, members)),
+    ...items.map(checks.negativeMargin).filter(isFlagged),
+    ...[...byOrderId].map(([value, members]) => checks.duplicates(value, members)).filter(isFlagged),
+    ...items.map(checks.postingTime).filter(isFlagged)
+  ];
+};
@@ -0,0 +1,50 @@
+import { Session, SupabaseClient } from '@supabase/supabase-js';
+import { UserAccess, UserRole } from '../types';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  controller: 'Controller',
+  department_head: 'Department head',
+};
+
+/**
+ * Reads the role from app_metadata, which only the service role can write
+ * (user_metadata is editable by the user and is ignored). Expected claims:
+ * { "role": "controller" } or { "role": "department_head", "department": "Marketing" }.
+ * Anything else is refused rather than widened to a controller. The dashboard
+ * requests only the department's rows, but row-level security on the tables
+ * must enforce the same rule: the anon key can query them directly.
+ */
+export const resolveUserAccess = (session: Session): UserAccess => {
+  const claims = session.user.app_metadata ?? {};
+  const base = { userId: session.user.id, email: session.user.email ?? session.user.id };
+  if (claims.role === 'controller') return { ...base, role: 'controller', department: null };
+
+  if (claims.role === 'department_head' || claims.role === 'dept_head') {
+    const department = typeof claims.department === 'string' ? claims.department.trim() : '';
+    if (!department) {
+      throw new Error('Your account is set up as a department head without a department. Ask an administrator to set "department" in your app metadata.');
+    }
+    return { ...base, role: 'department_head', department };
+  }
+
+  throw new Error('Your account has no dashboard role. Ask an administrator to set "role" to "controller" or "department_head" in your app metadata.');
+};
+
+export const signInWithPassword = async (client: SupabaseClient<any, any, any>, email: string, password: string) => {
+  const { error } = await client.auth.signInWithPassword({ email, password });
+  if (error) throw new Error(error.message);
+};
+
+// Sends a one-time sign-in link that returns to this page
+export const sendMagicLink = async (client: SupabaseClient<any, any, any>, email: string) => {
+  const { error } = await client.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: window.location.origin + window.location.pathname, shouldCreateUser: false }
+  });
+  if (error) throw new Error(error.message);
+};
+
+export const signOut = async (client: SupabaseClient<any, any, any>) => {
+  const { error } = await client.auth.signOut();
+  if (error) throw new Error(error.message);
+};
@@ -0,0 +1,148 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BudgetConfig, BudgetEntry, BudgetVariance, DataRow } from '../types';
+import { STORAGE_PREFIX } from '../constants';
+import { fetchTableRows } from './supabaseClient';
+import { findKey } from './columnMapping';
+import { ResolvedRange } from './dateRange';
+
+export const EMPTY_BUDGET_CONFIG: BudgetConfig = { mode: 'manual', entries: [] };
+
+// --- Persistence ---
+
+const storageKey = (sourceId: string) => `${STORAGE_PREFIX}:budgets:${sourceId}`;
+
+export const loadBudgetConfig = (sourceId: string): BudgetConfig => {
+  try {
+    const raw = localStorage.getItem(storageKey(sourceId));
+    return raw ? { ...EMPTY_BUDGET_CONFIG, ...JSON.parse(raw) } : EMPTY_BUDGET_CONFIG;
+  } catch (e) {
+    console.warn(`Could not read budgets for ${sourceId}:`, e);
+    return EMPTY_BUDGET_CONFIG;
+  }
+};
+
+export const saveBudgetConfig = (sourceId: string, config: BudgetConfig) => {
+  try {
+    localStorage.setItem(storageKey(sourceId), JSON.stringify(config));
+  } catch (e) {
+    console.warn(`Could not save budgets for ${sourceId}:`, e);
+  }
+};
+
+// --- Budget table ---
+
+// Accepts "2024-03", "2024-03-01", ISO timestamps or anything Date can parse
+export const normalizeMonth = (value: unknown): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const text = String(value);
+  const match = /^(\d{4})-(\d{1,2})/.exec(text);
+  if (match) return `${match[1]}-${match[2].padStart(2, '0')}`;
+  const d = new Date(text);
+  if (isNaN(d.getTime())) return null;
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const toAmount = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return isNaN(n) ? null : n;
+};
+
+// Bookkeeping timestamps; "date" would otherwise find updated_at in a table without a month column
+const AUDIT_COLUMN = /^(created|updated|modified|inserted|deleted)_?at$/i;
+
+// Reads budgets from a table with department, month and revenue/expense budget columns
+export const fetchBudgetTable = async (client: SupabaseClient<any, any, any>, tableName: string): Promise<BudgetEntry[]> => {
+  let rows: DataRow[];
+  try {
+    rows = await fetchTableRows(client, tableName);
+  } catch (e: any) {
+    throw new Error(`Could not load budget table "${tableName}": ${e.message}`);
+  }
+  if (rows.length === 0) return [];
+
+  const sample = rows[0];
+  const periodColumns: DataRow = {};
+  Object.keys(sample).filter(k => !AUDIT_COLUMN.test(k)).forEach(k => { periodColumns[k] = sample[k]; });
+  const deptKey = findKey(sample, ['department', 'dept', 'category']);
+  const monthKey = findKey(periodColumns, ['month', 'period', 'date']);
+  const revKey = findKey(sample, ['revenue', 'sales', 'income']);
+  const expKey = findKey(sample, ['expense', 'cost', 'spend']);
+  if (!deptKey || !monthKey) {
+    throw new Error(`Budget table "${tableName}" needs a department and a month column.`);
+  }
+
+  return rows
+    .map((row: DataRow) => ({
+      department: String(row[deptKey] ?? '').trim(),
+      month: normalizeMonth(row[monthKey]) ?? '',
+      revenue: revKey ? toAmount(row[revKey]) : null,
+      expenses: expKey ? toAmount(row[expKey]) : null
+    }))
+    .filter(entry => entry.department && entry.month);
+};
+
+// --- Variance ---
+
+const monthStart = (month: string) => {
+  const [y, m] = month.split('-').map(Number);
+  return new Date(y, m - 1, 1);
+};
+
+const inRange = (month: string, range: ResolvedRange | null) => {
+  if (!range) return true;
+  const start = monthStart(month);
+  const end = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+  return start < range.end && end > range.start;
+};
+
+const sumOrNull = (values: (number | null)[]) => {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length > 0 ? present.reduce((a, b) => a + b, 0) : null;
+};
+
+// Variance per department for budget months that overlap the range.
+// Revenue variance is actual - budget (positive is good); expense variance is
+// also actual - budget, so a positive value is overspend.
+export const computeBudgetVariance = (
+  entries: BudgetEntry[],
+  actuals: { name: string; revenue: number; expenses: number }[],
+  range: ResolvedRange | null,
+  department?: string
+): BudgetVariance[] => {
+  const norm = (name: string) => name.trim().toLowerCase();
+  const relevant = entries.filter(e =>
+    inRange(e.month, range) && (department === undefined || norm(e.department) === norm(department))
+  );
+  if (relevant.length === 0) return [];
+
+  const names = new Map<string, string>();
+  relevant.forEach(e => names.set(norm(e.department), e.department));
+  actuals.forEach(a => names.set(norm(a.name), a.name));
+
+  return Array.from(names.entries())
+    .map(([key, name]) => {
+      const budgets = relevant.filter(e => norm(e.department) === key);
+      const actual = actuals.find(a => norm(a.name) === key);
+      const revenueBudget = sumOrNull(budgets.map(b => b.revenue));
+      const expensesBudget = sumOrNull(budgets.map(b => b.expenses));
+      const revenueActual = actual?.revenue ?? 0;
+      const expensesActual = actual?.expenses ?? 0;
+      const variance = (actualValue: number, budget: number | null) => budget === null ? null : actualValue - budget;
+      const pct = (actualValue: number, budget: number | null) => budget ? ((actualValue - budget) / Math.abs(budget)) * 100 : null;
+
+      return {
+        department: name,
+        revenueBudget,
+        revenueActual,
+        revenueVariance: variance(revenueActual, revenueBudget),
+        revenueVariancePct: pct(revenueActual, revenueBudget),
+        expensesBudget,
+        expensesActual,
+        expensesVariance: variance(expensesActual, expensesBudget),
+        expensesVariancePct: pct(expensesActual, expensesBudget)
+      };
+    })
+    .filter(v => v.revenueBudget !== null || v.expensesBudget !== null)
+    .sort((a, b) => a.department.localeCompare(b.department));
+};
@@ -0,0 +1,144 @@
+import { ColumnKeys, ColumnMapping, ColumnRole, DataRow } from '../types';
+import { STORAGE_PREFIX } from '../constants';
+import { zonedDayStart } from './fiscalCalendar';
+
+export type ColumnKind = 'text' | 'numeric' | 'date';
+
+export interface ColumnRoleDef {
+  role: ColumnRole;
+  label: string;
+  key: keyof ColumnKeys;
+  kind: ColumnKind;
+  candidates: string[];
+}
+
+// Roles in display order, with the name fragments used to guess each column
+export const COLUMN_ROLES: ColumnRoleDef[] = [
+  { role: 'department', label: 'Department', key: 'deptKey', kind: 'text', candidates: ['department', 'category', 'dept', 'group'] },
+  { role: 'revenue', label: 'Revenue', key: 'revKey', kind: 'numeric', candidates: ['revenue', 'sales', 'amount', 'total', 'price'] },
+  { role: 'expenses', label: 'Expenses', key: 'expKey', kind: 'numeric', candidates: ['expense', 'cost', 'spending'] },
+  { role: 'profit', label: 'Profit', key: 'profitKey', kind: 'numeric', candidates: ['profit', 'net', 'margin'] },
+  { role: 'date', label: 'Date', key: 'dateKey', kind: 'date', candidates: ['created_at', 'date', 'time'] },
+  { role: 'id', label: 'Order ID', key: 'idKey', kind: 'text', candidates: ['id', 'order', 'name'] },
+  { role: 'currency', label: 'Currency', key: 'currencyKey', kind: 'text', candidates: ['currency', 'ccy'] },
+];
+
+// Fuzzy match column names. Exact names win over substrings so that
+// "id" does not resolve to "department_id" when an "id" column exists.
+export const findKey = (row: DataRow, candidates: string[]): string | undefined => {
+  const keys = Object.keys(row);
+  for (const c of candidates) {
+    const exact = keys.find(k => k.toLowerCase() === c);
+    if (exact) return exact;
+  }
+  for (const c of candidates) {
+    const partial = keys.find(k => k.toLowerCase().includes(c));
+    if (partial) return partial;
+  }
+  return undefined;
+};
+
+export const detectColumnKeys = (sample: DataRow): ColumnKeys => {
+  const keys = {} as ColumnKeys;
+  COLUMN_ROLES.forEach(def => {
+    keys[def.key] = findKey(sample, def.candidates) ?? null;
+  });
+  return keys;
+};
+
+// Detected keys with the saved overrides applied on top
+export const resolveColumnKeys = (sample: DataRow, mapping: ColumnMapping): ColumnKeys => {
+  const keys = detectColumnKeys(sample);
+  COLUMN_ROLES.forEach(def => {
+    const override = mapping[def.role];
+    if (override === null) keys[def.key] = null;
+    else if (override !== undefined && override in sample) keys[def.key] = override;
+  });
+  return keys;
+};
+
+// --- Value readers ---
+
+export const readNumber = (row: DataRow, key: string | null): number => {
+  if (!key) return 0;
+  return Number(row[key]) || 0;
+};
+
+// Profit from its own column, derived as revenue - expenses if there is none
+export const readProfit = (row: DataRow, keys: ColumnKeys): number => {
+  if (keys.profitKey && row[keys.profitKey] !== undefined && row[keys.profitKey] !== null) {
+    return Number(row[keys.profitKey]) || 0;
+  }
+  return readNumber(row, keys.revKey) - readNumber(row, keys.expKey);
+};
+
+export const readDept = (row: DataRow, key: string | null): string =>
+  String((key && row[key]) || 'Unassigned');
+
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// A date-only value ("2025-07-01") is a calendar day: it starts at midnight in the
+// reporting time zone (local time when there is none). new Date() would read it as
+// UTC midnight, the previous day anywhere west of UTC. Values with a time are instants.
+export const readDate = (row: DataRow, key: string | null, timeZone: string | null = null): Date | null => {
+  if (!key || row[key] === null || row[key] === undefined || row[key] === '') return null;
+  const dateOnly = typeof row[key] === 'string' ? DATE_ONLY.exec(row[key].trim()) : null;
+  const d = dateOnly
+    ? zonedDayStart(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]), timeZone)
+    : new Date(row[key]);
+  return isNaN(d.getTime()) ? null : d;
+};
+
+// --- Type checks ---
+
+export interface ColumnCheck {
+  ok: boolean;
+  message: string;
+}
+
+const SAMPLE_SIZE = 200;
+
+// Checks that the non-empty values of a column fit the kind a role expects
+export const checkColumnType = (data: DataRow[], column: string, kind: ColumnKind): ColumnCheck => {
+  const values = data
+    .slice(0, SAMPLE_SIZE)
+    .map(row => row[column])
+    .filter(v => v !== null && v !== undefined && v !== '');
+
+  if (values.length === 0) return { ok: false, message: 'No values in sample' };
+  if (kind === 'text') return { ok: true, message: 'Text' };
+
+  const isValid = kind === 'numeric'
+    ? (v: any) => typeof v !== 'boolean' && !isNaN(Number(v))
+    : (v: any) => typeof v === 'string' && isNaN(Number(v)) && !isNaN(new Date(v).getTime());
+
+  const invalid = values.filter(v => !isValid(v)).length;
+  if (invalid === 0) return { ok: true, message: kind === 'numeric' ? 'Numeric' : 'Date' };
+  return {
+    ok: false,
+    message: `${invalid} of ${values.length} values are not ${kind === 'numeric' ? 'numbers' : 'dates'}`
+  };
+};
+
+// --- Persistence ---
+
+const storageKey = (tableName: string) => `${STORAGE_PREFIX}:column-mapping:${tableName}`;
+
+export const loadColumnMapping = (tableName: string): ColumnMapping => {
+  try {
+    const raw = localStorage.getItem(storageKey(tableName));
+    return raw ? JSON.parse(raw) as ColumnMapping : {};
+  } catch (e) {
+    console.warn(`Could not read column mapping for ${tableName}:`, e);
+    return {};
+  }
+};
+
+export const saveColumnMapping = (tableName: string, mapping: ColumnMapping) => {
+  try {
+    if (Object.keys(mapping).length === 0) localStorage.removeItem(storageKey(tableName));
+    else localStorage.setItem(storageKey(tableName), JSON.stringify(mapping));
+  } catch (e) {
+    console.warn(`Could not save column mapping for ${tableName}:`, e);
+  }
+};
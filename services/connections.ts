@@ -0,0 +1,109 @@
+import { ConnectionProfile } from '../types';
+import { SUPABASE_URL, SUPABASE_KEY, DEFAULT_TABLE, STORAGE_PREFIX } from '../constants';
+
+export const DEFAULT_SCHEMA = 'public';
+
+// The built-in connection. Sources on it keep bare table names as their ids,
+// so settings saved before profiles existed still apply.
+export const DEFAULT_PROFILE: ConnectionProfile = {
+  id: 'default',
+  name: 'Default',
+  url: SUPABASE_URL,
+  key: SUPABASE_KEY,
+  schema: DEFAULT_SCHEMA,
+  defaultTable: DEFAULT_TABLE,
+  origin: 'env',
+};
+
+export const slugifyProfileName = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'profile';
+
+// Fills defaults and checks the fields a client needs; throws on anything unusable
+export const normalizeProfile = (raw: Partial<ConnectionProfile>, origin: ConnectionProfile['origin']): ConnectionProfile => {
+  const name = String(raw.name ?? '').trim();
+  const url = String(raw.url ?? '').trim().replace(/\/+$/, '');
+  const key = String(raw.key ?? '').trim();
+  if (!name) throw new Error('A connection needs a name.');
+  if (!/^https?:\/\/\S+$/.test(url)) throw new Error(`"${name}" needs a valid project URL.`);
+  if (!key) throw new Error(`"${name}" needs an API key.`);
+  return {
+    id: raw.id || slugifyProfileName(name),
+    name,
+    url,
+    key,
+    schema: String(raw.schema ?? '').trim() || DEFAULT_SCHEMA,
+    defaultTable: String(raw.defaultTable ?? '').trim() || DEFAULT_TABLE,
+    origin,
+  };
+};
+
+// SUPABASE_PROFILES holds a JSON array of { name, url, key, schema?, defaultTable? }
+const readEnvProfiles = (): ConnectionProfile[] => {
+  const raw = process.env.SUPABASE_PROFILES;
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) throw new Error('expected an array');
+    return parsed.flatMap(item => {
+      try {
+        return [normalizeProfile(item, 'env')];
+      } catch (e) {
+        console.warn('Skipping SUPABASE_PROFILES entry:', e);
+        return [];
+      }
+    });
+  } catch (e) {
+    console.warn('Could not parse SUPABASE_PROFILES:', e);
+    return [];
+  }
+};
+
+const ENV_PROFILES = readEnvProfiles();
+
+// --- Persistence ---
+
+const profilesKey = `${STORAGE_PREFIX}:connections`;
+const activeKey = `${STORAGE_PREFIX}:active-connection`;
+
+export const loadUserProfiles = (): ConnectionProfile[] => {
+  try {
+    const raw = localStorage.getItem(profilesKey);
+    return raw ? (JSON.parse(raw) as ConnectionProfile[]).map(p => ({ ...p, origin: 'user' as const })) : [];
+  } catch (e) {
+    console.warn('Could not read connection profiles:', e);
+    return [];
+  }
+};
+
+export const saveUserProfiles = (profiles: ConnectionProfile[]) => {
+  try {
+    localStorage.setItem(profilesKey, JSON.stringify(profiles.filter(p => p.origin === 'user')));
+  } catch (e) {
+    console.warn('Could not save connection profiles:', e);
+  }
+};
+
+// Env profiles first (or the built-in default when there are none), then the user's own
+export const listProfiles = (userProfiles: ConnectionProfile[] = loadUserProfiles()): ConnectionProfile[] => {
+  const envProfiles = ENV_PROFILES.length > 0 ? ENV_PROFILES : [DEFAULT_PROFILE];
+  const envIds = new Set(envProfiles.map(p => p.id));
+  return [...envProfiles, ...userProfiles.filter(p => !envIds.has(p.id))];
+};
+
+export const loadActiveProfile = (profiles: ConnectionProfile[] = listProfiles()): ConnectionProfile => {
+  try {
+    const id = localStorage.getItem(activeKey);
+    return profiles.find(p => p.id === id) ?? profiles[0];
+  } catch (e) {
+    console.warn('Could not read active connection:', e);
+    return profiles[0];
+  }
+};
+
+export const saveActiveProfileId = (id: string) => {
+  try {
+    localStorage.setItem(activeKey, id);
+  } catch (e) {
+    console.warn('Could not save active connection:', e);
+  }
+};
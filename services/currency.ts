@@ -0,0 +1,204 @@
+import * as XLSX from 'xlsx';
+import { ColumnKeys, CurrencyConfig, DataRow, FxRate } from '../types';
+import { STORAGE_PREFIX } from '../constants';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { fetchTableRows } from './supabaseClient';
+import { findKey } from './columnMapping';
+
+export const DEFAULT_CURRENCY_CONFIG: CurrencyConfig = { reportingCurrency: 'USD', rateSource: 'none' };
+
+export const COMMON_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'CNY', 'INR', 'KRW', 'SGD', 'HKD', 'SEK', 'NOK', 'DKK', 'NZD', 'MXN', 'BRL', 'ZAR'];
+
+// --- Formatting ---
+
+export interface MoneyFormatter {
+  currency: string;
+  // Full amount, e.g. "$1,234.56"
+  format: (value: number) => string;
+  // Short form for axes, e.g. "$1.2K"
+  compact: (value: number) => string;
+}
+
+export const createMoneyFormatter = (currency: string): MoneyFormatter => {
+  let full: Intl.NumberFormat;
+  let short: Intl.NumberFormat;
+  try {
+    full = new Intl.NumberFormat(undefined, { style: 'currency', currency });
+    short = new Intl.NumberFormat(undefined, { style: 'currency', currency, notation: 'compact', maximumFractionDigits: 1 });
+  } catch (e) {
+    // Unknown ISO code: fall back to plain numbers with the code appended
+    console.warn(`Unsupported currency ${currency}:`, e);
+    const plain = new Intl.NumberFormat(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    const plainShort = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 });
+    return {
+      currency,
+      format: (value) => `${plain.format(value)} ${currency}`,
+      compact: (value) => `${plainShort.format(value)} ${currency}`
+    };
+  }
+  return { currency, format: (value) => full.format(value), compact: (value) => short.format(value) };
+};
+
+// --- Persistence ---
+
+const storageKey = (sourceId: string) => `${STORAGE_PREFIX}:currency:${sourceId}`;
+
+export const loadCurrencyConfig = (sourceId: string): CurrencyConfig => {
+  try {
+    const raw = localStorage.getItem(storageKey(sourceId));
+    return raw ? { ...DEFAULT_CURRENCY_CONFIG, ...JSON.parse(raw) } : DEFAULT_CURRENCY_CONFIG;
+  } catch (e) {
+    console.warn(`Could not read currency settings for ${sourceId}:`, e);
+    return DEFAULT_CURRENCY_CONFIG;
+  }
+};
+
+export const saveCurrencyConfig = (sourceId: string, config: CurrencyConfig) => {
+  try {
+    localStorage.setItem(storageKey(sourceId), JSON.stringify(config));
+  } catch (e) {
+    console.warn(`Could not save currency settings for ${sourceId}:`, e);
+  }
+};
+
+// --- Rate sources ---
+
+const toDay = (value: unknown): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  const text = String(value);
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) return text.slice(0, 10);
+  const d = new Date(text);
+  return isNaN(d.getTime()) ? null : d.toISOString().slice(0, 10);
+};
+
+// Reads rates from rows with date, base currency, quote currency and rate columns
+export const parseRateRows = (rows: DataRow[], sourceName: string): FxRate[] => {
+  if (rows.length === 0) return [];
+  const sample = rows[0];
+  const dateKey = findKey(sample, ['date', 'day', 'as_of', 'time']);
+  const baseKey = findKey(sample, ['base', 'from']);
+  const quoteKey = findKey(sample, ['quote', 'to', 'target']);
+  const rateKey = findKey(sample, ['rate', 'fx', 'value']);
+  if (!dateKey || !baseKey || !quoteKey || !rateKey) {
+    throw new Error(`"${sourceName}" needs date, base currency, quote currency and rate columns.`);
+  }
+
+  return rows
+    .map(row => ({
+      date: toDay(row[dateKey]) ?? '',
+      base: String(row[baseKey] ?? '').trim().toUpperCase(),
+      quote: String(row[quoteKey] ?? '').trim().toUpperCase(),
+      rate: Number(row[rateKey])
+    }))
+    .filter(r => r.date && r.base && r.quote && r.rate > 0);
+};
+
+export const fetchRateTable = async (client: SupabaseClient<any, any, any>, tableName: string): Promise<FxRate[]> => {
+  let rows: DataRow[];
+  try {
+    rows = await fetchTableRows(client, tableName);
+  } catch (e: any) {
+    throw new Error(`Could not load FX table "${tableName}": ${e.message}`);
+  }
+  return parseRateRows(rows, tableName);
+};
+
+export const parseRateFile = async (file: File): Promise<FxRate[]> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error(`"${file.name}" contains no sheets.`);
+  const rates = parseRateRows(XLSX.utils.sheet_to_json<DataRow>(sheet, { defval: null }), file.name);
+  if (rates.length === 0) throw new Error(`"${file.name}" contains no usable rates.`);
+  return rates;
+};
+
+// --- Conversion ---
+
+export interface FxConverter {
+  // Amount in the reporting currency, or null when no rate is known
+  convert: (amount: number, from: string, date: string | null) => number | null;
+}
+
+// Rates are looked up directly or inverted, using the latest rate on or before
+// the transaction date, or the earliest rate if the transaction predates them all
+export const createFxConverter = (rates: FxRate[], reportingCurrency: string): FxConverter => {
+  const target = reportingCurrency.toUpperCase();
+  const series: Record<string, { day: string; rate: number }[]> = {};
+  const add = (from: string, day: string, rate: number) => {
+    (series[from] = series[from] || []).push({ day, rate });
+  };
+  rates.forEach(r => {
+    if (r.quote === target) add(r.base, r.date, r.rate);
+    else if (r.base === target) add(r.quote, r.date, 1 / r.rate);
+  });
+  Object.values(series).forEach(s => s.sort((a, b) => a.day.localeCompare(b.day)));
+
+  return {
+    convert: (amount, from, date) => {
+      const code = from.trim().toUpperCase();
+      if (!code || code === target) return amount;
+      const s = series[code];
+      if (!s || s.length === 0) return null;
+      if (!date) return amount * s[s.length - 1].rate;
+
+      let lo = 0;
+      let hi = s.length - 1;
+      let found = -1;
+      while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (s[mid].day <= date) { found = mid; lo = mid + 1; } else hi = mid - 1;
+      }
+      return amount * s[found >= 0 ? found : 0].rate;
+    }
+  };
+};
+
+export interface ConversionResult {
+  // Rows in the reporting currency; rows without a rate are left out
+  rows: DataRow[];
+  // Rows whose currency had no rate; summing them would mix currencies
+  unconverted: number;
+  currencies: string[];
+}
+
+// One row in the reporting currency, with the currency it was booked in.
+// Rows already in the reporting currency (or without a currency) are returned as-is;
+// row is null when the currency has no rate, so totals never mix currencies.
+export const convertRow = (
+  row: DataRow, keys: ColumnKeys, converter: FxConverter, reportingCurrency: string
+): { row: DataRow | null; currency: string | null } => {
+  const { currencyKey } = keys;
+  if (!currencyKey) return { row, currency: null };
+
+  const code = String(row[currencyKey] ?? '').trim().toUpperCase();
+  if (!code || code === reportingCurrency.toUpperCase()) return { row, currency: code || null };
+
+  const day = keys.dateKey ? toDay(row[keys.dateKey]) : null;
+  const next: DataRow = { ...row };
+  let missing = false;
+  [keys.revKey, keys.expKey, keys.profitKey].forEach(key => {
+    if (!key || row[key] === null || row[key] === undefined || row[key] === '') return;
+    const value = converter.convert(Number(row[key]) || 0, code, day);
+    if (value === null) missing = true;
+    else next[key] = value;
+  });
+  return { row: missing ? null : next, currency: code };
+};
+
+// Converts the amount columns of each row into the reporting currency
+export const convertRows = (rows: DataRow[], keys: ColumnKeys, converter: FxConverter, reportingCurrency: string): ConversionResult => {
+  if (!keys.currencyKey) return { rows, unconverted: 0, currencies: [] };
+
+  const currencies = new Set<string>();
+  let unconverted = 0;
+  const converted: DataRow[] = [];
+  rows.forEach(raw => {
+    const { row, currency } = convertRow(raw, keys, converter, reportingCurrency);
+    if (currency) currencies.add(currency);
+    if (row) converted.push(row);
+    else unconverted++;
+  });
+
+  return { rows: converted, unconverted, currencies: Array.from(currencies).sort() };
+};
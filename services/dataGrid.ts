@@ -0,0 +1,214 @@
+import { DataRow, GridColumnKind, GridFilter, GridSort, GridState } from '../types';
+import { STORAGE_PREFIX } from '../constants';
+import { checkColumnType, readDate } from './columnMapping';
+import { parseDay } from './dateRange';
+import { zonedDayStart } from './fiscalCalendar';
+
+export const PAGE_SIZES = [100, 500, 1000, 5000];
+
+// Text columns with at most this many distinct values are filtered by picking values
+const MAX_ENUM_VALUES = 25;
+
+export const EMPTY_GRID_STATE: GridState = {
+  search: '',
+  filters: {},
+  sort: [],
+  hidden: [],
+  pageSize: PAGE_SIZES[0],
+  driveCharts: false
+};
+
+export interface GridColumn {
+  key: string;
+  kind: GridColumnKind;
+  // Sorted distinct values, for enum columns
+  options: string[];
+}
+
+export const formatGridCell = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Infers how each column is filtered from the loaded rows
+export const inferGridColumns = (rows: DataRow[]): GridColumn[] => {
+  if (rows.length === 0) return [];
+  return Object.keys(rows[0]).map(key => {
+    if (checkColumnType(rows, key, 'numeric').ok) return { key, kind: 'numeric', options: [] };
+    if (checkColumnType(rows, key, 'date').ok) return { key, kind: 'date', options: [] };
+
+    const distinct = new Set<string>();
+    for (const row of rows) {
+      distinct.add(formatGridCell(row[key]));
+      if (distinct.size > MAX_ENUM_VALUES) return { key, kind: 'text', options: [] };
+    }
+    // A handful of rows with unique values is not a category
+    if (distinct.size * 2 > rows.length) return { key, kind: 'text', options: [] };
+    return { key, kind: 'enum', options: [...distinct].sort() };
+  });
+};
+
+export const emptyFilter = (kind: GridColumnKind): GridFilter => {
+  switch (kind) {
+    case 'numeric': return { kind, min: null, max: null };
+    case 'date': return { kind, from: null, to: null };
+    case 'enum': return { kind, values: [] };
+    default: return { kind: 'text', value: '' };
+  }
+};
+
+export const isFilterActive = (filter: GridFilter | undefined): boolean => {
+  if (!filter) return false;
+  switch (filter.kind) {
+    case 'text': return filter.value.trim() !== '';
+    case 'numeric': return filter.min !== null || filter.max !== null;
+    case 'date': return !!filter.from || !!filter.to;
+    case 'enum': return filter.values.length > 0;
+  }
+};
+
+export const hasActiveFilters = (state: GridState) =>
+  state.search.trim() !== '' || Object.values(state.filters).some(isFilterActive);
+
+// Lower-cased cell text joined per row, built once per row object
+const searchText = new WeakMap<DataRow, string>();
+
+const rowText = (row: DataRow): string => {
+  let text = searchText.get(row);
+  if (text === undefined) {
+    text = Object.values(row).map(formatGridCell).join('\u0000').toLowerCase();
+    searchText.set(row, text);
+  }
+  return text;
+};
+
+export type RowTest = (row: DataRow) => boolean;
+
+const isEmpty = (value: any) => value === null || value === undefined || value === '';
+
+const compileFilter = (column: string, filter: GridFilter, timeZone: string | null): RowTest | null => {
+  if (!isFilterActive(filter)) return null;
+  switch (filter.kind) {
+    case 'text': {
+      const needle = filter.value.trim().toLowerCase();
+      return row => formatGridCell(row[column]).toLowerCase().includes(needle);
+    }
+    case 'numeric':
+      return row => {
+        if (isEmpty(row[column])) return false;
+        const n = Number(row[column]);
+        return (filter.min === null || n >= filter.min) && (filter.max === null || n <= filter.max);
+      };
+    case 'date': {
+      // Whole days in the reporting time zone, inclusive of the end day; cells are
+      // read like every other date, so date-only values are days in that zone too
+      const dayStart = (value: string | null, offset: number) => {
+        const day = parseDay(value ?? undefined);
+        return day ? zonedDayStart(day.getFullYear(), day.getMonth(), day.getDate() + offset, timeZone) : null;
+      };
+      const from = dayStart(filter.from, 0);
+      const to = dayStart(filter.to, 1);
+      return row => {
+        const d = readDate(row, column, timeZone);
+        if (!d) return false;
+        return (!from || d >= from) && (!to || d < to);
+      };
+    }
+    case 'enum': {
+      const values = new Set(filter.values);
+      return row => values.has(formatGridCell(row[column]));
+    }
+  }
+};
+
+// The global search and every column filter as one test; null when nothing filters.
+// Date filters cover whole days in the reporting time zone.
+export const createGridFilter = (state: Pick<GridState, 'search' | 'filters'>, timeZone: string | null = null): RowTest | null => {
+  const tests = Object.entries(state.filters)
+    .map(([column, filter]) => compileFilter(column, filter, timeZone))
+    .filter((t): t is RowTest => t !== null);
+  const needle = state.search.trim().toLowerCase();
+  if (needle) tests.unshift(row => rowText(row).includes(needle));
+  if (tests.length === 0) return null;
+  return row => tests.every(test => test(row));
+};
+
+// Applies the global search and every column filter
+export const filterGridRows = (
+  rows: DataRow[], state: Pick<GridState, 'search' | 'filters'>, timeZone: string | null = null
+): DataRow[] => {
+  const test = createGridFilter(state, timeZone);
+  return test ? rows.filter(test) : rows;
+};
+
+// Sort keys are computed once per row rather than in every comparison
+const sortValue = (value: any, kind: GridColumnKind): number | string | null => {
+  if (isEmpty(value)) return null;
+  if (kind === 'numeric') return Number(value);
+  if (kind === 'date') {
+    const t = new Date(value).getTime();
+    return isNaN(t) ? null : t;
+  }
+  return formatGridCell(value);
+};
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Stable multi-column sort; the original order breaks remaining ties
+export const sortGridRows = (rows: DataRow[], sort: GridSort[], columns: GridColumn[]): DataRow[] => {
+  const active = sort
+    .map(s => ({ ...s, kind: columns.find(c => c.key === s.column)?.kind }))
+    .filter((s): s is GridSort & { kind: GridColumnKind } => s.kind !== undefined);
+  if (active.length === 0) return rows;
+
+  return rows
+    .map((row, index) => ({ row, index, values: active.map(s => sortValue(row[s.column], s.kind)) }))
+    .sort((x, y) => {
+      for (let i = 0; i < active.length; i++) {
+        const a = x.values[i];
+        const b = y.values[i];
+        // Empty cells sort last in either direction
+        if (a === null || b === null) {
+          if (a !== b) return a === null ? 1 : -1;
+          continue;
+        }
+        const diff = typeof a === 'number' && typeof b === 'number' ? a - b : collator.compare(String(a), String(b));
+        if (diff !== 0) return active[i].direction === 'asc' ? diff : -diff;
+      }
+      return x.index - y.index;
+    })
+    .map(entry => entry.row);
+};
+
+// Click sorts by a column alone; shift-click adds it as a tie-breaker. Each click cycles asc, desc, off.
+export const toggleSort = (sort: GridSort[], column: string, additive: boolean): GridSort[] => {
+  const current = sort.find(s => s.column === column);
+  const next: GridSort | null = !current ? { column, direction: 'asc' } : current.direction === 'asc' ? { column, direction: 'desc' } : null;
+  if (!additive) return next ? [next] : [];
+  const rest = sort.filter(s => s.column !== column);
+  if (!next) return rest;
+  return current ? sort.map(s => (s.column === column ? next : s)) : [...rest, next];
+};
+
+// --- Persistence ---
+
+const storageKey = (sourceId: string) => `${STORAGE_PREFIX}:grid:${sourceId}`;
+
+export const loadGridState = (sourceId: string): GridState => {
+  try {
+    const raw = localStorage.getItem(storageKey(sourceId));
+    return raw ? { ...EMPTY_GRID_STATE, ...JSON.parse(raw) } : EMPTY_GRID_STATE;
+  } catch (e) {
+    console.warn(`Could not read grid settings for ${sourceId}:`, e);
+    return EMPTY_GRID_STATE;
+  }
+};
+
+export const saveGridState = (sourceId: string, state: GridState) => {
+  try {
+    localStorage.setItem(storageKey(sourceId), JSON.stringify(state));
+  } catch (e) {
+    console.warn(`Could not save grid settings for ${sourceId}:`, e);
+  }
+};
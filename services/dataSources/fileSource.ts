@@ -0,0 +1,57 @@
+import * as XLSX from 'xlsx';
+import { DataRow, DataSource } from '../../types';
+import { createMemorySource } from './memorySource';
+
+export const ACCEPTED_FILE_TYPES = '.csv,.xlsx,.xls';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// A cell holding only a day comes back as midnight (UTC or local, depending on
+// the format); it becomes YYYY-MM-DD so it reads as that calendar day in any zone
+const formatCellDate = (d: Date): string => {
+  if (d.getUTCHours() === 0 && d.getUTCMinutes() === 0 && d.getUTCSeconds() === 0 && d.getUTCMilliseconds() === 0) {
+    return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+  }
+  if (d.getHours() === 0 && d.getMinutes() === 0 && d.getSeconds() === 0 && d.getMilliseconds() === 0) {
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+  }
+  return d.toISOString();
+};
+
+// Spreadsheet dates come back as Date objects; store them as strings
+// so imported rows look like rows from Supabase
+const normalizeRow = (row: DataRow): DataRow => {
+  const out: DataRow = {};
+  Object.keys(row).forEach(key => {
+    const value = row[key];
+    out[key] = value instanceof Date ? formatCellDate(value) : value;
+  });
+  return out;
+};
+
+// Rows of the first sheet of a CSV or Excel file, plus a label naming the sheet when there are several
+export const parseSpreadsheet = (data: ArrayBuffer | Uint8Array, fileName: string): { rows: DataRow[]; label: string } => {
+  let workbook: XLSX.WorkBook;
+  try {
+    workbook = XLSX.read(data, { type: 'array', cellDates: true });
+  } catch (e: any) {
+    throw new Error(`Could not read "${fileName}": ${e?.message || 'unsupported file'}`);
+  }
+
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) throw new Error(`"${fileName}" contains no sheets.`);
+
+  const rows = XLSX.utils
+    .sheet_to_json<DataRow>(workbook.Sheets[sheetName], { defval: null })
+    .map(normalizeRow);
+  if (rows.length === 0) throw new Error(`"${fileName}" contains no rows.`);
+
+  const label = workbook.SheetNames.length > 1 ? `${fileName} (${sheetName})` : fileName;
+  return { rows, label };
+};
+
+// Parses the first sheet of a CSV or Excel file into a data source
+export const createFileSource = async (file: File): Promise<DataSource> => {
+  const { rows, label } = parseSpreadsheet(await file.arrayBuffer(), file.name);
+  return createMemorySource('file', `file:${file.name}`, label, rows);
+};
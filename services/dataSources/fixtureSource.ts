@@ -0,0 +1,63 @@
+import { DataRow, DataSource } from '../../types';
+import { createMemorySource } from './memorySource';
+
+const DEPARTMENTS = [
+  { name: 'Sales', revenue: 42000, costRatio: 0.55 },
+  { name: 'Marketing', revenue: 18000, costRatio: 0.8 },
+  { name: 'Engineering', revenue: 30000, costRatio: 0.65 },
+  { name: 'Operations', revenue: 22000, costRatio: 0.7 },
+  { name: 'Support', revenue: 9000, costRatio: 0.9 },
+  { name: 'Finance', revenue: 6000, costRatio: 0.5 },
+];
+
+const MONTHS = 24;
+const ORDERS_PER_MONTH = 60;
+
+// Small seeded PRNG (mulberry32) so the fixture is identical on every load
+const createRandom = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Two years of orders across six departments, with growth and a Q4 peak
+export const generateFixtureRows = (endDate: Date = new Date()): DataRow[] => {
+  const random = createRandom(20240101);
+  const rows: DataRow[] = [];
+  const start = new Date(Date.UTC(endDate.getUTCFullYear(), endDate.getUTCMonth() - (MONTHS - 1), 1));
+
+  for (let m = 0; m < MONTHS; m++) {
+    const monthStart = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + m, 1));
+    const daysInMonth = new Date(Date.UTC(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, 0)).getUTCDate();
+    const growth = 1 + m * 0.015;
+    const seasonality = monthStart.getUTCMonth() >= 9 ? 1.25 : 1;
+
+    for (let i = 0; i < ORDERS_PER_MONTH; i++) {
+      const dept = DEPARTMENTS[Math.floor(random() * DEPARTMENTS.length)];
+      const created = new Date(monthStart.getTime());
+      created.setUTCDate(1 + Math.floor(random() * daysInMonth));
+      created.setUTCHours(8 + Math.floor(random() * 10), Math.floor(random() * 60));
+
+      const revenue = round2((dept.revenue / 10) * growth * seasonality * (0.5 + random()));
+      const expenses = round2(revenue * dept.costRatio * (0.7 + random() * 0.6));
+
+      rows.push({
+        id: rows.length + 1,
+        order_number: `ORD-${String(rows.length + 1).padStart(5, '0')}`,
+        created_at: created.toISOString(),
+        department: dept.name,
+        revenue,
+        expenses
+      });
+    }
+  }
+
+  return rows.sort((a, b) => a.created_at.localeCompare(b.created_at));
+};
+
+export const createFixtureSource = (): DataSource =>
+  createMemorySource('fixture', 'fixture:demo', 'Demo data', generateFixtureRows());
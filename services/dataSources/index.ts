@@ -0,0 +1,4 @@
+export { createSupabaseSource } from './supabaseSource';
+export { createFileSource, parseSpreadsheet, ACCEPTED_FILE_TYPES } from './fileSource';
+export { createFixtureSource, generateFixtureRows } from './fixtureSource';
+export { createMemorySource } from './memorySource';
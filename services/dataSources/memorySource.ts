@@ -0,0 +1,19 @@
+import { DataRow, DataSource } from '../../types';
+
+// A fixed set of rows held in memory. Backs file imports and fixtures.
+export const createMemorySource = (
+  kind: 'file' | 'fixture',
+  id: string,
+  label: string,
+  rows: DataRow[]
+): DataSource => ({
+  kind,
+  id,
+  label,
+  capabilities: { realtime: false, refresh: false },
+
+  load: async ({ onProgress }) => {
+    onProgress?.({ loaded: rows.length, total: rows.length });
+    return { rows: [...rows], total: rows.length, complete: true };
+  }
+});
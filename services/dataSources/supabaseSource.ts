@@ -0,0 +1,148 @@
+import { ConnectionProfile, DataSource, RowChange, RowScope } from '../../types';
+import { getClient, checkTableExists, fetchAllRows, fetchRowsChangedSince } from '../supabaseClient';
+import { DEFAULT_PROFILE } from '../connections';
+import { loadRelations, fetchLookups, joinRow, LookupMaps } from '../relations';
+
+// Retry delays after the realtime channel drops: 1s, 2s, 4s ... capped at 30s
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+// Exponential backoff with jitter, so many open dashboards do not retry in lockstep
+const reconnectDelay = (attempt: number) => {
+  const ceiling = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+};
+
+// Tables on other connections are prefixed so their settings stay separate
+const sourceId = (tableName: string, profile: ConnectionProfile) =>
+  profile.id === DEFAULT_PROFILE.id ? tableName : `${profile.id}:${tableName}`;
+
+export const createSupabaseSource = (tableName: string, profile: ConnectionProfile = DEFAULT_PROFILE): DataSource => {
+  const client = getClient(profile);
+  const id = sourceId(tableName, profile);
+  const relations = loadRelations(id);
+  // Filled on load; realtime rows are joined against the same lookups
+  let lookups: LookupMaps = [];
+  // Scope of the last load; realtime and catch-up ask for the same rows
+  let scope: RowScope | null = null;
+  // Spellings of the scoped department among the loaded rows. The server matches
+  // the scope in any case, but realtime filters only compare exact values.
+  let scopeValues: string[] = [];
+  // Unique column of the last load; orders catch-up rows sharing a timestamp
+  let key: string | null = null;
+
+  return {
+    kind: 'supabase',
+    id,
+    label: tableName,
+    connection: profile.name,
+    client,
+    capabilities: { realtime: true, refresh: true },
+
+    load: async (options) => {
+      const exists = await checkTableExists(client, tableName);
+      if (!exists) {
+        throw new Error(`Table "${tableName}" was not found or is not accessible on ${profile.name}.`);
+      }
+      scope = null;
+      key = null;
+      const { pickKey, pickScope } = options;
+      const [result, joins] = await Promise.all([
+        fetchAllRows(client, tableName, {
+          ...options,
+          pickKey: sample => (key = pickKey(sample)),
+          pickScope: pickScope && (sample => (scope = pickScope(sample)))
+        }),
+        fetchLookups(client, relations)
+      ]);
+      lookups = joins.maps;
+      const scoped = scope;
+      scopeValues = scoped
+        ? [...new Set([scoped.value, ...result.rows.map(row => String(row[scoped.column] ?? ''))])]
+        : [];
+      if (relations.length === 0) return result;
+      return { ...result, rows: result.rows.map(row => joinRow(row, relations, lookups)), incompleteLookups: joins.incomplete };
+    },
+
+    // Resubscribes with backoff whenever the channel errors, times out or closes
+    subscribe: (onChange, onStatus) => {
+      let channel: ReturnType<typeof client.channel> | null = null;
+      let retryTimer: ReturnType<typeof setTimeout> | null = null;
+      let attempt = 0;
+      let closed = false;
+
+      const connect = () => {
+        onStatus(attempt === 0 ? 'connecting' : 'reconnecting');
+        const current = client
+          .channel(`${profile.schema}:${tableName}`)
+          .on('postgres_changes', {
+            event: '*',
+            schema: profile.schema,
+            table: tableName,
+            ...(scope ? {
+              filter: scopeValues.length > 1
+                ? `${scope.column}=in.(${scopeValues.join(',')})`
+                : `${scope.column}=eq.${scope.value}`
+            } : {})
+          }, (payload) => {
+              const change: RowChange = {
+                eventType: payload.eventType,
+                new: payload.eventType === 'DELETE' ? payload.new : joinRow(payload.new, relations, lookups),
+                old: payload.old
+              };
+              onChange(change);
+          });
+        channel = current;
+        current.subscribe((status) => {
+          // Ignore the CLOSED that follows removing a channel we gave up on
+          if (closed || current !== channel) return;
+          if (status === 'SUBSCRIBED') {
+            attempt = 0;
+            onStatus('connected');
+          } else {
+            scheduleReconnect();
+          }
+        });
+      };
+
+      const dropChannel = () => {
+        const current = channel;
+        channel = null;
+        if (current) client.removeChannel(current);
+      };
+
+      const scheduleReconnect = () => {
+        if (closed || retryTimer) return;
+        dropChannel();
+        onStatus('reconnecting');
+        retryTimer = setTimeout(() => {
+          retryTimer = null;
+          connect();
+        }, reconnectDelay(attempt++));
+      };
+
+      // Coming back online is worth trying straight away
+      const retryNow = () => {
+        if (!retryTimer) return;
+        clearTimeout(retryTimer);
+        retryTimer = null;
+        attempt = 0;
+        connect();
+      };
+
+      connect();
+      if (typeof window !== 'undefined') window.addEventListener('online', retryNow);
+      return () => {
+        closed = true;
+        if (retryTimer) clearTimeout(retryTimer);
+        if (typeof window !== 'undefined') window.removeEventListener('online', retryNow);
+        dropChannel();
+      };
+    },
+
+    fetchChangedSince: async (column, since) => {
+      const rows = await fetchRowsChangedSince(client, tableName, column, since, key, scope);
+      return relations.length > 0 ? rows.map(row => joinRow(row, relations, lookups)) : rows;
+    }
+  };
+};
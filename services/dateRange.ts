@@ -0,0 +1,120 @@
+import { ComparisonMode, DateRangeFilter, DateRangePreset, FiscalCalendar } from '../types';
+import {
+  DEFAULT_FISCAL_CALENDAR, fiscalToDateStart, nextDayStart, shiftDays, shiftPeriods, zonedDayStart
+} from './fiscalCalendar';
+
+// Half-open interval [start, end)
+export interface ResolvedRange {
+  start: Date;
+  end: Date;
+}
+
+export const DATE_RANGE_PRESETS: { value: DateRangePreset; label: string }[] = [
+  { value: 'all', label: 'All time' },
+  { value: 'mtd', label: 'MTD' },
+  { value: 'qtd', label: 'QTD' },
+  { value: 'ytd', label: 'YTD' },
+  { value: 't12m', label: 'Trailing 12M' },
+  { value: 'custom', label: 'Custom' },
+];
+
+export const COMPARISON_LABELS: Record<ComparisonMode, string> = {
+  none: 'No comparison',
+  mom: 'vs prior month',
+  yoy: 'vs prior year',
+};
+
+export const DEFAULT_DATE_RANGE: DateRangeFilter = { preset: 'all', comparison: 'none' };
+
+// Parses a YYYY-MM-DD day as local midnight
+export const parseDay = (value: string | undefined): Date | null => {
+  if (!value) return null;
+  const [y, m, d] = value.split('-').map(Number);
+  if (!y || !m || !d) return null;
+  return new Date(y, m - 1, d);
+};
+
+// The instant a YYYY-MM-DD day starts in the reporting time zone, `offset` days later
+const zonedDay = (value: string | undefined, calendar: FiscalCalendar, offset = 0): Date | null => {
+  const day = parseDay(value);
+  return day ? zonedDayStart(day.getFullYear(), day.getMonth(), day.getDate() + offset, calendar.timeZone) : null;
+};
+
+// Resolves a filter to concrete bounds relative to `now`; null means no bound.
+// MTD, QTD and YTD run from the start of the current fiscal period, quarter and year.
+export const resolveDateRange = (
+  filter: DateRangeFilter,
+  now: Date = new Date(),
+  calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR
+): ResolvedRange | null => {
+  const tomorrow = nextDayStart(now, calendar);
+
+  switch (filter.preset) {
+    case 'mtd':
+      return { start: fiscalToDateStart('period', now, calendar), end: tomorrow };
+    case 'qtd':
+      return { start: fiscalToDateStart('quarter', now, calendar), end: tomorrow };
+    case 'ytd':
+      return { start: fiscalToDateStart('year', now, calendar), end: tomorrow };
+    case 't12m':
+      // The current fiscal period and the eleven before it
+      return { start: shiftPeriods(fiscalToDateStart('period', now, calendar), -11, calendar), end: tomorrow };
+    case 'custom': {
+      // Whole days in the reporting time zone, the last one included
+      const from = zonedDay(filter.from, calendar);
+      const end = zonedDay(filter.to, calendar, 1);
+      if (!from && !end) return null;
+      return { start: from ?? new Date(0), end: end ?? tomorrow };
+    }
+    default:
+      return null;
+  }
+};
+
+// The period a range is compared against. Week-based fiscal years compare
+// against the same 52 weeks earlier, so weekdays line up.
+export const comparisonRange = (
+  range: ResolvedRange | null,
+  mode: ComparisonMode,
+  calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR
+): ResolvedRange | null => {
+  if (!range || mode === 'none') return null;
+  if (mode === 'yoy' && calendar.pattern !== 'calendar') {
+    return { start: shiftDays(range.start, -364, calendar), end: shiftDays(range.end, -364, calendar) };
+  }
+  const periods = mode === 'mom' ? -1 : -12;
+  return { start: shiftPeriods(range.start, periods, calendar), end: shiftPeriods(range.end, periods, calendar) };
+};
+
+export const isInRange = (d: Date | null, range: ResolvedRange | null): boolean => {
+  if (!range) return true;
+  if (!d) return false;
+  return d >= range.start && d < range.end;
+};
+
+// Months are keyed YYYYMM; this steps a key forwards or backwards
+export const shiftMonthKey = (sortKey: number, months: number): number => {
+  const index = Math.floor(sortKey / 100) * 12 + (sortKey % 100) + months;
+  return Math.floor(index / 12) * 100 + (index % 12);
+};
+
+// Percent change against a prior value, null when there is nothing to compare to
+export const percentChange = (current: number, prior: number | null | undefined): number | null => {
+  if (prior === null || prior === undefined || prior === 0) return null;
+  return ((current - prior) / Math.abs(prior)) * 100;
+};
+
+const formatDay = (d: Date) => d.toLocaleDateString();
+
+// Human-readable summary of a filter, e.g. "YTD (1/1/2026 – 10/19/2026)"
+export const describeDateRange = (
+  filter: DateRangeFilter,
+  now: Date = new Date(),
+  calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR
+): string => {
+  const preset = DATE_RANGE_PRESETS.find(p => p.value === filter.preset)?.label ?? filter.preset;
+  const range = resolveDateRange(filter, now, calendar);
+  if (!range) return preset;
+  const lastDay = new Date(range.end.getTime() - 1);
+  return `${preset} (${formatDay(range.start)} – ${formatDay(lastDay)})`;
+};
@@ -0,0 +1,53 @@
+import * as XLSX from 'xlsx';
+import { DataRow } from '../types';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+// Keeps filenames portable: "Top Orders (Q2)" -> "top-orders-q2"
+export const slugify = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'export';
+
+const timestamp = () => new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+
+// Spreadsheet apps run CSV text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quotes text that would otherwise be read as a formula ("=HYPERLINK(...)" -> "'=HYPERLINK(...)").
+// Numbers are left alone, so negative amounts stay numeric.
+const escapeFormulas = (row: DataRow): DataRow => {
+  const out: DataRow = {};
+  Object.keys(row).forEach(key => {
+    const value = row[key];
+    out[key] = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  });
+  return out;
+};
+
+// Downloads rows as a CSV or single-sheet workbook. Workbook cells are typed,
+// so only CSV text needs escaping.
+export const exportRows = (rows: DataRow[], name: string, format: ExportFormat) => {
+  const sheet = XLSX.utils.json_to_sheet(format === 'csv' ? rows.map(escapeFormulas) : rows);
+  const workbook = XLSX.utils.book_new();
+  // Excel caps sheet names at 31 characters
+  XLSX.utils.book_append_sheet(workbook, sheet, name.slice(0, 31) || 'Sheet1');
+  XLSX.writeFile(workbook, `${slugify(name)}-${timestamp()}.${format}`, { bookType: format });
+};
+
+// How long a download's object URL stays valid; generous, as FileSaver.js does
+const REVOKE_DELAY_MS = 40000;
+
+// Downloads arbitrary text content, e.g. an HTML report
+export const downloadText = (content: string, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight away can cancel the download before the browser has read the blob
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+export const reportFilename = (name: string) => `${slugify(name)}-report-${timestamp()}.html`;
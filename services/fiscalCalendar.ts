@@ -0,0 +1,252 @@
+import { FiscalCalendar, FiscalPattern } from '../types';
+import { STORAGE_PREFIX } from '../constants';
+import { ResolvedRange } from './dateRange';
+
+// Calendar months in the browser's time zone, i.e. no fiscal calendar
+export const DEFAULT_FISCAL_CALENDAR: FiscalCalendar = { startMonth: 0, pattern: 'calendar', timeZone: null };
+
+export const FISCAL_PATTERNS: Record<FiscalPattern, string> = {
+  'calendar': 'Calendar months',
+  '4-4-5': '4-4-5 weeks',
+  '4-5-4': '4-5-4 weeks',
+};
+
+// Weeks per period within each quarter
+const QUARTER_WEEKS: Record<Exclude<FiscalPattern, 'calendar'>, number[]> = {
+  '4-4-5': [4, 4, 5],
+  '4-5-4': [4, 5, 4],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const MONTH_NAMES = Array.from({ length: 12 }, (_, m) =>
+  new Date(2000, m, 1).toLocaleString('default', { month: 'long' })
+);
+
+// One fiscal period (month or 4/5-week period), 0-11 within its fiscal year
+export interface FiscalPeriod {
+  year: number;
+  period: number;
+  // 1-4
+  quarter: number;
+  // year * 100 + period; consecutive keys step like YYYYMM month keys
+  key: number;
+}
+
+// --- Time zones ---
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Wall-clock fields of an instant in the reporting time zone
+const zonedFields = (d: Date, timeZone: string | null) => {
+  if (!timeZone) {
+    return { year: d.getFullYear(), month: d.getMonth(), day: d.getDate(), hour: d.getHours(), minute: d.getMinutes(), second: d.getSeconds() };
+  }
+  const parts: Record<string, number> = {};
+  formatterFor(timeZone).formatToParts(d).forEach(p => {
+    if (p.type !== 'literal') parts[p.type] = Number(p.value);
+  });
+  return { year: parts.year, month: parts.month - 1, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+};
+
+// Days since 1970-01-01 for a calendar date, independent of any time zone
+const dayNumber = (year: number, month: number, day: number) => Math.round(Date.UTC(year, month, day) / DAY_MS);
+
+const dayToDate = (day: number) => {
+  const d = new Date(day * DAY_MS);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth(), day: d.getUTCDate() };
+};
+
+// The instant a calendar day starts in the reporting time zone
+const startOfDayInstant = (day: number, timeZone: string | null): Date => {
+  const { year, month, day: date } = dayToDate(day);
+  if (!timeZone) return new Date(year, month, date);
+  const guess = Date.UTC(year, month, date);
+  const offsetAt = (t: number) => {
+    const f = zonedFields(new Date(t), timeZone);
+    return Date.UTC(f.year, f.month, f.day, f.hour, f.minute, f.second) - t;
+  };
+  // Second pass settles days where the offset changes around midnight
+  const first = guess - offsetAt(guess);
+  return new Date(guess - offsetAt(first));
+};
+
+// The instant a calendar date starts in the reporting time zone, or local midnight without one
+export const zonedDayStart = (year: number, month: number, day: number, timeZone: string | null): Date =>
+  startOfDayInstant(dayNumber(year, month, day), timeZone);
+
+// YYYY-MM-DD of the calendar date an instant falls on in the reporting time zone
+export const zonedDayKey = (d: Date, timeZone: string | null) => {
+  const f = zonedFields(d, timeZone);
+  return `${f.year}-${String(f.month + 1).padStart(2, '0')}-${String(f.day).padStart(2, '0')}`;
+};
+
+// --- Fiscal periods ---
+
+// The calendar year a fiscal year starts in; FY2025 with a July start begins in July 2024
+const startYear = (fiscalYear: number, calendar: FiscalCalendar) =>
+  calendar.startMonth === 0 ? fiscalYear : fiscalYear - 1;
+
+// Week-based years start on the Monday closest to the first day of the start month
+const weekYearStart = (fiscalYear: number, calendar: FiscalCalendar) => {
+  const anchor = dayNumber(startYear(fiscalYear, calendar), calendar.startMonth, 1);
+  // 1970-01-01 was a Thursday; 0 = Monday
+  const weekday = (anchor + 3) % 7;
+  return weekday <= 3 ? anchor - weekday : anchor + (7 - weekday);
+};
+
+const periodWeeks = (pattern: Exclude<FiscalPattern, 'calendar'>, period: number) => QUARTER_WEEKS[pattern][period % 3];
+
+const toPeriod = (year: number, period: number): FiscalPeriod =>
+  ({ year, period, quarter: Math.floor(period / 3) + 1, key: year * 100 + period });
+
+export const fiscalPeriodOf = (d: Date, calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR): FiscalPeriod => {
+  const f = zonedFields(d, calendar.timeZone);
+  const fiscalYear = calendar.startMonth > 0 && f.month >= calendar.startMonth ? f.year + 1 : f.year;
+  if (calendar.pattern === 'calendar') return toPeriod(fiscalYear, (f.month - calendar.startMonth + 12) % 12);
+
+  const day = dayNumber(f.year, f.month, f.day);
+  let year = fiscalYear;
+  if (day < weekYearStart(year, calendar)) year -= 1;
+  else if (day >= weekYearStart(year + 1, calendar)) year += 1;
+
+  // A 53rd week, every five or six years, belongs to the last period
+  let week = Math.floor((day - weekYearStart(year, calendar)) / 7);
+  let period = 0;
+  while (period < 11 && week >= periodWeeks(calendar.pattern, period)) {
+    week -= periodWeeks(calendar.pattern, period);
+    period++;
+  }
+  return toPeriod(year, period);
+};
+
+export const fiscalPeriodKey = (d: Date, calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR) =>
+  fiscalPeriodOf(d, calendar).key;
+
+const splitKey = (key: number) => ({ year: Math.floor(key / 100), period: key % 100 });
+
+// First and last+1 calendar day of a period
+const periodDays = (key: number, calendar: FiscalCalendar): [number, number] => {
+  const { year, period } = splitKey(key);
+  if (calendar.pattern === 'calendar') {
+    const month = calendar.startMonth + period;
+    const y = startYear(year, calendar);
+    return [dayNumber(y, month, 1), dayNumber(y, month + 1, 1)];
+  }
+  let start = weekYearStart(year, calendar);
+  for (let p = 0; p < period; p++) start += periodWeeks(calendar.pattern, p) * 7;
+  const end = period === 11 ? weekYearStart(year + 1, calendar) : start + periodWeeks(calendar.pattern, period) * 7;
+  return [start, end];
+};
+
+export const fiscalPeriodRange = (key: number, calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR): ResolvedRange => {
+  const [start, end] = periodDays(key, calendar);
+  return { start: startOfDayInstant(start, calendar.timeZone), end: startOfDayInstant(end, calendar.timeZone) };
+};
+
+// Start of the period, quarter or fiscal year containing `now`
+export const fiscalToDateStart = (unit: 'period' | 'quarter' | 'year', now: Date, calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR): Date => {
+  const { year, period } = fiscalPeriodOf(now, calendar);
+  const first = unit === 'period' ? period : unit === 'quarter' ? Math.floor(period / 3) * 3 : 0;
+  return fiscalPeriodRange(year * 100 + first, calendar).start;
+};
+
+// Midnight after `now` in the reporting time zone
+export const nextDayStart = (now: Date, calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR): Date => {
+  const f = zonedFields(now, calendar.timeZone);
+  return startOfDayInstant(dayNumber(f.year, f.month, f.day) + 1, calendar.timeZone);
+};
+
+// Moves an instant by whole days in the reporting time zone, keeping its time of day
+export const shiftDays = (d: Date, days: number, calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR): Date => {
+  const f = zonedFields(d, calendar.timeZone);
+  const day = dayNumber(f.year, f.month, f.day);
+  const timeOfDay = d.getTime() - startOfDayInstant(day, calendar.timeZone).getTime();
+  return new Date(startOfDayInstant(day + days, calendar.timeZone).getTime() + timeOfDay);
+};
+
+// Moves an instant by whole fiscal periods, keeping its day within the period
+// (clamped to the target period's length) and its time of day
+export const shiftPeriods = (d: Date, periods: number, calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR): Date => {
+  const f = zonedFields(d, calendar.timeZone);
+  const day = dayNumber(f.year, f.month, f.day);
+  const { year, period } = fiscalPeriodOf(d, calendar);
+  const index = year * 12 + period + periods;
+  const [start] = periodDays(year * 100 + period, calendar);
+  const [targetStart, targetEnd] = periodDays(Math.floor(index / 12) * 100 + (index % 12), calendar);
+  return shiftDays(d, Math.min(targetStart + (day - start), targetEnd - 1) - day, calendar);
+};
+
+// --- Labels ---
+
+const isPlainCalendar = (calendar: FiscalCalendar) => calendar.pattern === 'calendar' && calendar.startMonth === 0;
+
+const shortYear = (year: number) => String(year).slice(-2);
+
+// "Jul 24" for calendar months, "FY25 P01" for week-based periods
+export const fiscalPeriodLabel = (key: number, calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR): string => {
+  const { year, period } = splitKey(key);
+  if (calendar.pattern === 'calendar') {
+    const d = new Date(startYear(year, calendar), calendar.startMonth + period, 1);
+    return d.toLocaleString('default', { month: 'short', year: '2-digit' });
+  }
+  return `FY${shortYear(year)} P${String(period + 1).padStart(2, '0')}`;
+};
+
+export const fiscalQuarterLabel = (year: number, quarter: number, calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR) =>
+  isPlainCalendar(calendar) ? `Q${quarter} ${year}` : `FY${shortYear(year)} Q${quarter}`;
+
+export const fiscalYearLabel = (year: number, calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR) =>
+  isPlainCalendar(calendar) ? String(year) : `FY${year}`;
+
+export const describeFiscalCalendar = (calendar: FiscalCalendar) => {
+  const parts = [
+    calendar.startMonth === 0 && calendar.pattern === 'calendar' ? 'Calendar year' : `Fiscal year from ${MONTH_NAMES[calendar.startMonth]}`,
+  ];
+  if (calendar.pattern !== 'calendar') parts.push(FISCAL_PATTERNS[calendar.pattern]);
+  parts.push(calendar.timeZone ?? 'local time zone');
+  return parts.join(', ');
+};
+
+// --- Persistence ---
+
+// One calendar for every source: it describes the company, not a table
+const storageKey = `${STORAGE_PREFIX}:fiscal-calendar`;
+
+export const loadFiscalCalendar = (): FiscalCalendar => {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    return raw ? { ...DEFAULT_FISCAL_CALENDAR, ...JSON.parse(raw) } : DEFAULT_FISCAL_CALENDAR;
+  } catch (e) {
+    console.warn("Could not read fiscal calendar:", e);
+    return DEFAULT_FISCAL_CALENDAR;
+  }
+};
+
+export const saveFiscalCalendar = (calendar: FiscalCalendar) => {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(calendar));
+  } catch (e) {
+    console.warn("Could not save fiscal calendar:", e);
+  }
+};
@@ -0,0 +1,177 @@
+import { ForecastModel } from '../types';
+
+export interface ForecastResult {
+  point: number[];
+  lower: number[];
+  upper: number[];
+  // Name of the model actually used; Holt-Winters falls back without two full seasons
+  model: string;
+}
+
+export interface BacktestResult {
+  // Mean absolute percentage error over the holdout, null if every actual was zero
+  mape: number | null;
+  mae: number;
+  holdout: number;
+}
+
+export const FORECAST_MODELS: { value: ForecastModel; label: string }[] = [
+  { value: 'none', label: 'No forecast' },
+  { value: 'linear', label: 'Linear trend' },
+  { value: 'holt-winters', label: 'Holt-Winters' },
+];
+
+export const FORECAST_HORIZONS = [3, 6, 12];
+
+const SEASON_LENGTH = 12;
+// Two-sided 95% normal quantile
+const Z_95 = 1.96;
+
+// --- Linear trend (ordinary least squares) ---
+
+const linearForecast = (values: number[], horizon: number): ForecastResult => {
+  const n = values.length;
+  const tMean = (n - 1) / 2;
+  const yMean = values.reduce((a, b) => a + b, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  values.forEach((y, t) => {
+    sxx += (t - tMean) ** 2;
+    sxy += (t - tMean) * (y - yMean);
+  });
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const intercept = yMean - slope * tMean;
+
+  const sse = values.reduce((acc, y, t) => acc + (y - (intercept + slope * t)) ** 2, 0);
+  const sigma = n > 2 ? Math.sqrt(sse / (n - 2)) : 0;
+
+  const point: number[] = [];
+  const lower: number[] = [];
+  const upper: number[] = [];
+  for (let h = 1; h <= horizon; h++) {
+    const t = n - 1 + h;
+    const y = intercept + slope * t;
+    // Prediction interval widens with distance from the centre of the data
+    const se = sigma * Math.sqrt(1 + 1 / n + (sxx > 0 ? (t - tMean) ** 2 / sxx : 0));
+    point.push(y);
+    lower.push(y - Z_95 * se);
+    upper.push(y + Z_95 * se);
+  }
+  return { point, lower, upper, model: 'Linear trend' };
+};
+
+// --- Holt-Winters (additive) ---
+
+interface SmoothingFit {
+  sse: number;
+  steps: number;
+  level: number;
+  trend: number;
+  seasonals: number[];
+}
+
+// Runs the smoothing recursions and records the one-step-ahead error
+const fitHoltWinters = (values: number[], alpha: number, beta: number, gamma: number, season: number): SmoothingFit => {
+  let level: number;
+  let trend: number;
+  const seasonals: number[] = new Array(season).fill(0);
+
+  if (season > 0) {
+    const first = values.slice(0, season);
+    const second = values.slice(season, 2 * season);
+    const firstMean = first.reduce((a, b) => a + b, 0) / season;
+    const secondMean = second.reduce((a, b) => a + b, 0) / season;
+    level = firstMean;
+    trend = (secondMean - firstMean) / season;
+    first.forEach((y, i) => { seasonals[i] = y - firstMean; });
+  } else {
+    level = values[0];
+    trend = values.length > 1 ? values[1] - values[0] : 0;
+  }
+
+  const start = season > 0 ? season : 1;
+  let sse = 0;
+  for (let t = start; t < values.length; t++) {
+    const s = season > 0 ? seasonals[t % season] : 0;
+    const predicted = level + trend + s;
+    sse += (values[t] - predicted) ** 2;
+
+    const prevLevel = level;
+    level = alpha * (values[t] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (level - prevLevel) + (1 - beta) * trend;
+    if (season > 0) seasonals[t % season] = gamma * (values[t] - level) + (1 - gamma) * s;
+  }
+
+  return { sse, steps: values.length - start, level, trend, seasonals };
+};
+
+const GRID = [0.1, 0.3, 0.5, 0.7, 0.9];
+
+// Picks smoothing parameters by grid search on one-step error, so results are deterministic
+const holtWintersForecast = (values: number[], horizon: number): ForecastResult => {
+  const season = values.length >= 2 * SEASON_LENGTH ? SEASON_LENGTH : 0;
+  const gammas = season > 0 ? GRID : [0];
+
+  let fit = fitHoltWinters(values, GRID[0], GRID[0], gammas[0], season);
+  for (const alpha of GRID) {
+    for (const beta of GRID) {
+      for (const gamma of gammas) {
+        const candidate = fitHoltWinters(values, alpha, beta, gamma, season);
+        if (candidate.sse < fit.sse) fit = candidate;
+      }
+    }
+  }
+
+  const sigma = fit.steps > 0 ? Math.sqrt(fit.sse / fit.steps) : 0;
+  const n = values.length;
+  const point: number[] = [];
+  const lower: number[] = [];
+  const upper: number[] = [];
+  for (let h = 1; h <= horizon; h++) {
+    const s = season > 0 ? fit.seasonals[(n + h - 1) % season] : 0;
+    const y = fit.level + h * fit.trend + s;
+    // Error grows roughly with the square root of the horizon
+    const se = sigma * Math.sqrt(h);
+    point.push(y);
+    lower.push(y - Z_95 * se);
+    upper.push(y + Z_95 * se);
+  }
+  return { point, lower, upper, model: season > 0 ? 'Holt-Winters (seasonal)' : 'Holt (no seasonality, < 24 months)' };
+};
+
+// Minimum history before any model is fitted
+export const MIN_FORECAST_POINTS = 3;
+
+export const forecastSeries = (values: number[], horizon: number, model: ForecastModel): ForecastResult | null => {
+  if (model === 'none' || values.length < MIN_FORECAST_POINTS || horizon < 1) return null;
+  return model === 'linear' ? linearForecast(values, horizon) : holtWintersForecast(values, horizon);
+};
+
+// Fits on all but the last `holdout` points and scores the forecast against them
+export const backtestSeries = (values: number[], model: ForecastModel, maxHoldout = 6): BacktestResult | null => {
+  const holdout = Math.min(maxHoldout, Math.floor(values.length / 4));
+  if (model === 'none' || holdout < 1 || values.length - holdout < MIN_FORECAST_POINTS) return null;
+
+  const train = values.slice(0, values.length - holdout);
+  const actual = values.slice(values.length - holdout);
+  const result = forecastSeries(train, holdout, model);
+  if (!result) return null;
+
+  let absError = 0;
+  let pctError = 0;
+  let pctCount = 0;
+  actual.forEach((y, i) => {
+    const err = Math.abs(y - result.point[i]);
+    absError += err;
+    if (y !== 0) {
+      pctError += err / Math.abs(y);
+      pctCount++;
+    }
+  });
+
+  return {
+    mape: pctCount > 0 ? (pctError / pctCount) * 100 : null,
+    mae: absError / holdout,
+    holdout
+  };
+};
@@ -0,0 +1,114 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { computeAnalytics } from './analytics';
+import { resolveColumnKeys } from './columnMapping';
+import { parseSpreadsheet } from './dataSources/fileSource';
+import { DEFAULT_FISCAL_CALENDAR } from './fiscalCalendar';
+import { AccumulatorConfig, createAnalyticsAccumulator } from './incrementalAnalytics';
+import { applyRowChange, applyRowChanges } from './rowReconciler';
+import { DataRow, RowChange } from '../types';
+
+const { rows } = parseSpreadsheet(readFileSync(new URL('../fixtures/orders.csv', import.meta.url)), 'orders.csv');
+const keys = resolveColumnKeys(rows[0], {});
+const now = new Date(2025, 5, 30, 23, 59, 59, 999);
+const dateRange = { preset: 'ytd', comparison: 'none' } as const;
+
+const config = (primaryKey: string | null): AccumulatorConfig => ({
+  keys,
+  primaryKey,
+  dateRange,
+  drill: {},
+  calendar: DEFAULT_FISCAL_CALENDAR,
+  now,
+  scopedDepartment: null,
+  reportingCurrency: 'USD',
+  fxRates: [],
+  gridFilter: null,
+  alertRules: [],
+  widgets: []
+});
+
+// The figures a full recompute over the same rows shows
+const expected = (current: DataRow[]) => {
+  const result = computeAnalytics(current, keys, { dateRange, now });
+  return { totals: result.totals, months: result.monthlyChartData, departments: result.deptChartData, top: result.topOrders.map(row => row.id) };
+};
+
+const accumulated = (initial: DataRow[], changes: RowChange[], primaryKey: string | null = 'id') => {
+  const accumulator = createAnalyticsAccumulator(config(primaryKey));
+  accumulator.reset(initial);
+  changes.forEach(change => accumulator.apply(change));
+  const snapshot = accumulator.snapshot();
+  return { totals: snapshot.totals, months: snapshot.monthlyChartData, departments: snapshot.deptChartData, top: snapshot.topOrders.map(row => row.id) };
+};
+
+const row = (id: number, date: string, department: string, revenue: number, expenses: number): DataRow =>
+  ({ id, date, department, revenue, expenses });
+
+const changes: RowChange[] = [
+  { eventType: 'UPDATE', new: row(5, '2025-03-10', 'Engineering', 500, 100), old: { id: 5 } },
+  { eventType: 'DELETE', new: {}, old: { id: 2 } },
+  { eventType: 'INSERT', new: row(9, '2025-04-02', 'Marketing', 700, 200), old: {} },
+  { eventType: 'UPDATE', new: row(9, '2025-04-02', 'Marketing', 900, 200), old: {} }
+];
+
+describe('createAnalyticsAccumulator', () => {
+  it('matches a full recompute after realtime changes', () => {
+    expect(accumulated(rows, [])).toEqual(expected(rows));
+    expect(accumulated(rows, changes)).toEqual(expected(applyRowChanges(rows, changes, 'id', 'date')));
+  });
+
+  it('keeps every row sharing a primary key value and takes them out together', () => {
+    const duplicated = [...rows, row(3, '2025-02-20', 'Sales', 400, 100)];
+    expect(accumulated(duplicated, [])).toEqual(expected(duplicated));
+    const update: RowChange[] = [{ eventType: 'UPDATE', new: row(3, '2025-02-20', 'Sales', 600, 100), old: { id: 3 } }];
+    expect(accumulated(duplicated, update)).toEqual(expected(applyRowChanges(duplicated, update, 'id', 'date')));
+  });
+
+  it('keeps widgets, alerts, anomalies and grid columns in step with a fresh reset', () => {
+    const extras: Partial<AccumulatorConfig> = {
+      widgets: [
+        { id: 'max', chart: { xAxisKey: '$department', dataKeys: ['$revenue'], aggregation: 'max' } },
+        { id: 'avg', chart: { xAxisKey: '$month', dataKeys: ['$revenue', '$expenses'], aggregation: 'avg' } }
+      ],
+      alertRules: [{
+        id: 'growth', name: 'Growth', kind: 'monthly-growth', measure: '$revenue', comparator: 'above',
+        threshold: 10, perDepartment: true, enabled: true, notify: false
+      }]
+    };
+    // Takes out the largest Engineering row and adds a category to the department column
+    const edits: RowChange[] = [
+      ...changes,
+      { eventType: 'UPDATE', new: row(5, '2025-03-10', 'Engineering', 50, 100), old: { id: 5 } },
+      { eventType: 'INSERT', new: row(10, '2025-05-02', 'Support', 300, 50), old: {} }
+    ];
+    const incremental = createAnalyticsAccumulator({ ...config('id'), ...extras });
+    incremental.reset(rows);
+    incremental.snapshot();
+    edits.forEach(change => incremental.apply(change));
+    const fresh = createAnalyticsAccumulator({ ...config('id'), ...extras });
+    fresh.reset(applyRowChanges(rows, edits, 'id', 'date'));
+
+    const parts = (snapshot: ReturnType<typeof fresh.snapshot>) => ({
+      anomalies: [...snapshot.anomalies].sort((a, b) => a.reason.localeCompare(b.reason)),
+      alerts: snapshot.alerts,
+      widgets: snapshot.widgets,
+      gridColumns: snapshot.gridColumns
+    });
+    expect(parts(incremental.snapshot())).toEqual(parts(fresh.snapshot()));
+  });
+
+  it('refuses changes it cannot match to a row', () => {
+    const accumulator = createAnalyticsAccumulator(config(null));
+    accumulator.reset(rows);
+    expect(accumulator.apply({ eventType: 'INSERT', new: row(9, '2025-04-02', 'Marketing', 700, 200), old: {} })).toBe(true);
+    expect(accumulator.apply({ eventType: 'UPDATE', new: row(5, '2025-03-10', 'Engineering', 500, 100), old: {} })).toBe(false);
+  });
+});
+
+describe('applyRowChanges', () => {
+  it('gives the same rows as applying the changes one by one', () => {
+    const oneByOne = changes.reduce((current, change) => applyRowChange(current, change, 'id', 'date'), rows);
+    expect(applyRowChanges(rows, changes, 'id', 'date')).toEqual(oneByOne);
+  });
+});
@@ -0,0 +1,446 @@
+import { AlertRule, Anomaly, ChartConfig, ColumnKeys, DataRow, DateRangeFilter, DrillFilter, FiscalCalendar, FxRate, GridState, RowChange } from '../types';
+import { readDept } from './columnMapping';
+import { ResolvedRange, isInRange } from './dateRange';
+import { createFxConverter, createMoneyFormatter, convertRow } from './currency';
+import { GridColumn, createGridFilter, formatGridCell, inferGridColumns } from './dataGrid';
+import { identityOf, matchesIdentity } from './rowReconciler';
+import { AnomalyItem, createAnomalyChecks } from './anomalyDetection';
+import { AggregateRuleAccumulator, AlertMatch, createAggregateRuleAccumulator } from './alerts';
+import { WidgetAccumulator, WidgetData, createWidgetAccumulator } from './widgets';
+import {
+  AnalyticsResult, DepartmentTotals, MonthTotals, RowFigures, TOP_ORDER_COUNT,
+  addTotals, monthLabelFor, readRowFigures, resolveAnalyticsRanges, summarizeDepartments, summarizeMonths, summarizeTotals
+} from './analytics';
+
+// Everything the accumulator needs to turn raw rows into chart rows. Plain data,
+// so it can be posted to a worker.
+export interface AccumulatorConfig {
+  keys: ColumnKeys;
+  // Column identifying rows across changes; without one, only inserts apply incrementally
+  primaryKey: string | null;
+  dateRange: DateRangeFilter;
+  drill: DrillFilter;
+  calendar: FiscalCalendar;
+  // Reference time for MTD, QTD and YTD
+  now: Date;
+  // Department heads only see their own department
+  scopedDepartment: string | null;
+  reportingCurrency: string;
+  fxRates: FxRate[];
+  // Grid search and filters, when they drive the charts
+  gridFilter: Pick<GridState, 'search' | 'filters'> | null;
+  // Month-on-month rules, checked against every row in scope
+  alertRules: AlertRule[];
+  // User-configured widgets, aggregated over the rows behind the charts
+  widgets: { id: string; chart: ChartConfig }[];
+}
+
+// Aggregates without the rows behind them, small enough to post on every update
+export type AnalyticsSnapshot = Omit<AnalyticsResult, 'scopeRows' | 'budgetVariance' | 'keys'> & {
+  // The range the in-range figures cover, for picking out the rows behind them
+  range: ResolvedRange | null;
+  // Flagged rows among the rows behind the charts
+  anomalies: Anomaly[];
+  // Month-on-month rule matches over every row in scope
+  alerts: AlertMatch[];
+  // Figures of each user-configured widget, by widget id
+  widgets: Record<string, WidgetData>;
+  // Data grid columns inferred from every row in scope
+  gridColumns: GridColumn[];
+};
+
+// Parts rebuilt only when their inputs change. A worker update leaves out those
+// unchanged since its previous update; mergeSnapshot puts them back.
+const KEPT_PARTS = ['anomalies', 'alerts', 'widgets', 'gridColumns'] as const;
+type KeptPart = typeof KEPT_PARTS[number];
+export type AnalyticsSnapshotUpdate = Omit<AnalyticsSnapshot, KeptPart> & Partial<Pick<AnalyticsSnapshot, KeptPart>>;
+
+export const diffSnapshot = (next: AnalyticsSnapshot, previous: AnalyticsSnapshot | null): AnalyticsSnapshotUpdate => {
+  if (!previous) return next;
+  const update: AnalyticsSnapshotUpdate = { ...next };
+  KEPT_PARTS.forEach(part => { if (next[part] === previous[part]) delete update[part]; });
+  return update;
+};
+
+// Null when the update leaves out parts there is no previous snapshot for
+export const mergeSnapshot = (previous: AnalyticsSnapshot | null, update: AnalyticsSnapshotUpdate): AnalyticsSnapshot | null => {
+  const merged = { ...previous, ...update };
+  return KEPT_PARTS.every(part => merged[part] !== undefined) ? merged as AnalyticsSnapshot : null;
+};
+
+export type AnalyticsWorkerRequest =
+  | { type: 'reset'; generation: number; config: AccumulatorConfig; rows: DataRow[] }
+  | { type: 'changes'; generation: number; changes: RowChange[] };
+
+export type AnalyticsWorkerResponse =
+  | { type: 'snapshot'; generation: number; snapshot: AnalyticsSnapshotUpdate }
+  // A change could not be matched to a row; the rows have to be sent again
+  | { type: 'stale'; generation: number }
+  | { type: 'error'; generation: number; message: string };
+
+interface Entry {
+  // The row as received, matched against the identity of later changes
+  raw: DataRow;
+  // In the reporting currency
+  row: DataRow;
+  figures: RowFigures;
+  // Passes the drill-down department and the grid filters that drive the charts
+  charted: boolean;
+  inRange: boolean;
+  inPrior: boolean;
+  // Arrival order; breaks ties between equally profitable rows like a stable sort would
+  seq: number;
+  // Position in the top-orders heap, -1 when not in it
+  heapIndex: number;
+}
+
+// --- Top orders ---
+
+const ranksBefore = (a: Entry, b: Entry) =>
+  a.figures.profit > b.figures.profit || (a.figures.profit === b.figures.profit && a.seq < b.seq);
+
+// Max-heap of every in-range row by profit, indexed so any row can be removed
+// in O(log n) when it is updated or deleted
+const createTopHeap = () => {
+  const items: Entry[] = [];
+
+  const place = (entry: Entry, index: number) => {
+    items[index] = entry;
+    entry.heapIndex = index;
+  };
+
+  const siftUp = (index: number) => {
+    const entry = items[index];
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (!ranksBefore(entry, items[parent])) break;
+      place(items[parent], index);
+      index = parent;
+    }
+    place(entry, index);
+  };
+
+  const siftDown = (index: number) => {
+    const entry = items[index];
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let best = left;
+      if (left >= items.length) break;
+      if (right < items.length && ranksBefore(items[right], items[left])) best = right;
+      if (!ranksBefore(items[best], entry)) break;
+      place(items[best], index);
+      index = best;
+    }
+    place(entry, index);
+  };
+
+  return {
+    clear: () => { items.length = 0; },
+    push: (entry: Entry) => {
+      place(entry, items.length);
+      siftUp(entry.heapIndex);
+    },
+    remove: (entry: Entry) => {
+      const index = entry.heapIndex;
+      if (index < 0) return;
+      const last = items.pop() as Entry;
+      entry.heapIndex = -1;
+      if (last === entry) return;
+      place(last, index);
+      siftDown(index);
+      siftUp(last.heapIndex);
+    },
+    // Best n without disturbing the heap: walks the candidate frontier in rank order
+    top: (n: number): Entry[] => {
+      const out: Entry[] = [];
+      const frontier: number[] = items.length > 0 ? [0] : [];
+      while (out.length < n && frontier.length > 0) {
+        let pick = 0;
+        for (let i = 1; i < frontier.length; i++) {
+          if (ranksBefore(items[frontier[i]], items[frontier[pick]])) pick = i;
+        }
+        const [index] = frontier.splice(pick, 1);
+        out.push(items[index]);
+        [index * 2 + 1, index * 2 + 2].forEach(child => { if (child < items.length) frontier.push(child); });
+      }
+      return out;
+    }
+  };
+};
+
+// --- Accumulator ---
+
+export interface AnalyticsAccumulator {
+  reset: (rows: DataRow[]) => void;
+  // False when the change cannot be matched to a row (no primary key); reset instead
+  apply: (change: RowChange) => boolean;
+  snapshot: () => AnalyticsSnapshot;
+}
+
+// Keeps monthly and department totals and the top orders up to date one row at
+// a time: O(1) per row for the totals and O(log n) for the top orders. The
+// snapshot matches computeAnalytics over the same rows. Widgets and month-on-month
+// rules keep their own totals; anomaly checks rerun only for the departments and
+// order IDs a change touched, and grid columns are inferred again only when a row
+// brings a column or category they do not list.
+export const createAnalyticsAccumulator = (config: AccumulatorConfig): AnalyticsAccumulator => {
+  const { keys, primaryKey, dateRange, drill, calendar } = config;
+  const { range, priorRange } = resolveAnalyticsRanges(dateRange, drill, calendar, config.now);
+  const converter = createFxConverter(config.fxRates, config.reportingCurrency);
+  const money = createMoneyFormatter(config.reportingCurrency);
+  const scope = config.scopedDepartment?.trim().toLowerCase() ?? null;
+  const gridTest = config.gridFilter ? createGridFilter(config.gridFilter, calendar.timeZone) : null;
+  const checks = createAnomalyChecks({ keys, primaryKey, formatAmount: money.format });
+
+  // Every row in scope, grouped by primary key value; a key that is not unique
+  // holds several rows, and rows without one get a key of their own
+  const entries = new Map<string, Entry[]>();
+  let size = 0;
+  const monthly = new Map<number, MonthTotals>();
+  const departments = new Map<string, DepartmentTotals>();
+  const priorDepartments = new Map<string, DepartmentTotals>();
+  // Rows per group, so groups disappear with their last row as they would in a full recompute
+  const counts = new Map<string, number>();
+  const totals = { revenue: 0, profit: 0 };
+  const priorTotals = { revenue: 0, profit: 0 };
+  const heap = createTopHeap();
+  let seq = 0;
+
+  let widgets: { id: string; accumulator: WidgetAccumulator }[] = [];
+  let growth: AggregateRuleAccumulator = createAggregateRuleAccumulator([], keys, calendar, config.now);
+  // Charted rows in range, grouped the way the anomaly checks compare them
+  const byDept = new Map<string, Set<Entry>>();
+  const byOrderId = new Map<string, Set<Entry>>();
+  const dirtyDepts = new Set<string>();
+  const dirtyOrderIds = new Set<string>();
+  const outliers = new Map<string, Anomaly[]>();
+  const duplicates = new Map<string, Anomaly>();
+  // Checks of single rows, for the rows they flag
+  const rowFlags = new Map<Entry, { margin: Anomaly | null; posting: Anomaly | null }>();
+
+  // Parts of the snapshot, null until rebuilt after a change to their inputs
+  let widgetResults: Record<string, WidgetData> | null = null;
+  let anomalies: Anomaly[] | null = null;
+  let alerts: AlertMatch[] | null = null;
+  let gridColumns: GridColumn[] | null = null;
+  // What the grid columns were inferred from
+  let gridRowCount = 0;
+  let gridKeys = new Set<string>();
+  let gridOptions = new Map<string, Set<string>>();
+
+  const idOf = (row: DataRow | null | undefined): string | null => {
+    if (!row || !primaryKey) return null;
+    const value = row[primaryKey];
+    return value === null || value === undefined ? null : String(value);
+  };
+
+  // Department scope and currency conversion, as the dashboard applies them
+  const prepare = (raw: DataRow): DataRow | null => {
+    if (scope !== null && readDept(raw, keys.deptKey).trim().toLowerCase() !== scope) return null;
+    // Null without a rate for its currency, so it stays out of the totals
+    return convertRow(raw, keys, converter, config.reportingCurrency).row;
+  };
+
+  const track = <K, T extends { revenue: number; expenses: number; profit: number }>(
+    groups: Map<K, T>, kind: string, key: K, create: () => T, figures: RowFigures, sign: 1 | -1
+  ) => {
+    addTotals(groups, key, create, figures, sign);
+    const countKey = `${kind}:${key}`;
+    const count = (counts.get(countKey) ?? 0) + sign;
+    if (count > 0) {
+      counts.set(countKey, count);
+    } else {
+      counts.delete(countKey);
+      groups.delete(key);
+    }
+  };
+
+  const member = (groups: Map<string, Set<Entry>>, key: string, entry: Entry, sign: 1 | -1) => {
+    const group = groups.get(key) ?? new Set<Entry>();
+    if (sign > 0) group.add(entry);
+    else group.delete(entry);
+    if (group.size > 0) groups.set(key, group);
+    else groups.delete(key);
+  };
+
+  const itemOf = (entry: Entry): AnomalyItem => ({ row: entry.row, index: entry.seq });
+
+  // Inputs of the anomaly checks: charted rows in range
+  const trackAnomalyInputs = (entry: Entry, sign: 1 | -1) => {
+    anomalies = null;
+    member(byDept, entry.figures.dept, entry, sign);
+    dirtyDepts.add(entry.figures.dept);
+    const orderId = checks.orderId(entry.row);
+    if (orderId !== null) {
+      member(byOrderId, orderId, entry, sign);
+      dirtyOrderIds.add(orderId);
+    }
+    if (sign < 0) {
+      rowFlags.delete(entry);
+      return;
+    }
+    const margin = checks.negativeMargin(itemOf(entry));
+    const posting = checks.postingTime(itemOf(entry));
+    if (margin || posting) rowFlags.set(entry, { margin, posting });
+  };
+
+  // A row with a column or category the grid columns do not list, or twice the
+  // rows they were inferred from, has them inferred again
+  const widensGrid = (row: DataRow) =>
+    size > gridRowCount * 2
+    || Object.keys(row).some(key => !gridKeys.has(key))
+    || [...gridOptions].some(([key, options]) => !options.has(formatGridCell(row[key])));
+
+  const account = (entry: Entry, sign: 1 | -1) => {
+    size += sign;
+    if (sign > 0) growth.add(entry.row);
+    else growth.remove(entry.row);
+    alerts = null;
+    if (sign > 0 && gridColumns && widensGrid(entry.row)) gridColumns = null;
+
+    if (!entry.charted) return;
+    const f = entry.figures;
+    track(monthly, 'm', f.sortKey, () => ({ month: monthLabelFor(f.sortKey, calendar), revenue: 0, expenses: 0, profit: 0, sortKey: f.sortKey }), f, sign);
+    if (entry.inRange) {
+      track(departments, 'd', f.dept, () => ({ name: f.dept, revenue: 0, expenses: 0, profit: 0 }), f, sign);
+      totals.revenue += sign * f.revenue;
+      totals.profit += sign * f.profit;
+      if (sign > 0) heap.push(entry);
+      else heap.remove(entry);
+      widgets.forEach(({ accumulator }) => (sign > 0 ? accumulator.add(entry.row) : accumulator.remove(entry.row)));
+      widgetResults = null;
+      trackAnomalyInputs(entry, sign);
+    }
+    if (entry.inPrior) {
+      track(priorDepartments, 'p', f.dept, () => ({ name: f.dept, revenue: 0, expenses: 0, profit: 0 }), f, sign);
+      priorTotals.revenue += sign * f.revenue;
+      priorTotals.profit += sign * f.profit;
+    }
+  };
+
+  const add = (raw: DataRow) => {
+    const row = prepare(raw);
+    if (!row) return;
+    const figures = readRowFigures(row, keys, calendar);
+
+    const entry: Entry = {
+      raw,
+      row,
+      figures,
+      // Department drill-down scopes every aggregate, monthly series included
+      charted: (drill.department === undefined || figures.dept === drill.department) && (!gridTest || gridTest(row)),
+      inRange: isInRange(figures.date, range),
+      inPrior: !!priorRange && isInRange(figures.date, priorRange),
+      seq: seq++,
+      heapIndex: -1
+    };
+    // Rows without an id can never be matched again, so any unique key will do
+    const id = idOf(raw) ?? `#${entry.seq}`;
+    const group = entries.get(id);
+    if (group) group.push(entry);
+    else entries.set(id, [entry]);
+    account(entry, 1);
+  };
+
+  // Takes out every row matching a change's identity, like applyRowChange does
+  const remove = (identity: DataRow) => {
+    const id = idOf(identity);
+    const groups = id !== null ? [id] : [...entries.keys()];
+    groups.forEach(key => {
+      const group = entries.get(key);
+      if (!group) return;
+      const kept = group.filter(entry => {
+        if (!matchesIdentity(entry.raw, identity)) return true;
+        account(entry, -1);
+        return false;
+      });
+      if (kept.length > 0) entries.set(key, kept);
+      else entries.delete(key);
+    });
+  };
+
+  const reset = (rows: DataRow[]) => {
+    entries.clear();
+    monthly.clear();
+    departments.clear();
+    priorDepartments.clear();
+    counts.clear();
+    heap.clear();
+    totals.revenue = totals.profit = 0;
+    priorTotals.revenue = priorTotals.profit = 0;
+    seq = 0;
+    size = 0;
+    widgets = config.widgets.map(w => ({ id: w.id, accumulator: createWidgetAccumulator(w.chart, keys, calendar) }));
+    growth = createAggregateRuleAccumulator(config.alertRules, keys, calendar, config.now);
+    [byDept, byOrderId, dirtyDepts, dirtyOrderIds, outliers, duplicates, rowFlags].forEach(collection => collection.clear());
+    widgetResults = anomalies = alerts = gridColumns = null;
+    rows.forEach(add);
+  };
+
+  // Inserts of a known id replace the row, so replaying a change is harmless
+  const apply = (change: RowChange): boolean => {
+    const identity = identityOf(change, primaryKey);
+    if (identity) remove(identity);
+    else if (change.eventType !== 'INSERT') return false;
+    if (change.eventType !== 'DELETE') add(change.new);
+    return true;
+  };
+
+  const currentAnomalies = (): Anomaly[] => {
+    if (anomalies) return anomalies;
+    dirtyDepts.forEach(dept => {
+      const group = byDept.get(dept);
+      if (group) outliers.set(dept, checks.outliers(dept, [...group].map(itemOf)));
+      else outliers.delete(dept);
+    });
+    dirtyOrderIds.forEach(orderId => {
+      const group = byOrderId.get(orderId);
+      const flagged = group ? checks.duplicates(orderId, [...group].map(itemOf)) : null;
+      if (flagged) duplicates.set(orderId, flagged);
+      else duplicates.delete(orderId);
+    });
+    dirtyDepts.clear();
+    dirtyOrderIds.clear();
+    const flags = [...rowFlags.values()];
+    anomalies = [
+      ...[...outliers.values()].flat(),
+      ...flags.flatMap(f => (f.margin ? [f.margin] : [])),
+      ...duplicates.values(),
+      ...flags.flatMap(f => (f.posting ? [f.posting] : []))
+    ];
+    return anomalies;
+  };
+
+  const currentGridColumns = (): GridColumn[] => {
+    if (gridColumns) return gridColumns;
+    const rows: DataRow[] = [];
+    entries.forEach(group => group.forEach(entry => rows.push(entry.row)));
+    gridColumns = inferGridColumns(rows);
+    gridRowCount = rows.length;
+    gridKeys = new Set(gridColumns.map(column => column.key));
+    gridOptions = new Map(gridColumns.filter(column => column.kind === 'enum').map(column => [column.key, new Set(column.options)]));
+    return gridColumns;
+  };
+
+  const snapshot = (): AnalyticsSnapshot => {
+    // Copies, so later updates do not change a snapshot already handed out
+    const months = new Map([...monthly].map(([key, m]) => [key, { ...m }]));
+    if (!widgetResults) widgetResults = Object.fromEntries(widgets.map(({ id, accumulator }) => [id, accumulator.result()]));
+    if (!alerts) alerts = growth.evaluate(money.format);
+    return {
+      ...summarizeMonths(months, range, dateRange.comparison, calendar),
+      ...summarizeDepartments(departments, priorRange ? priorDepartments : null),
+      topOrders: heap.top(TOP_ORDER_COUNT).map(entry => ({ ...entry.row, _derivedProfit: entry.figures.profit })),
+      totals: summarizeTotals(totals, priorRange ? priorTotals : null),
+      hasComparison: dateRange.comparison !== 'none',
+      range,
+      anomalies: currentAnomalies(),
+      alerts,
+      widgets: widgetResults,
+      gridColumns: currentGridColumns()
+    };
+  };
+
+  return { reset, apply, snapshot };
+};
@@ -0,0 +1,234 @@
+import { BudgetVariance, ColumnKeys, DataRow, InsightDigest } from '../types';
+import { COLUMN_ROLES, readDate, readDept, readNumber, readProfit } from './columnMapping';
+
+// Rough prompt size limit; at ~4 characters per token this is about 12 KB of text
+export const DEFAULT_TOKEN_BUDGET = 3000;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const OUTLIER_COUNT = 5;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const toDay = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const quantile = (sorted: number[], q: number) => {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * q;
+  const base = Math.floor(pos);
+  const rest = pos - base;
+  return sorted[base + 1] !== undefined ? sorted[base] + rest * (sorted[base + 1] - sorted[base]) : sorted[base];
+};
+
+const describeDistribution = (measure: string, values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const n = sorted.length;
+  const mean = n > 0 ? sorted.reduce((acc, v) => acc + v, 0) / n : 0;
+  const variance = n > 1 ? sorted.reduce((acc, v) => acc + (v - mean) ** 2, 0) / (n - 1) : 0;
+  return {
+    measure,
+    mean: round(mean),
+    median: round(quantile(sorted, 0.5)),
+    stdDev: round(Math.sqrt(variance)),
+    min: round(n > 0 ? sorted[0] : 0),
+    max: round(n > 0 ? sorted[n - 1] : 0),
+    p5: round(quantile(sorted, 0.05)),
+    p95: round(quantile(sorted, 0.95))
+  };
+};
+
+// Aggregates every row into the figures the insights prompt is built from
+export const buildInsightDigest = (
+  tableName: string,
+  rows: DataRow[],
+  keys: ColumnKeys,
+  budget: BudgetVariance[] = []
+): InsightDigest => {
+  const monthly = new Map<number, InsightDigest['monthly'][number]>();
+  const departments = new Map<string, InsightDigest['departments'][number]>();
+  const revenues: number[] = [];
+  const expenses: number[] = [];
+  const profits: number[] = [];
+  const orders: { row: DataRow; index: number; revenue: number; profit: number }[] = [];
+  const totals = { revenue: 0, expenses: 0, profit: 0 };
+  let min: Date | null = null;
+  let max: Date | null = null;
+
+  rows.forEach((row, index) => {
+    const revenue = readNumber(row, keys.revKey);
+    const expense = readNumber(row, keys.expKey);
+    const profit = readProfit(row, keys);
+    const dept = readDept(row, keys.deptKey);
+    const d = readDate(row, keys.dateKey);
+
+    totals.revenue += revenue;
+    totals.expenses += expense;
+    totals.profit += profit;
+    revenues.push(revenue);
+    expenses.push(expense);
+    profits.push(profit);
+    orders.push({ row, index, revenue, profit });
+
+    if (d) {
+      if (!min || d < min) min = d;
+      if (!max || d > max) max = d;
+      const sortKey = d.getFullYear() * 100 + d.getMonth();
+      const month = monthly.get(sortKey) ?? { month: toDay(d).slice(0, 7), revenue: 0, expenses: 0, profit: 0, orders: 0 };
+      month.revenue += revenue;
+      month.expenses += expense;
+      month.profit += profit;
+      month.orders += 1;
+      monthly.set(sortKey, month);
+    }
+
+    const group = departments.get(dept) ?? { name: dept, revenue: 0, expenses: 0, profit: 0, margin: null, orders: 0 };
+    group.revenue += revenue;
+    group.expenses += expense;
+    group.profit += profit;
+    group.orders += 1;
+    departments.set(dept, group);
+  });
+
+  // Most profitable first, then the most negative, without repeating a row
+  const byProfit = [...orders].sort((a, b) => b.profit - a.profit);
+  const picked = [...byProfit.slice(0, OUTLIER_COUNT), ...byProfit.slice(-OUTLIER_COUNT).reverse().filter(o => o.profit < 0)];
+  const outliers = [...new Set(picked)].map(o => {
+    const d = readDate(o.row, keys.dateKey);
+    return {
+      id: keys.idKey && o.row[keys.idKey] !== undefined ? String(o.row[keys.idKey]) : `#${o.index + 1}`,
+      department: readDept(o.row, keys.deptKey),
+      date: d ? toDay(d) : null,
+      revenue: round(o.revenue),
+      profit: round(o.profit)
+    };
+  });
+
+  return {
+    tableName,
+    rowCount: rows.length,
+    dateRange: min && max ? { from: toDay(min), to: toDay(max) } : null,
+    columns: COLUMN_ROLES.map(def => ({
+      role: def.label,
+      column: def.role === 'profit' && !keys.profitKey && keys.revKey ? 'derived as revenue - expenses' : keys[def.key]
+    })),
+    totals: {
+      revenue: round(totals.revenue),
+      expenses: round(totals.expenses),
+      profit: round(totals.profit),
+      margin: totals.revenue !== 0 ? round((totals.profit / totals.revenue) * 100) : null
+    },
+    stats: [
+      ...(keys.revKey ? [describeDistribution('revenue', revenues)] : []),
+      ...(keys.expKey ? [describeDistribution('expenses', expenses)] : []),
+      describeDistribution('profit', profits)
+    ],
+    monthly: [...monthly.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, m]) => ({ ...m, revenue: round(m.revenue), expenses: round(m.expenses), profit: round(m.profit) })),
+    departments: [...departments.values()]
+      .sort((a, b) => b.revenue - a.revenue)
+      .map(d => ({
+        ...d,
+        revenue: round(d.revenue),
+        expenses: round(d.expenses),
+        profit: round(d.profit),
+        margin: d.revenue !== 0 ? round((d.profit / d.revenue) * 100) : null
+      })),
+    outliers,
+    budget
+  };
+};
+
+// --- Prompt ---
+
+const pct = (n: number | null) => (n === null ? 'n/a' : `${n.toFixed(1)}%`);
+
+interface DigestLimits {
+  months: number;
+  departments: number;
+  outliers: number;
+  budget: number;
+}
+
+// Tried in order until the prompt fits the budget; the last one always wins
+const LIMIT_STEPS: DigestLimits[] = [
+  { months: Infinity, departments: Infinity, outliers: Infinity, budget: Infinity },
+  { months: 24, departments: 20, outliers: 10, budget: 20 },
+  { months: 12, departments: 10, outliers: 6, budget: 10 },
+  { months: 6, departments: 5, outliers: 3, budget: 5 },
+  { months: 3, departments: 3, outliers: 0, budget: 0 },
+];
+
+const renderDigest = (digest: InsightDigest, limits: DigestLimits): string => {
+  const lines: string[] = [];
+  const { totals } = digest;
+
+  lines.push(`Table "${digest.tableName}": ${digest.rowCount} rows` +
+    (digest.dateRange ? ` from ${digest.dateRange.from} to ${digest.dateRange.to}` : '') + '.');
+  lines.push('Column roles:');
+  digest.columns.forEach(c => lines.push(`- ${c.role}: ${c.column ?? 'not available'}`));
+  lines.push(`Totals: revenue ${totals.revenue}, expenses ${totals.expenses}, profit ${totals.profit}, margin ${pct(totals.margin)}.`);
+
+  lines.push('Per-order distribution (mean, median, std dev, min, p5, p95, max):');
+  digest.stats.forEach(s => lines.push(`- ${s.measure}: ${s.mean}, ${s.median}, ${s.stdDev}, ${s.min}, ${s.p5}, ${s.p95}, ${s.max}`));
+
+  if (digest.monthly.length > 0) {
+    const shown = digest.monthly.slice(-limits.months);
+    lines.push(`Monthly (month, revenue, expenses, profit, orders)${shown.length < digest.monthly.length ? `, last ${shown.length} of ${digest.monthly.length} months` : ''}:`);
+    shown.forEach(m => lines.push(`- ${m.month}, ${m.revenue}, ${m.expenses}, ${m.profit}, ${m.orders}`));
+  }
+
+  if (digest.departments.length > 0) {
+    const shown = digest.departments.slice(0, limits.departments);
+    lines.push(`Departments by revenue (name, revenue, expenses, profit, margin, orders)${shown.length < digest.departments.length ? `, top ${shown.length} of ${digest.departments.length}` : ''}:`);
+    shown.forEach(d => lines.push(`- ${d.name}, ${d.revenue}, ${d.expenses}, ${d.profit}, ${pct(d.margin)}, ${d.orders}`));
+  }
+
+  const outliers = digest.outliers.slice(0, limits.outliers);
+  if (outliers.length > 0) {
+    lines.push('Notable orders by profit (id, department, date, revenue, profit):');
+    outliers.forEach(o => lines.push(`- ${o.id}, ${o.department}, ${o.date ?? 'undated'}, ${o.revenue}, ${o.profit}`));
+  }
+
+  // Largest variances first, so trimming keeps the ones that matter
+  const budget = [...digest.budget]
+    .sort((a, b) => Math.abs(b.revenueVariance ?? 0) + Math.abs(b.expensesVariance ?? 0) - Math.abs(a.revenueVariance ?? 0) - Math.abs(a.expensesVariance ?? 0))
+    .slice(0, limits.budget);
+  if (budget.length > 0) {
+    lines.push('Budget vs. actual for the selected period (positive expense variance is overspend):');
+    budget.forEach(v => {
+      const parts = [`- ${v.department}:`];
+      if (v.revenueBudget !== null) parts.push(`revenue ${round(v.revenueActual)} vs budget ${round(v.revenueBudget)} (${pct(v.revenueVariancePct)})`);
+      if (v.expensesBudget !== null) parts.push(`expenses ${round(v.expensesActual)} vs budget ${round(v.expensesBudget)} (${pct(v.expensesVariancePct)})`);
+      lines.push(parts.join(' '));
+    });
+  }
+
+  return lines.join('\n');
+};
+
+// Full prompt for any provider, trimmed to fit the token budget
+export const buildInsightPrompt = (digest: InsightDigest, tokenBudget: number = DEFAULT_TOKEN_BUDGET): string => {
+  const hasBudget = digest.budget.length > 0;
+  const instructions = `
+You are a financial analyst. The figures below are pre-aggregated from the table; treat them as exact.
+
+Focus on:
+1. Revenue and Profit trends.
+2. Departmental performance (expenses vs revenue${hasBudget ? ', and against budget' : ''}).
+3. Significant outliers in orders.
+
+Return JSON with:
+- summary: A financial executive summary.
+- trends: List of key financial trends (e.g., "Marketing expenses up 15%").
+- anomalies: List of suspicious or notable records (e.g., "Order #123 has negative margin").
+`;
+
+  let prompt = '';
+  for (const limits of LIMIT_STEPS) {
+    prompt = `${renderDigest(digest, limits)}\n${instructions}`;
+    if (estimateTokens(prompt) <= tokenBudget) break;
+  }
+  return prompt;
+};
@@ -0,0 +1,92 @@
+import { InsightData, InsightDiff, InsightRun } from '../types';
+import { STORAGE_PREFIX } from '../constants';
+
+// Runs kept per table, newest first
+export const MAX_INSIGHT_RUNS = 20;
+
+// 53-bit string hash (cyrb53); stable across sessions, not cryptographic
+export const hashText = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+// The prompt holds every aggregate sent to the model, so it doubles as the data fingerprint
+export const insightFingerprint = (providerLabel: string, prompt: string) => hashText(`${providerLabel}\n${prompt}`);
+
+export const findCachedRun = (history: InsightRun[], fingerprint: string): InsightRun | undefined =>
+  history.find(run => run.fingerprint === fingerprint);
+
+export const recordInsightRun = (
+  history: InsightRun[],
+  fingerprint: string,
+  provider: string,
+  insights: InsightData
+): { run: InsightRun; history: InsightRun[] } => {
+  const run: InsightRun = {
+    id: `${Date.now().toString(36)}-${fingerprint.slice(0, 6)}`,
+    createdAt: new Date().toISOString(),
+    fingerprint,
+    provider,
+    insights
+  };
+  return { run, history: [run, ...history].slice(0, MAX_INSIGHT_RUNS) };
+};
+
+// Model wording drifts between runs, mostly in the figures. Items are matched
+// with numbers and punctuation stripped, so "Marketing up 12%" and
+// "Marketing up 15%" count as the same trend.
+const normalize = (item: string) =>
+  item.toLowerCase().replace(/[-+]?[\d.,]+%?/g, '#').replace(/[^\w#]+/g, ' ').trim();
+
+const difference = (items: string[], against: string[]) => {
+  const known = new Set(against.map(normalize));
+  return items.filter(item => !known.has(normalize(item)));
+};
+
+export const diffInsights = (previous: InsightData, current: InsightData): InsightDiff => ({
+  newTrends: difference(current.trends, previous.trends),
+  resolvedTrends: difference(previous.trends, current.trends),
+  newAnomalies: difference(current.anomalies, previous.anomalies),
+  resolvedAnomalies: difference(previous.anomalies, current.anomalies)
+});
+
+// --- Persistence ---
+
+// Per table and per user: runs describe the rows the user could see
+const KEY_PREFIX = `${STORAGE_PREFIX}:insights:`;
+const storageKey = (sourceId: string, userId: string | null) => `${KEY_PREFIX}${sourceId}|${userId ?? 'anon'}`;
+
+export const loadInsightHistory = (sourceId: string, userId: string | null): InsightRun[] => {
+  try {
+    const raw = localStorage.getItem(storageKey(sourceId, userId));
+    return raw ? JSON.parse(raw) as InsightRun[] : [];
+  } catch (e) {
+    console.warn(`Could not read insight history for ${sourceId}:`, e);
+    return [];
+  }
+};
+
+export const saveInsightHistory = (sourceId: string, userId: string | null, history: InsightRun[]) => {
+  try {
+    localStorage.setItem(storageKey(sourceId, userId), JSON.stringify(history));
+  } catch (e) {
+    console.warn(`Could not save insight history for ${sourceId}:`, e);
+  }
+};
+
+// Drops the stored runs of every table and user, e.g. on sign-out
+export const clearInsightHistories = () => {
+  try {
+    Object.keys(localStorage).filter(key => key.startsWith(KEY_PREFIX)).forEach(key => localStorage.removeItem(key));
+  } catch (e) {
+    console.warn("Could not clear insight history:", e);
+  }
+};
@@ -0,0 +1,81 @@
+import { Type } from '@google/genai';
+import { InsightProvider } from '../../types';
+import { getGeminiClient, GEMINI_MODEL } from '../geminiService';
+import { QUERY_OPERATORS } from '../queryEngine';
+import { AGGREGATIONS } from '../widgets';
+import { parseInsightData, parseJsonReply } from './parse';
+
+const INSIGHT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    trends: { type: Type.ARRAY, items: { type: Type.STRING } },
+    anomalies: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ['summary', 'trends', 'anomalies']
+};
+
+const QUERY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    filters: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          field: { type: Type.STRING },
+          op: { type: Type.STRING, enum: QUERY_OPERATORS },
+          values: { type: Type.ARRAY, items: { type: Type.STRING } }
+        },
+        required: ['field', 'op', 'values']
+      }
+    },
+    groupBy: { type: Type.ARRAY, items: { type: Type.STRING } },
+    measures: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          field: { type: Type.STRING },
+          aggregation: { type: Type.STRING, enum: AGGREGATIONS.map(a => a.value) }
+        },
+        required: ['field', 'aggregation']
+      }
+    },
+    sort: {
+      type: Type.OBJECT,
+      nullable: true,
+      properties: {
+        field: { type: Type.STRING },
+        aggregation: { type: Type.STRING },
+        direction: { type: Type.STRING, enum: ['asc', 'desc'] }
+      }
+    },
+    limit: { type: Type.INTEGER, nullable: true },
+    chart: { type: Type.STRING, enum: ['bar', 'line', 'table'] }
+  },
+  required: ['filters', 'groupBy', 'measures', 'chart']
+};
+
+export const createGeminiProvider = (model: string = GEMINI_MODEL): InsightProvider => {
+  const generateJson = async (prompt: string, responseSchema: object): Promise<string | undefined> => {
+    const ai = getGeminiClient();
+    if (!ai) throw new Error('Gemini is not configured. Set GEMINI_API_KEY or pick another provider.');
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: prompt,
+      config: { responseMimeType: "application/json", responseSchema }
+    });
+    return response.text;
+  };
+
+  return {
+    kind: 'gemini',
+    label: `Gemini (${model})`,
+
+    generateInsights: async (_digest, prompt) => parseInsightData(await generateJson(prompt, INSIGHT_SCHEMA), 'Gemini'),
+
+    generateQuerySpec: async (prompt) => parseJsonReply(await generateJson(prompt, QUERY_SCHEMA), 'Gemini')
+  };
+};
@@ -0,0 +1,54 @@
+import { InsightProvider, InsightProviderKind, InsightProviderSettings } from '../../types';
+import { STORAGE_PREFIX } from '../../constants';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiProvider } from './openAiProvider';
+import { createMockProvider } from './mockProvider';
+
+export { createGeminiProvider, createOpenAiProvider, createMockProvider };
+
+export const INSIGHT_PROVIDERS: { value: InsightProviderKind; label: string }[] = [
+  { value: 'gemini', label: 'Gemini' },
+  { value: 'openai', label: 'OpenAI-compatible (local)' },
+  { value: 'mock', label: 'Offline (rule-based)' },
+];
+
+// Gemini when a key is configured, then a local endpoint, then the offline provider
+export const DEFAULT_PROVIDER_SETTINGS: InsightProviderSettings = {
+  kind: process.env.API_KEY ? 'gemini' : process.env.LLM_BASE_URL ? 'openai' : 'mock',
+  baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+  model: process.env.LLM_MODEL || 'llama3.1',
+};
+
+export const createInsightProvider = (settings: InsightProviderSettings): InsightProvider => {
+  switch (settings.kind) {
+    case 'gemini':
+      return createGeminiProvider();
+    case 'openai':
+      return createOpenAiProvider({ baseUrl: settings.baseUrl ?? '', model: settings.model ?? '', apiKey: settings.apiKey });
+    default:
+      return createMockProvider();
+  }
+};
+
+// --- Persistence ---
+
+// One choice for the whole app rather than per table
+const storageKey = `${STORAGE_PREFIX}:insight-provider`;
+
+export const loadProviderSettings = (): InsightProviderSettings => {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    return raw ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(raw) } : DEFAULT_PROVIDER_SETTINGS;
+  } catch (e) {
+    console.warn('Could not read insight provider settings:', e);
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: InsightProviderSettings) => {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(settings));
+  } catch (e) {
+    console.warn('Could not save insight provider settings:', e);
+  }
+};
@@ -0,0 +1,59 @@
+import { InsightDigest, InsightProvider } from '../../types';
+
+const fmt = (n: number) => n.toLocaleString('en-US', { maximumFractionDigits: 0 });
+
+// Percent change between the last two months of the digest, or null
+const lastMonthChange = (digest: InsightDigest, key: 'revenue' | 'expenses' | 'profit') => {
+  const [prev, last] = digest.monthly.slice(-2);
+  if (!prev || !last || prev[key] === 0) return null;
+  return ((last[key] - prev[key]) / Math.abs(prev[key])) * 100;
+};
+
+// Rule-based insights computed from the digest alone. Same digest, same
+// output, no network: for tests, demos and working offline.
+export const createMockProvider = (): InsightProvider => ({
+  kind: 'mock',
+  label: 'Offline (rule-based)',
+
+  generateInsights: async (digest) => {
+    const { totals } = digest;
+    const trends: string[] = [];
+    const anomalies: string[] = [];
+
+    (['revenue', 'expenses', 'profit'] as const).forEach(key => {
+      const change = lastMonthChange(digest, key);
+      if (change !== null && Math.abs(change) >= 5) {
+        const [, last] = digest.monthly.slice(-2);
+        trends.push(`${key[0].toUpperCase()}${key.slice(1)} ${change >= 0 ? 'up' : 'down'} ${Math.abs(change).toFixed(1)}% in ${last.month} vs the prior month`);
+      }
+    });
+
+    const [top] = digest.departments;
+    if (top && totals.revenue !== 0) {
+      trends.push(`${top.name} brings in ${((top.revenue / totals.revenue) * 100).toFixed(1)}% of revenue`);
+    }
+    digest.departments
+      .filter(d => d.margin !== null && d.margin < 0)
+      .forEach(d => anomalies.push(`${d.name} runs at a ${d.margin!.toFixed(1)}% margin`));
+
+    digest.outliers
+      .filter(o => o.profit < 0)
+      .forEach(o => anomalies.push(`Order ${o.id} (${o.department}) has negative profit of ${fmt(o.profit)}`));
+
+    digest.budget
+      .filter(v => v.expensesVariancePct !== null && v.expensesVariancePct > 10)
+      .forEach(v => anomalies.push(`${v.department} expenses are ${v.expensesVariancePct!.toFixed(1)}% over budget`));
+
+    const summary = `${digest.rowCount.toLocaleString('en-US')} rows` +
+      (digest.dateRange ? ` from ${digest.dateRange.from} to ${digest.dateRange.to}` : '') +
+      `: revenue ${fmt(totals.revenue)}, expenses ${fmt(totals.expenses)}, profit ${fmt(totals.profit)}` +
+      (totals.margin !== null ? ` (${totals.margin.toFixed(1)}% margin)` : '') +
+      `, across ${digest.departments.length} departments.`;
+
+    return { summary, trends, anomalies };
+  },
+
+  generateQuerySpec: async () => {
+    throw new Error('The offline provider cannot translate questions. Pick Gemini or a local model in the AI insights settings.');
+  }
+});
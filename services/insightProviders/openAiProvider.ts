@@ -0,0 +1,56 @@
+import { InsightProvider } from '../../types';
+import { parseInsightData, parseJsonReply } from './parse';
+
+interface OpenAiOptions {
+  // e.g. http://localhost:11434/v1 for Ollama or http://localhost:1234/v1 for LM Studio
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+// Any server implementing the OpenAI chat completions API
+export const createOpenAiProvider = ({ baseUrl, model, apiKey }: OpenAiOptions): InsightProvider => {
+  // Content of the model's reply to a prompt asking for JSON
+  const complete = async (prompt: string): Promise<string | undefined> => {
+    if (!baseUrl || !model) throw new Error('Set the endpoint URL and model for the local provider.');
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model,
+          temperature: 0.2,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: 'You reply with a single JSON object and nothing else.' },
+            { role: 'user', content: prompt }
+          ]
+        })
+      });
+    } catch (err: any) {
+      throw new Error(`Could not reach ${baseUrl}: ${err.message || 'network error'}`);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`${baseUrl} responded ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+
+    const body = await response.json();
+    return body?.choices?.[0]?.message?.content;
+  };
+
+  return {
+    kind: 'openai',
+    label: `${model} @ ${baseUrl}`,
+
+    generateInsights: async (_digest, prompt) => parseInsightData(await complete(prompt), model),
+
+    generateQuerySpec: async (prompt) => parseJsonReply(await complete(prompt), model)
+  };
+};
@@ -0,0 +1,25 @@
+import { InsightData } from '../../types';
+
+// Parses a model's JSON reply; some local models wrap it in a Markdown code fence
+export const parseJsonReply = (text: string | undefined | null, providerLabel: string): unknown => {
+  if (!text) throw new Error(`${providerLabel} returned an empty response.`);
+  try {
+    return JSON.parse(text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+  } catch {
+    throw new Error(`${providerLabel} returned a response that is not valid JSON.`);
+  }
+};
+
+// Checks a model's JSON against the InsightData shape instead of trusting a cast
+export const parseInsightData = (text: string | undefined | null, providerLabel: string): InsightData => {
+  const raw = parseJsonReply(text, providerLabel);
+
+  const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+  const reply = raw !== null && typeof raw === 'object' ? raw as Record<string, unknown> : null;
+  const trends = reply?.trends ?? [];
+  const anomalies = reply?.anomalies ?? [];
+  if (!reply || typeof reply.summary !== 'string' || !isStringList(trends) || !isStringList(anomalies)) {
+    throw new Error(`${providerLabel} returned JSON without summary, trends and anomalies.`);
+  }
+  return { summary: reply.summary, trends, anomalies };
+};
@@ -0,0 +1,89 @@
+import { DataRow } from '../types';
+import { STORAGE_PREFIX } from '../constants';
+import { Watermark } from './rowReconciler';
+import { AccumulatorConfig, AnalyticsSnapshot } from './incrementalAnalytics';
+
+// The last loaded rows of a table and their aggregates, so the dashboard can
+// open before the network answers, or without one
+export interface CachedDataset {
+  rows: DataRow[];
+  total: number | null;
+  complete: boolean;
+  // Lookup tables cut off when the rows were joined; missing in older caches
+  incompleteLookups?: string[];
+  // When the rows were last known to match the server
+  syncedAt: string;
+  // Latest change seen; catch-up after reconnecting starts here
+  watermark: Watermark | null;
+  // Aggregates shown until the worker has gone over the rows again
+  analytics: { settings: string; snapshot: AnalyticsSnapshot } | null;
+}
+
+// Rows are far too large for localStorage, so they live in IndexedDB
+const DB_NAME = `${STORAGE_PREFIX}-cache`;
+const DB_VERSION = 1;
+const STORE = 'datasets';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => { request.result.createObjectStore(STORE); };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after storage was cleared
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = action(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Per table and per user: row-level security can show two users different rows
+export const datasetCacheKey = (sourceId: string, userId: string | null) => `${sourceId}|${userId ?? 'anon'}`;
+
+// Identifies the settings a snapshot was computed with; the reference time is left
+// out so a snapshot from an earlier visit still counts
+export const analyticsSettingsKey = (config: AccumulatorConfig) => JSON.stringify({ ...config, now: undefined });
+
+export const loadCachedDataset = async (key: string): Promise<CachedDataset | null> => {
+  try {
+    return (await withStore<CachedDataset | undefined>('readonly', store => store.get(key))) ?? null;
+  } catch (e) {
+    console.warn("Could not read cached dataset:", e);
+    return null;
+  }
+};
+
+export const saveCachedDataset = async (key: string, dataset: CachedDataset) => {
+  try {
+    await withStore('readwrite', store => store.put(dataset, key));
+  } catch (e) {
+    console.warn("Could not cache dataset:", e);
+  }
+};
+
+// Drops every cached dataset, e.g. on sign-out so the rows do not outlive the session
+export const clearCachedDatasets = async () => {
+  try {
+    await withStore('readwrite', store => store.clear());
+  } catch (e) {
+    console.warn("Could not clear cached datasets:", e);
+  }
+};
@@ -0,0 +1,385 @@
+import { Aggregation, ColumnKeys, DataRow, FiscalCalendar, QueryFilter, QueryMeasure, QueryOperator, QuerySpec } from '../types';
+import { readDate } from './columnMapping';
+import { isInRange, parseDay, ResolvedRange } from './dateRange';
+import { DEFAULT_FISCAL_CALENDAR, zonedDayKey, zonedDayStart } from './fiscalCalendar';
+import {
+  AGGREGATIONS, COUNT_SERIES, FieldOption,
+  fieldLabel, isTimeDimension, listDimensions, listMeasures, readDimension, readMeasure
+} from './widgets';
+
+// Filter field for the mapped date column
+export const DATE_FIELD = '$date';
+
+export const MAX_QUERY_LIMIT = 1000;
+
+// Distinct values listed per dimension; columns with more are treated as free text
+const MAX_LISTED_VALUES = 40;
+
+const DIMENSION_OPERATORS: QueryOperator[] = ['eq', 'neq', 'in', 'contains'];
+const NUMERIC_OPERATORS: QueryOperator[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'between'];
+const DATE_OPERATORS: QueryOperator[] = ['gte', 'lte', 'between'];
+export const QUERY_OPERATORS = [...new Set([...DIMENSION_OPERATORS, ...NUMERIC_OPERATORS])];
+
+// What a question may refer to, as offered to the model and checked by the validator
+export interface QueryCatalog {
+  dimensions: FieldOption[];
+  measures: FieldOption[];
+  hasDate: boolean;
+  // Known values per dimension, when there are few enough to list
+  values: Record<string, string[]>;
+  // YYYY-MM-DD bounds of the dated rows
+  dateBounds: { from: string; to: string } | null;
+}
+
+// Date bounds are read and written as days in the calendar's time zone, as date filters compare them
+export const buildQueryCatalog = (rows: DataRow[], keys: ColumnKeys, calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR): QueryCatalog => {
+  const dimensions = listDimensions(rows, keys);
+  const values: Record<string, string[]> = {};
+
+  dimensions.filter(d => !isTimeDimension(d.value)).forEach(d => {
+    const seen = new Set<string>();
+    for (const row of rows) {
+      seen.add(readDimension(row, d.value, keys).name);
+      if (seen.size > MAX_LISTED_VALUES) return;
+    }
+    values[d.value] = [...seen].sort();
+  });
+
+  let min: Date | null = null;
+  let max: Date | null = null;
+  rows.forEach(row => {
+    const d = readDate(row, keys.dateKey, calendar.timeZone);
+    if (!d) return;
+    if (!min || d < min) min = d;
+    if (!max || d > max) max = d;
+  });
+
+  return {
+    dimensions,
+    measures: listMeasures(rows, keys),
+    hasDate: !!keys.dateKey,
+    values,
+    dateBounds: min && max ? { from: zonedDayKey(min, calendar.timeZone), to: zonedDayKey(max, calendar.timeZone) } : null
+  };
+};
+
+// --- Validation ---
+
+// Output key of a measure in result rows, e.g. "sum:$revenue"
+export const measureKey = (m: QueryMeasure) => (m.aggregation === 'count' ? COUNT_SERIES : `${m.aggregation}:${m.field}`);
+
+export const measureLabel = (m: QueryMeasure) => {
+  if (m.aggregation === 'count') return 'Row count';
+  const aggregation = AGGREGATIONS.find(a => a.value === m.aggregation)?.label ?? m.aggregation;
+  return `${aggregation} of ${fieldLabel(m.field)}`;
+};
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined || value === null ? [] : [value]);
+
+const isDay = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && parseDay(value) !== null;
+
+/**
+ * Checks a model-produced spec against the catalog and returns it in
+ * normalized form. Anything unknown or ill-typed is rejected rather than
+ * guessed at; the error message lists every problem found.
+ */
+export const validateQuerySpec = (raw: unknown, catalog: QueryCatalog): QuerySpec => {
+  const problems: string[] = [];
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const isDimension = (field: string) => catalog.dimensions.some(d => d.value === field);
+  const isMeasure = (field: string) => catalog.measures.some(m => m.value === field);
+
+  // Group-by
+  const groupBy = asArray(input.groupBy).map(String);
+  groupBy.filter(field => !isDimension(field)).forEach(field => problems.push(`Unknown group-by field "${field}"`));
+  if (new Set(groupBy).size !== groupBy.length) problems.push('Group-by fields repeat');
+
+  // Measures
+  const measures: QueryMeasure[] = [];
+  asArray(input.measures).forEach(item => {
+    const m = (item ?? {}) as Record<string, unknown>;
+    const aggregation = String(m.aggregation ?? '') as Aggregation;
+    if (!AGGREGATIONS.some(a => a.value === aggregation)) {
+      problems.push(`Unknown aggregation "${aggregation}"`);
+      return;
+    }
+    const field = aggregation === 'count' ? COUNT_SERIES : String(m.field ?? '');
+    if (aggregation !== 'count' && !isMeasure(field)) {
+      problems.push(`Unknown measure "${field}"`);
+      return;
+    }
+    if (!measures.some(existing => measureKey(existing) === measureKey({ field, aggregation }))) {
+      measures.push({ field, aggregation });
+    }
+  });
+  if (measures.length === 0 && problems.length === 0) problems.push('The query has no measures');
+
+  // Filters
+  const filters: QueryFilter[] = [];
+  asArray(input.filters).forEach(item => {
+    const f = (item ?? {}) as Record<string, unknown>;
+    const field = String(f.field ?? '');
+    const op = String(f.op ?? '') as QueryOperator;
+    const rawValues = asArray(f.values);
+
+    const kind = field === DATE_FIELD && catalog.hasDate ? 'date'
+      : isMeasure(field) ? 'numeric'
+      : isDimension(field) && !isTimeDimension(field) ? 'dimension'
+      : null;
+    if (!kind) {
+      problems.push(`Cannot filter on "${field}"`);
+      return;
+    }
+    const label = kind === 'date' ? 'Date' : fieldLabel(field);
+    const allowed = kind === 'date' ? DATE_OPERATORS : kind === 'numeric' ? NUMERIC_OPERATORS : DIMENSION_OPERATORS;
+    if (!allowed.includes(op)) {
+      problems.push(`Operator "${op}" does not apply to ${label}`);
+      return;
+    }
+
+    const expected = op === 'between' ? 2 : op === 'in' ? null : 1;
+    if (expected !== null ? rawValues.length !== expected : rawValues.length === 0) {
+      problems.push(`Filter on ${label} has ${rawValues.length} values for "${op}"`);
+      return;
+    }
+
+    if (kind === 'date') {
+      const bad = rawValues.filter(v => !isDay(v));
+      if (bad.length > 0) problems.push(`Dates must be YYYY-MM-DD, got ${bad.map(v => JSON.stringify(v)).join(', ')}`);
+      else filters.push({ field, op, values: rawValues as string[] });
+    } else if (kind === 'numeric') {
+      const numbers = rawValues.map(v => (v === '' || v === null ? NaN : Number(v)));
+      if (numbers.some(n => !Number.isFinite(n))) problems.push(`Filter on ${fieldLabel(field)} needs numbers`);
+      else filters.push({ field, op, values: numbers });
+    } else {
+      filters.push({ field, op, values: rawValues.map(String) });
+    }
+  });
+
+  // Sort: a group-by field, or a measure by field and aggregation
+  let sort: QuerySpec['sort'] = null;
+  if (input.sort && typeof input.sort === 'object') {
+    const s = input.sort as Record<string, unknown>;
+    const direction = s.direction === 'asc' ? 'asc' : 'desc';
+    const field = String(s.field ?? '');
+    const measure = measures.find(m =>
+      (m.field === field || (m.aggregation === 'count' && field === COUNT_SERIES)) &&
+      (!s.aggregation || s.aggregation === m.aggregation)
+    );
+    if (groupBy.includes(field)) sort = { key: field, direction };
+    else if (measure) sort = { key: measureKey(measure), direction };
+    else if (field) problems.push(`Cannot sort by "${field}"; it is not grouped or measured`);
+  }
+
+  // Limit
+  let limit: number | null = null;
+  if (input.limit !== undefined && input.limit !== null && input.limit !== 0) {
+    const n = Number(input.limit);
+    if (!Number.isInteger(n) || n < 1 || n > MAX_QUERY_LIMIT) problems.push(`Limit must be a whole number from 1 to ${MAX_QUERY_LIMIT}`);
+    else limit = n;
+  }
+
+  const chart = input.chart === 'line' || input.chart === 'table' ? input.chart : 'bar';
+
+  if (problems.length > 0) throw new Error(problems.join('; '));
+  return { filters, groupBy, measures, sort, limit, chart };
+};
+
+// --- Execution ---
+
+// Inclusive YYYY-MM-DD bounds as a half-open range of days in the reporting time zone
+const dayRange = (filter: QueryFilter, timeZone: string | null): ResolvedRange => {
+  const [first, second] = filter.values.map(v => parseDay(String(v)) as Date);
+  const dayStart = (d: Date, offset = 0) => zonedDayStart(d.getFullYear(), d.getMonth(), d.getDate() + offset, timeZone);
+  if (filter.op === 'gte') return { start: dayStart(first), end: new Date(8.64e15) };
+  if (filter.op === 'lte') return { start: new Date(-8.64e15), end: dayStart(first, 1) };
+  return { start: dayStart(first), end: dayStart(second, 1) };
+};
+
+const compileFilter = (filter: QueryFilter, keys: ColumnKeys, calendar: FiscalCalendar): ((row: DataRow) => boolean) => {
+  if (filter.field === DATE_FIELD) {
+    const range = dayRange(filter, calendar.timeZone);
+    return row => isInRange(readDate(row, keys.dateKey, calendar.timeZone), range);
+  }
+
+  if (typeof filter.values[0] === 'number') {
+    const [a, b] = filter.values as number[];
+    const test: Record<string, (n: number) => boolean> = {
+      eq: n => n === a, neq: n => n !== a, gt: n => n > a, gte: n => n >= a,
+      lt: n => n < a, lte: n => n <= a, between: n => n >= Math.min(a, b) && n <= Math.max(a, b)
+    };
+    return row => test[filter.op](readMeasure(row, filter.field, keys));
+  }
+
+  // Dimension values compare case-insensitively, so "marketing" matches "Marketing"
+  const wanted = filter.values.map(v => String(v).toLowerCase());
+  return row => {
+    const value = readDimension(row, filter.field, keys, calendar).name.toLowerCase();
+    switch (filter.op) {
+      case 'neq': return value !== wanted[0];
+      case 'contains': return value.includes(wanted[0]);
+      case 'in': return wanted.includes(value);
+      default: return value === wanted[0];
+    }
+  };
+};
+
+export interface QueryColumn {
+  key: string;
+  label: string;
+  measure?: QueryMeasure;
+}
+
+export interface QueryResult {
+  columns: QueryColumn[];
+  rows: DataRow[];
+  // Rows left after filtering, before grouping
+  matched: number;
+}
+
+export const runQuery = (
+  rows: DataRow[],
+  spec: QuerySpec,
+  keys: ColumnKeys,
+  calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR
+): QueryResult => {
+  const tests = spec.filters.map(f => compileFilter(f, keys, calendar));
+  const matching = rows.filter(row => tests.every(test => test(row)));
+
+  const groups = new Map<string, { names: string[]; sortKeys: number[]; values: number[][] }>();
+  matching.forEach(row => {
+    const parts = spec.groupBy.map(field => readDimension(row, field, keys, calendar));
+    const id = parts.map(p => p.name).join('\u0000');
+    let group = groups.get(id);
+    if (!group) {
+      group = { names: parts.map(p => p.name), sortKeys: parts.map(p => p.sortKey), values: spec.measures.map(() => []) };
+      groups.set(id, group);
+    }
+    spec.measures.forEach((m, i) => group!.values[i].push(m.aggregation === 'count' ? 1 : readMeasure(row, m.field, keys)));
+  });
+  // An ungrouped query still answers with a single total row
+  if (spec.groupBy.length === 0 && groups.size === 0) groups.set('', { names: [], sortKeys: [], values: spec.measures.map(() => []) });
+
+  const aggregate = (values: number[], aggregation: Aggregation) => {
+    if (aggregation === 'count') return values.length;
+    if (values.length === 0) return 0;
+    if (aggregation === 'min') return values.reduce((acc, v) => (v < acc ? v : acc), Infinity);
+    if (aggregation === 'max') return values.reduce((acc, v) => (v > acc ? v : acc), -Infinity);
+    const sum = values.reduce((acc, v) => acc + v, 0);
+    return aggregation === 'avg' ? sum / values.length : sum;
+  };
+
+  const grouped = [...groups.values()].map(g => {
+    const datum: DataRow = {};
+    spec.groupBy.forEach((field, i) => { datum[field] = g.names[i]; });
+    spec.measures.forEach((m, i) => { datum[measureKey(m)] = aggregate(g.values[i], m.aggregation); });
+    return { datum, sortKeys: g.sortKeys };
+  });
+
+  // Explicit sort first; otherwise time order, or the first measure largest first
+  const byGroups = (a: typeof grouped[number], b: typeof grouped[number]) => {
+    for (let i = 0; i < spec.groupBy.length; i++) {
+      const field = spec.groupBy[i];
+      const diff = isTimeDimension(field)
+        ? a.sortKeys[i] - b.sortKeys[i]
+        : String(a.datum[field]).localeCompare(String(b.datum[field]));
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  };
+  const sort = spec.sort ?? (spec.groupBy.some(isTimeDimension) || spec.measures.length === 0
+    ? null
+    : { key: measureKey(spec.measures[0]), direction: 'desc' as const });
+
+  grouped.sort((a, b) => {
+    if (sort) {
+      const index = spec.groupBy.indexOf(sort.key);
+      const diff = index >= 0
+        ? (isTimeDimension(sort.key) ? a.sortKeys[index] - b.sortKeys[index] : String(a.datum[sort.key]).localeCompare(String(b.datum[sort.key])))
+        : Number(a.datum[sort.key]) - Number(b.datum[sort.key]);
+      if (diff !== 0) return sort.direction === 'asc' ? diff : -diff;
+    }
+    return byGroups(a, b);
+  });
+
+  return {
+    columns: [
+      ...spec.groupBy.map(field => ({ key: field, label: fieldLabel(field) })),
+      ...spec.measures.map(m => ({ key: measureKey(m), label: measureLabel(m), measure: m }))
+    ],
+    rows: (spec.limit ? grouped.slice(0, spec.limit) : grouped).map(g => g.datum),
+    matched: matching.length
+  };
+};
+
+// --- Display ---
+
+const OPERATOR_TEXT: Record<QueryOperator, string> = {
+  eq: '=', neq: '≠', gt: '>', gte: '≥', lt: '<', lte: '≤', in: 'in', contains: 'contains', between: 'between'
+};
+
+// One-line, human-readable rendering of a spec, shown next to the answer
+export const describeQuery = (spec: QuerySpec): string => {
+  const parts = [spec.measures.map(measureLabel).join(', ')];
+  if (spec.groupBy.length > 0) parts.push(`by ${spec.groupBy.map(fieldLabel).join(', ')}`);
+  if (spec.filters.length > 0) {
+    const filters = spec.filters.map(f => {
+      const name = f.field === DATE_FIELD ? 'Date' : fieldLabel(f.field);
+      const values = f.op === 'between' ? `${f.values[0]} and ${f.values[1]}` : f.values.join(', ');
+      return `${name} ${OPERATOR_TEXT[f.op]} ${values}`;
+    });
+    parts.push(`where ${filters.join(' and ')}`);
+  }
+  if (spec.sort) {
+    const column = spec.measures.find(m => measureKey(m) === spec.sort!.key);
+    parts.push(`sorted by ${column ? measureLabel(column) : fieldLabel(spec.sort.key)} ${spec.sort.direction === 'asc' ? 'ascending' : 'descending'}`);
+  }
+  if (spec.limit) parts.push(`top ${spec.limit}`);
+  return parts.join(' ');
+};
+
+// --- Prompt ---
+
+// Lists the fields a query may use, with known values, for the query prompt
+const describeCatalog = (catalog: QueryCatalog): string => {
+  const lines = ['Group-by fields (also filterable unless time-based):'];
+  catalog.dimensions.forEach(d => {
+    const values = catalog.values[d.value];
+    lines.push(`- ${d.value} (${d.label})${values ? `: values ${values.map(v => JSON.stringify(v)).join(', ')}` : ''}`);
+  });
+  lines.push('Measures (numeric, filterable per row):');
+  catalog.measures.forEach(m => lines.push(`- ${m.value} (${m.label})`));
+  if (catalog.hasDate) {
+    lines.push(`Date filter field: ${DATE_FIELD}, values as YYYY-MM-DD` +
+      (catalog.dateBounds ? `; data runs from ${catalog.dateBounds.from} to ${catalog.dateBounds.to}` : ''));
+  }
+  return lines.join('\n');
+};
+
+// Prompt for any provider to translate a question into a query spec. The shape is
+// spelled out for providers without structured output; the answer still goes
+// through validateQuerySpec.
+export const buildQueryPrompt = (question: string, tableName: string, catalog: QueryCatalog): string => `
+    Translate the question into a query over table "${tableName}". Do not answer it yourself.
+
+${describeCatalog(catalog)}
+
+    Rules:
+    - Use only the field names listed above, exactly as written (including the leading $).
+    - Measures pair a measure field with an aggregation (${AGGREGATIONS.map(a => a.value).join(', ')}); use aggregation "count" to count rows.
+    - Filters use operators ${QUERY_OPERATORS.join(', ')}. "between" takes two values, "in" any number, the rest one.
+    - Date filters on ${DATE_FIELD} take gte, lte or between with inclusive YYYY-MM-DD days.
+      Resolve relative periods ("Q2", "last year") against the data's date range; today is ${new Date().toISOString().slice(0, 10)}.
+    - Sort by a group-by field or by a measure (field and aggregation). Omit limit unless the question asks for top/bottom N.
+    - chart: "line" for trends over time, "bar" for comparisons, "table" for many columns or rows.
+
+    Return JSON with:
+    - filters: list of { field, op, values }
+    - groupBy: list of field names
+    - measures: list of { field, aggregation }
+    - sort: { field, aggregation, direction: "asc" | "desc" } or null
+    - limit: number or null
+    - chart: "bar", "line" or "table"
+
+    Question: ${question}
+  `;
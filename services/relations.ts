@@ -0,0 +1,147 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DataRow, SchemaTable, TableRelation } from '../types';
+import { PAGE_SIZE, STORAGE_PREFIX } from '../constants';
+
+// Lookup tables are read whole; anything larger is almost certainly not a lookup
+export const MAX_LOOKUP_ROWS = 20000;
+
+// Lookup rows by their key, one map per relation
+export type LookupMaps = Map<string, DataRow>[];
+
+// "department_id" -> "department", "cost_center_uuid" -> "cost_center"
+export const defaultPrefix = (column: string) =>
+  column.replace(/_?(id|uuid|fk|key)$/i, '') || column;
+
+// Columns a relation adds to each row
+export const joinedColumns = (relation: TableRelation): string[] => [
+  relation.prefix,
+  ...relation.fields.map(field => `${relation.prefix}_${field}`)
+];
+
+// Picks the column most likely to name a lookup row
+const LABEL_CANDIDATES = ['name', 'title', 'label', 'code', 'description'];
+
+export const guessLabelField = (table: SchemaTable, key: string): string => {
+  const names = table.columns.map(c => c.name);
+  const match = LABEL_CANDIDATES.map(c => names.find(n => n.toLowerCase() === c)).find(Boolean)
+    ?? names.find(n => n !== key && /name|title/i.test(n));
+  return match ?? key;
+};
+
+// Relations implied by the source table's foreign keys that are not set up yet
+export const suggestRelations = (source: SchemaTable | undefined, tables: SchemaTable[], existing: TableRelation[]): TableRelation[] => {
+  if (!source) return [];
+  return source.columns
+    .filter(c => c.foreignKey && !existing.some(r => r.column === c.name))
+    .flatMap(c => {
+      const target = tables.find(t => t.name === c.foreignKey!.table);
+      if (!target) return [];
+      return [{
+        column: c.name,
+        table: target.name,
+        key: c.foreignKey!.column,
+        labelField: guessLabelField(target, c.foreignKey!.column),
+        fields: [],
+        prefix: defaultPrefix(c.name)
+      }];
+    });
+};
+
+// Checks a relation against the columns of the source rows; returns problems
+export const validateRelations = (relations: TableRelation[], sourceColumns: string[]): string[] => {
+  const problems: string[] = [];
+  const added = new Set<string>();
+  relations.forEach(r => {
+    if (!r.column || !r.table || !r.key || !r.labelField || !r.prefix) {
+      problems.push('Each relation needs a column, a table, a key, a label and a name.');
+      return;
+    }
+    joinedColumns(r).forEach(name => {
+      if (sourceColumns.includes(name)) problems.push(`"${name}" already exists on the table; choose another name for the ${r.table} join.`);
+      else if (added.has(name)) problems.push(`"${name}" is added by two relations.`);
+      added.add(name);
+    });
+  });
+  return problems;
+};
+
+// --- Loading ---
+
+const lookupKey = (value: any) => (value === null || value === undefined ? null : String(value));
+
+// Rows of one lookup table by key. Not complete when the table has more than
+// MAX_LOOKUP_ROWS rows; references past the limit then join to nulls.
+export const fetchLookup = async (
+  client: SupabaseClient<any, any, any>,
+  relation: TableRelation
+): Promise<{ map: Map<string, DataRow>; complete: boolean }> => {
+  const columns = [...new Set([relation.key, relation.labelField, ...relation.fields])].join(',');
+  const map = new Map<string, DataRow>();
+
+  for (let from = 0; from < MAX_LOOKUP_ROWS; from += PAGE_SIZE) {
+    const { data, error } = await client
+      .from(relation.table)
+      .select(columns)
+      .order(relation.key, { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Could not read ${relation.table} for the ${relation.prefix} join: ${error.message}`);
+    const page = (data ?? []) as unknown as DataRow[];
+    page.forEach(row => {
+      const key = lookupKey(row[relation.key]);
+      if (key !== null) map.set(key, row);
+    });
+    // A short page is the last one
+    if (page.length < PAGE_SIZE) return { map, complete: true };
+  }
+  return { map, complete: false };
+};
+
+// One map per relation, and the lookup tables that were cut off
+export const fetchLookups = async (
+  client: SupabaseClient<any, any, any>,
+  relations: TableRelation[]
+): Promise<{ maps: LookupMaps; incomplete: string[] }> => {
+  const lookups = await Promise.all(relations.map(r => fetchLookup(client, r)));
+  return {
+    maps: lookups.map(l => l.map),
+    incomplete: relations.filter((_, i) => !lookups[i].complete).map(r => r.table)
+  };
+};
+
+// Adds the joined columns to one row; unmatched references get nulls so every row has the same columns
+export const joinRow = (row: DataRow, relations: TableRelation[], lookups: LookupMaps): DataRow => {
+  if (relations.length === 0) return row;
+  const joined: DataRow = { ...row };
+  relations.forEach((relation, i) => {
+    const key = lookupKey(row[relation.column]);
+    const match = key !== null ? lookups[i]?.get(key) : undefined;
+    joined[relation.prefix] = match?.[relation.labelField] ?? null;
+    relation.fields.forEach(field => {
+      joined[`${relation.prefix}_${field}`] = match?.[field] ?? null;
+    });
+  });
+  return joined;
+};
+
+// --- Persistence ---
+
+const storageKey = (sourceId: string) => `${STORAGE_PREFIX}:relations:${sourceId}`;
+
+export const loadRelations = (sourceId: string): TableRelation[] => {
+  try {
+    const raw = localStorage.getItem(storageKey(sourceId));
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.warn(`Could not read relations for ${sourceId}:`, e);
+    return [];
+  }
+};
+
+export const saveRelations = (sourceId: string, relations: TableRelation[]) => {
+  try {
+    if (relations.length === 0) localStorage.removeItem(storageKey(sourceId));
+    else localStorage.setItem(storageKey(sourceId), JSON.stringify(relations));
+  } catch (e) {
+    console.warn(`Could not save relations for ${sourceId}:`, e);
+  }
+};
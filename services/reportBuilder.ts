@@ -0,0 +1,153 @@
+import { InsightData } from '../types';
+
+export interface ReportTable {
+  columns: string[];
+  rows: (string | number | null)[][];
+}
+
+export interface ReportSection {
+  title: string;
+  // Serialized <svg> of the chart as rendered on the dashboard
+  chartSvg?: string;
+  table?: ReportTable;
+}
+
+export interface ReportInput {
+  title: string;
+  generatedAt: Date;
+  filters: string[];
+  kpis: { label: string; value: string }[];
+  insights: InsightData | null;
+  sections: ReportSection[];
+}
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatCell = (value: string | number | null) =>
+  typeof value === 'number'
+    ? value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+    : escapeHtml(value);
+
+const renderTable = (table: ReportTable) => `
+  <table>
+    <thead><tr>${table.columns.map(c => `<th>${escapeHtml(c)}</th>`).join('')}</tr></thead>
+    <tbody>
+      ${table.rows.map(row => `<tr>${row.map(cell =>
+        `<td class="${typeof cell === 'number' ? 'num' : ''}">${formatCell(cell)}</td>`).join('')}</tr>`).join('')}
+    </tbody>
+  </table>`;
+
+const renderList = (title: string, items: string[]) =>
+  items.length === 0 ? '' : `<h3>${escapeHtml(title)}</h3><ul>${items.map(i => `<li>${escapeHtml(i)}</li>`).join('')}</ul>`;
+
+// Chart SVGs keyed by the data-report-chart attribute of their card
+export const collectChartSvgs = (root: HTMLElement | null): Record<string, string> => {
+  const charts: Record<string, string> = {};
+  if (!root) return charts;
+  root.querySelectorAll<HTMLElement>('[data-report-chart]').forEach(card => {
+    const svg = card.querySelector('svg.recharts-surface');
+    if (svg) charts[card.dataset.reportChart as string] = svg.outerHTML;
+  });
+  return charts;
+};
+
+// Self-contained HTML document, styled for print so "Save as PDF" gives a clean report
+export const buildReportHtml = (input: ReportInput): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(input.title)}</title>
+<style>
+  body { font-family: Inter, system-ui, sans-serif; color: #0f172a; margin: 32px; }
+  h1 { margin: 0 0 4px; font-size: 24px; }
+  h2 { margin: 32px 0 12px; font-size: 18px; border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; }
+  h3 { margin: 16px 0 8px; font-size: 14px; text-transform: uppercase; color: #475569; }
+  .meta { color: #64748b; font-size: 12px; }
+  .filters { display: flex; flex-wrap: wrap; gap: 6px; margin-top: 12px; }
+  .filters span { background: #f1f5f9; border-radius: 999px; padding: 2px 10px; font-size: 12px; }
+  .kpis { display: flex; gap: 16px; margin-top: 20px; }
+  .kpi { border: 1px solid #e2e8f0; border-radius: 8px; padding: 10px 14px; }
+  .kpi .label { font-size: 11px; color: #64748b; text-transform: uppercase; }
+  .kpi .value { font-size: 18px; font-weight: 600; }
+  .chart svg { max-width: 100%; height: auto; }
+  table { border-collapse: collapse; width: 100%; font-size: 12px; }
+  th, td { border-bottom: 1px solid #e2e8f0; padding: 4px 8px; text-align: left; }
+  th { background: #f8fafc; }
+  td.num { text-align: right; font-variant-numeric: tabular-nums; }
+  section { break-inside: avoid; }
+  @media print { body { margin: 12mm; } }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(input.title)}</h1>
+  <div class="meta">Generated ${escapeHtml(input.generatedAt.toLocaleString())}</div>
+  <div class="filters">${input.filters.map(f => `<span>${escapeHtml(f)}</span>`).join('')}</div>
+  <div class="kpis">${input.kpis.map(k =>
+    `<div class="kpi"><div class="label">${escapeHtml(k.label)}</div><div class="value">${escapeHtml(k.value)}</div></div>`).join('')}
+  </div>
+  ${input.insights ? `
+  <section>
+    <h2>AI Summary</h2>
+    <p>${escapeHtml(input.insights.summary)}</p>
+    ${renderList('Trends', input.insights.trends)}
+    ${renderList('Anomalies', input.insights.anomalies)}
+  </section>` : ''}
+  ${input.sections.map(section => `
+  <section>
+    <h2>${escapeHtml(section.title)}</h2>
+    ${section.chartSvg ? `<div class="chart">${section.chartSvg}</div>` : ''}
+    ${section.table ? renderTable(section.table) : ''}
+  </section>`).join('')}
+</body>
+</html>`;
+
+// Opens the report in a new window and brings up the print dialog (print or save as PDF)
+export const openPrintableReport = (html: string): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  // Give the new document a moment to lay out before printing
+  setTimeout(() => win.print(), 300);
+  return true;
+};
+
+const markdownCell = (value: string | number | null) =>
+  typeof value === 'number'
+    ? value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+    : String(value ?? '').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+const renderMarkdownTable = (table: ReportTable) => [
+  `| ${table.columns.map(markdownCell).join(' | ')} |`,
+  `| ${table.rows.length > 0 ? table.rows[0].map(cell => (typeof cell === 'number' ? '---:' : '---')).join(' | ') : table.columns.map(() => '---').join(' | ')} |`,
+  ...table.rows.map(row => `| ${row.map(markdownCell).join(' | ')} |`)
+].join('\n');
+
+// The same report as Markdown, for digests posted to chat or committed to a repo; charts are left out
+export const buildReportMarkdown = (input: ReportInput): string => {
+  const lines: string[] = [
+    `# ${input.title}`,
+    '',
+    `Generated ${input.generatedAt.toLocaleString()}`,
+    '',
+    ...input.filters.map(f => `- ${f}`),
+    '',
+    ...input.kpis.map(k => `**${k.label}:** ${k.value}  `),
+  ];
+  if (input.insights) {
+    lines.push('', '## AI Summary', '', input.insights.summary);
+    if (input.insights.trends.length > 0) lines.push('', '### Trends', '', ...input.insights.trends.map(t => `- ${t}`));
+    if (input.insights.anomalies.length > 0) lines.push('', '### Anomalies', '', ...input.insights.anomalies.map(a => `- ${a}`));
+  }
+  input.sections.filter(section => section.table).forEach(section => {
+    lines.push('', `## ${section.title}`, '', renderMarkdownTable(section.table as ReportTable));
+  });
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,166 @@
+import { ColumnMapping, DataRow, RowChange } from '../types';
+
+// Column that uniquely identifies rows: "id", or a column the user mapped as the
+// ID. Auto-detected ID columns (department_id, order_number, name...) are not
+// known to be unique, so they never identify rows.
+export const findPrimaryKey = (sample: DataRow, mapping: ColumnMapping): string | null => {
+  if ('id' in sample) return 'id';
+  const mapped = mapping.id;
+  return mapped && mapped in sample ? mapped : null;
+};
+
+const timeOf = (row: DataRow, dateKey: string | null): number => {
+  if (!dateKey) return NaN;
+  return new Date(row[dateKey]).getTime();
+};
+
+// Identity of a change: the old record's key columns when present (DELETE and
+// UPDATE), otherwise the primary key of the new record
+export const identityOf = (change: RowChange, primaryKey: string | null): DataRow | null => {
+  const old = change.old || {};
+  if (Object.keys(old).length > 0) return old;
+  if (primaryKey && change.new && change.new[primaryKey] !== undefined) {
+    return { [primaryKey]: change.new[primaryKey] };
+  }
+  return null;
+};
+
+// Whether a change can be applied to the rows in place. Updates and deletes
+// that cannot be matched to a row need the rows to be loaded again.
+export const canReconcile = (change: RowChange, primaryKey: string | null): boolean =>
+  change.eventType === 'INSERT' || identityOf(change, primaryKey) !== null;
+
+export const matchesIdentity = (row: DataRow, identity: DataRow) =>
+  Object.keys(identity).every(k => row[k] === identity[k]);
+
+// Inserts a row after every row with an earlier or equal date, so late
+// arrivals land in chronological order. Undated rows go to the end.
+export const insertByDate = (rows: DataRow[], row: DataRow, dateKey: string | null): DataRow[] => {
+  const t = timeOf(row, dateKey);
+  if (isNaN(t)) return [...rows, row];
+
+  // Binary search over the dated prefix; rows are kept sorted by fetchData
+  let lo = 0;
+  let hi = rows.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    const midTime = timeOf(rows[mid], dateKey);
+    if (isNaN(midTime) || midTime > t) hi = mid;
+    else lo = mid + 1;
+  }
+  return [...rows.slice(0, lo), row, ...rows.slice(lo)];
+};
+
+// Applies a realtime change to a date-sorted row list and returns the new list.
+// Inserts without a primary key are appended; check canReconcile for the rest.
+export const applyRowChange = (
+  rows: DataRow[],
+  change: RowChange,
+  primaryKey: string | null,
+  dateKey: string | null
+): DataRow[] => applyRowChanges(rows, [change], primaryKey, dateKey);
+
+// Applies a burst of changes in arrival order with one pass over the rows, with
+// the same result as applying them one by one. Identities holding the primary
+// key are looked up by it; others are compared with every row.
+export const applyRowChanges = (
+  rows: DataRow[],
+  changes: RowChange[],
+  primaryKey: string | null,
+  dateKey: string | null
+): DataRow[] => {
+  if (changes.length === 0) return rows;
+  const byKey = new Map<string, DataRow[]>();
+  const unkeyed: DataRow[] = [];
+  let inserted: DataRow[] = [];
+
+  changes.forEach(change => {
+    const identity = identityOf(change, primaryKey);
+    if (identity) {
+      // Also takes back rows inserted earlier in the burst
+      inserted = inserted.filter(row => !matchesIdentity(row, identity));
+      const key = primaryKey !== null && identity[primaryKey] !== undefined ? String(identity[primaryKey]) : null;
+      if (key === null) unkeyed.push(identity);
+      else byKey.set(key, [...(byKey.get(key) ?? []), identity]);
+    }
+    if (change.eventType !== 'DELETE') inserted.push(change.new);
+  });
+
+  const removed = (row: DataRow) =>
+    (primaryKey !== null && byKey.get(String(row[primaryKey]))?.some(identity => matchesIdentity(row, identity)))
+    || unkeyed.some(identity => matchesIdentity(row, identity));
+  const remaining = byKey.size > 0 || unkeyed.length > 0 ? rows.filter(row => !removed(row)) : rows;
+  return mergeByDate(remaining, inserted, dateKey);
+};
+
+// Merges new rows into date-sorted rows as insertByDate would one at a time:
+// after every row with an earlier or equal date, undated rows at the end
+const mergeByDate = (rows: DataRow[], added: DataRow[], dateKey: string | null): DataRow[] => {
+  if (added.length === 0) return rows;
+  const dated = added
+    .map((row, index) => ({ row, index, time: timeOf(row, dateKey) }))
+    .filter(item => !isNaN(item.time))
+    .sort((a, b) => a.time - b.time || a.index - b.index);
+  const undated = added.filter(row => isNaN(timeOf(row, dateKey)));
+
+  const merged: DataRow[] = [];
+  let next = 0;
+  rows.forEach(row => {
+    const t = timeOf(row, dateKey);
+    while (next < dated.length && (isNaN(t) || dated[next].time < t)) merged.push(dated[next++].row);
+    merged.push(row);
+  });
+  while (next < dated.length) merged.push(dated[next++].row);
+  return [...merged, ...undated];
+};
+
+// Caches a per-row result by row object. Realtime changes replace only the rows
+// they touch, so the rest keep their results and a new pass over the rows costs
+// a lookup per unchanged row.
+export const memoizeByRow = <T>(derive: (row: DataRow) => T): ((row: DataRow) => T) => {
+  const cache = new WeakMap<DataRow, T>();
+  return row => {
+    if (cache.has(row)) return cache.get(row) as T;
+    const value = derive(row);
+    cache.set(row, value);
+    return value;
+  };
+};
+
+// --- Catch-up after reconnecting ---
+
+// Last change timestamp seen, used to fetch whatever arrived while offline
+export interface Watermark {
+  column: string;
+  value: string;
+}
+
+// Columns updated on every write. Creation times would miss updates, so tables
+// with only those are loaded again in full instead.
+const CHANGE_COLUMNS = ['updated_at', 'modified_at', 'last_modified', 'changed_at', 'updatedat', 'modifiedat'];
+
+const timestampOf = (value: any): number => {
+  if (value === null || value === undefined || value === '') return NaN;
+  return new Date(value).getTime();
+};
+
+// The column telling when a row last changed, if the sample has a usable one
+export const findChangeColumn = (sample: DataRow): string | null => {
+  const column = Object.keys(sample).find(k => CHANGE_COLUMNS.includes(k.toLowerCase()));
+  return column && !isNaN(timestampOf(sample[column])) ? column : null;
+};
+
+// Moves the watermark forward to a row's change time; the same watermark when it is not later
+export const advanceWatermark = (watermark: Watermark, row: DataRow): Watermark => {
+  const t = timestampOf(row[watermark.column]);
+  if (isNaN(t) || t <= timestampOf(watermark.value)) return watermark;
+  return { column: watermark.column, value: String(row[watermark.column]) };
+};
+
+// Latest change time across rows; null without a change column
+export const watermarkOf = (rows: DataRow[]): Watermark | null => {
+  const column = rows.length > 0 ? findChangeColumn(rows[0]) : null;
+  if (!column) return null;
+  const mark = rows.reduce<Watermark>((latest, row) => advanceWatermark(latest, row), { column, value: '' });
+  return mark.value ? mark : null;
+};
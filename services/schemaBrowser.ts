@@ -0,0 +1,159 @@
+import { ConnectionProfile, DataRow, SchemaColumn, SchemaTable } from '../types';
+import { getClient } from './supabaseClient';
+
+// Optional fallback for projects that hide the OpenAPI description; see README
+export const SCHEMA_RPC = 'list_relations';
+
+export const SAMPLE_ROW_LIMIT = 10;
+
+// Schemas are cached per connection and user until refreshed, since access differs by user
+const cache = new Map<string, SchemaTable[]>();
+
+const byName = (a: SchemaTable, b: SchemaTable) => a.name.localeCompare(b.name);
+
+// --- PostgREST OpenAPI ---
+
+interface OpenApiProperty {
+  type?: string;
+  format?: string;
+  description?: string;
+}
+
+interface OpenApiDocument {
+  definitions?: Record<string, { properties?: Record<string, OpenApiProperty>; required?: string[]; description?: string }>;
+  paths?: Record<string, Record<string, unknown>>;
+}
+
+// PostgREST tags key columns in the description: <pk/> and <fk table='x' column='y'/>
+const FK_TAG = /<fk table='([^']+)' column='([^']+)'\/>/;
+
+const parseOpenApi = (doc: OpenApiDocument): SchemaTable[] =>
+  Object.entries(doc.definitions ?? {}).map(([name, def]) => {
+    const required = new Set(def.required ?? []);
+    const columns: SchemaColumn[] = Object.entries(def.properties ?? {}).map(([column, prop]) => {
+      const fk = FK_TAG.exec(prop.description ?? '');
+      return {
+        name: column,
+        type: prop.format ?? prop.type ?? 'unknown',
+        // OpenAPI only lists NOT NULL columns without a default as required
+        nullable: !required.has(column),
+        primaryKey: (prop.description ?? '').includes('<pk/>'),
+        foreignKey: fk ? { table: fk[1], column: fk[2] } : null
+      };
+    });
+    // Relations that accept inserts are tables; read-only ones are treated as views
+    const methods = doc.paths?.[`/${name}`] ?? {};
+    return {
+      name,
+      kind: 'post' in methods ? 'table' : 'view',
+      columns,
+      rowCount: null,
+      description: def.description
+    };
+  });
+
+const fetchOpenApi = async (profile: ConnectionProfile, token: string): Promise<SchemaTable[]> => {
+  let response: Response;
+  try {
+    response = await fetch(`${profile.url.replace(/\/+$/, '')}/rest/v1/`, {
+      headers: {
+        apikey: profile.key,
+        Authorization: `Bearer ${token}`,
+        Accept: 'application/openapi+json',
+        'Accept-Profile': profile.schema
+      }
+    });
+  } catch (err: any) {
+    throw new Error(`Could not reach ${profile.url}: ${err.message || 'network error'}`);
+  }
+  if (!response.ok) throw new Error(`Schema description unavailable (${response.status})`);
+  return parseOpenApi(await response.json());
+};
+
+// --- RPC fallback ---
+
+interface RelationColumnRow {
+  table_name: string;
+  table_type: string;
+  column_name: string;
+  data_type: string;
+  is_nullable: boolean;
+  is_primary_key?: boolean;
+  references_table?: string | null;
+  references_column?: string | null;
+}
+
+const fetchViaRpc = async (profile: ConnectionProfile): Promise<SchemaTable[]> => {
+  const { data, error } = await getClient(profile).rpc(SCHEMA_RPC, { target_schema: profile.schema });
+  if (error) throw new Error(error.message);
+
+  const tables = new Map<string, SchemaTable>();
+  (data as RelationColumnRow[] ?? []).forEach(row => {
+    const table = tables.get(row.table_name) ?? {
+      name: row.table_name,
+      kind: row.table_type === 'BASE TABLE' ? 'table' : 'view',
+      columns: [],
+      rowCount: null
+    };
+    table.columns.push({
+      name: row.column_name,
+      type: row.data_type,
+      nullable: row.is_nullable,
+      primaryKey: !!row.is_primary_key,
+      foreignKey: row.references_table && row.references_column
+        ? { table: row.references_table, column: row.references_column }
+        : null
+    });
+    tables.set(row.table_name, table);
+  });
+  return [...tables.values()];
+};
+
+// --- Public API ---
+
+// Estimated counts avoid a full scan on large tables; small ones are exact
+export const countRows = async (profile: ConnectionProfile, tableName: string): Promise<number | null> => {
+  const { count, error } = await getClient(profile)
+    .from(tableName)
+    .select('*', { count: 'estimated', head: true });
+  if (error) {
+    console.warn(`Could not count rows in ${tableName}:`, error.message);
+    return null;
+  }
+  return count ?? null;
+};
+
+// Lists every table and view the connection can read, with columns and row counts
+export const fetchSchema = async (profile: ConnectionProfile, refresh = false): Promise<SchemaTable[]> => {
+  const { data } = await getClient(profile).auth.getSession();
+  const cacheKey = [profile.url, profile.schema, data.session?.user.id ?? 'anon'].join('|');
+  const cached = cache.get(cacheKey);
+  if (cached && !refresh) return cached;
+
+  let tables: SchemaTable[];
+  try {
+    tables = await fetchOpenApi(profile, data.session?.access_token ?? profile.key);
+  } catch (openApiError: any) {
+    try {
+      tables = await fetchViaRpc(profile);
+    } catch (rpcError: any) {
+      console.warn("Schema RPC failed:", rpcError.message);
+      throw new Error(`${openApiError.message}, and the ${SCHEMA_RPC} function is not available on ${profile.name}.`);
+    }
+  }
+
+  const counts = await Promise.all(tables.map(t => countRows(profile, t.name)));
+  const result = tables.map((t, i) => ({ ...t, rowCount: counts[i] })).sort(byName);
+  cache.set(cacheKey, result);
+  return result;
+};
+
+export const fetchSampleRows = async (
+  profile: ConnectionProfile,
+  tableName: string,
+  limit: number = SAMPLE_ROW_LIMIT
+): Promise<DataRow[]> => {
+  const { data, error } = await getClient(profile).from(tableName).select('*').limit(limit);
+  if (error) throw new Error(error.message);
+  return data ?? [];
+};
@@ -1,11 +1,32 @@
-import { createClient } from '@supabase/supabase-js';
-import { SUPABASE_URL, SUPABASE_KEY } from '../constants';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { PAGE_SIZE, MAX_ROWS } from '../constants';
+import { ConnectionProfile, DataRow, LoadOptions, LoadResult, RowScope } from '../types';
+import { DEFAULT_PROFILE } from './connections';
+import { findPrimaryKey } from './rowReconciler';
 
-export const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
+// One client per project, URL, key and schema; reused across switches
+const clients = new Map<string, SupabaseClient<any, any, any>>();
 
-export const checkTableExists = async (tableName: string): Promise<boolean> => {
+export const getClient = (profile: ConnectionProfile): SupabaseClient<any, any, any> => {
+  const cacheKey = [profile.url, profile.key, profile.schema].join('|');
+  let client = clients.get(cacheKey);
+  if (!client) {
+    client = createClient(profile.url, profile.key, { db: { schema: profile.schema } });
+    clients.set(cacheKey, client);
+  }
+  return client;
+};
+
+let activeProfile: ConnectionProfile = DEFAULT_PROFILE;
+
+// The connection used for lookups outside a data source (budget and FX tables)
+export const setActiveProfile = (profile: ConnectionProfile) => { activeProfile = profile; };
+export const getActiveProfile = () => activeProfile;
+export const getSupabase = () => getClient(activeProfile);
+
+export const checkTableExists = async (client: SupabaseClient<any, any, any>, tableName: string): Promise<boolean> => {
   try {
-    const { count, error } = await supabase
+    const { count, error } = await client
       .from(tableName)
       .select('*', { count: 'exact', head: true });
     
@@ -18,3 +39,103 @@ export const checkTableExists = async (tableName: string): Promise<boolean> => {
     return false;
   }
 };
+
+// Columns a row-order can be based on when there is no unique key: every column
+// holding plain values (json columns cannot be ordered)
+const orderableColumns = (sample: DataRow) =>
+  Object.keys(sample).filter(k => sample[k] === null || ['string', 'number', 'boolean'].includes(typeof sample[k]));
+
+// ILIKE pattern matching the scope's value exactly but in any case, as the
+// dashboard compares departments
+const scopePattern = (scope: RowScope) => scope.value.trim().replace(/[\\%_]/g, c => `\\${c}`);
+
+// Loads a whole table page by page. Pages are keyed on the unique column from
+// pickKey (stable under concurrent inserts); without one, offset pages over a
+// total order on every plain column, so no row is skipped or repeated.
+// A scope from pickScope is applied on the server to the count and every page.
+export const fetchAllRows = async (
+  client: SupabaseClient<any, any, any>,
+  tableName: string,
+  { pickKey, pickScope, onProgress }: LoadOptions
+): Promise<LoadResult> => {
+  const { data: sampleRows, error: sampleError } = await client.from(tableName).select('*').limit(1);
+  if (sampleError) throw sampleError;
+  if (!sampleRows || sampleRows.length === 0) return { rows: [], total: 0, complete: true };
+  const scope = pickScope?.(sampleRows[0]) ?? null;
+
+  let countQuery = client.from(tableName).select('*', { count: 'exact', head: true });
+  if (scope) countQuery = countQuery.ilike(scope.column, scopePattern(scope));
+  const { count, error: countError } = await countQuery;
+  if (countError) throw countError;
+  const total = count ?? null;
+
+  const key = pickKey(sampleRows[0]);
+  const orderColumns = key ? [key] : orderableColumns(sampleRows[0]);
+  const rows: DataRow[] = [];
+  onProgress?.({ loaded: 0, total });
+
+  while (rows.length < MAX_ROWS) {
+    const limit = Math.min(PAGE_SIZE, MAX_ROWS - rows.length);
+    let query = client.from(tableName).select('*');
+    if (scope) query = query.ilike(scope.column, scopePattern(scope));
+    orderColumns.forEach(column => { query = query.order(column, { ascending: true }); });
+
+    if (key) {
+      query = query.limit(limit);
+      if (rows.length > 0) query = query.gt(key, rows[rows.length - 1][key]);
+    } else {
+      query = query.range(rows.length, rows.length + limit - 1);
+    }
+    const { data: page, error } = await query;
+    if (error) throw error;
+
+    // The server may cap pages below PAGE_SIZE, so only an empty page ends the scan
+    if (!page || page.length === 0) break;
+    rows.push(...page);
+    onProgress?.({ loaded: rows.length, total });
+  }
+
+  // Complete only when every counted row arrived; without a count, when the scan ran out of rows
+  const complete = total === null ? rows.length < MAX_ROWS : rows.length >= total;
+  return { rows, total, complete };
+};
+
+// Every row of a lookup table (budgets, exchange rates), paged like the source rows
+export const fetchTableRows = async (client: SupabaseClient<any, any, any>, tableName: string): Promise<DataRow[]> => {
+  const { rows } = await fetchAllRows(client, tableName, { pickKey: sample => findPrimaryKey(sample, {}) });
+  return rows;
+};
+
+// Rows whose change column is at or after `since`, oldest first. Inclusive so
+// rows sharing the last seen timestamp are not skipped; callers upsert them.
+// Rows sharing a timestamp are ordered by the unique key, or without one by
+// every plain column, so offset pages neither skip nor repeat them.
+export const fetchRowsChangedSince = async (
+  client: SupabaseClient<any, any, any>,
+  tableName: string,
+  column: string,
+  since: string,
+  key: string | null,
+  scope: RowScope | null = null
+): Promise<DataRow[]> => {
+  let tiebreak = key ? [key] : [];
+  if (!key) {
+    const { data: sampleRows, error: sampleError } = await client.from(tableName).select('*').limit(1);
+    if (sampleError) throw sampleError;
+    if (!sampleRows || sampleRows.length === 0) return [];
+    tiebreak = orderableColumns(sampleRows[0]);
+  }
+  const orderColumns = [column, ...tiebreak.filter(c => c !== column)];
+
+  const rows: DataRow[] = [];
+  while (rows.length < MAX_ROWS) {
+    let query = client.from(tableName).select('*').gte(column, since);
+    if (scope) query = query.ilike(scope.column, scopePattern(scope));
+    orderColumns.forEach(c => { query = query.order(c, { ascending: true }); });
+    const { data, error } = await query.range(rows.length, rows.length + PAGE_SIZE - 1);
+    if (error) throw error;
+    if (!data || data.length === 0) break;
+    rows.push(...data);
+  }
+  return rows;
+};
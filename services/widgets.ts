@@ -0,0 +1,333 @@
+import { Aggregation, ChartConfig, ColumnKeys, DataRow, FiscalCalendar, WidgetConfig, WidgetSize, WidgetType } from '../types';
+import { STORAGE_PREFIX } from '../constants';
+import { checkColumnType, readDate, readDept, readNumber, readProfit } from './columnMapping';
+import {
+  DEFAULT_FISCAL_CALENDAR, fiscalPeriodOf, fiscalPeriodLabel, fiscalQuarterLabel, fiscalYearLabel
+} from './fiscalCalendar';
+
+export const WIDGET_TYPES: { value: WidgetType; label: string }[] = [
+  { value: 'area', label: 'Area chart' },
+  { value: 'bar', label: 'Bar chart' },
+  { value: 'line', label: 'Line chart' },
+  { value: 'pie', label: 'Pie chart' },
+  { value: 'kpi', label: 'KPI tile' },
+  { value: 'table', label: 'Table' },
+];
+
+export const AGGREGATIONS: { value: Aggregation; label: string }[] = [
+  { value: 'sum', label: 'Sum' },
+  { value: 'avg', label: 'Average' },
+  { value: 'count', label: 'Row count' },
+  { value: 'min', label: 'Minimum' },
+  { value: 'max', label: 'Maximum' },
+];
+
+export const WIDGET_SIZES: WidgetSize[] = [1, 2, 3];
+
+// Role tokens resolve through the column mapping, so a layout keeps
+// working when the underlying column is renamed or remapped
+export const MONTH_DIMENSION = '$month';
+export const QUARTER_DIMENSION = '$quarter';
+export const YEAR_DIMENSION = '$year';
+export const DEPARTMENT_DIMENSION = '$department';
+
+const TIME_DIMENSIONS = [MONTH_DIMENSION, QUARTER_DIMENSION, YEAR_DIMENSION];
+
+// Time dimensions sort chronologically instead of by value
+export const isTimeDimension = (dimension: string) => TIME_DIMENSIONS.includes(dimension);
+
+const ROLE_MEASURES: { value: string; label: string; key: keyof ColumnKeys }[] = [
+  { value: '$revenue', label: 'Revenue', key: 'revKey' },
+  { value: '$expenses', label: 'Expenses', key: 'expKey' },
+  { value: '$profit', label: 'Profit', key: 'profitKey' },
+];
+
+// Series key used when the aggregation is a plain row count
+export const COUNT_SERIES = 'count';
+
+export interface FieldOption {
+  value: string;
+  label: string;
+}
+
+// Month, quarter, year, department and every text column
+export const listDimensions = (data: DataRow[], keys: ColumnKeys): FieldOption[] => {
+  const options: FieldOption[] = [];
+  if (keys.dateKey) {
+    options.push({ value: MONTH_DIMENSION, label: 'Month' });
+    options.push({ value: QUARTER_DIMENSION, label: 'Quarter' });
+    options.push({ value: YEAR_DIMENSION, label: 'Year' });
+  }
+  if (keys.deptKey) options.push({ value: DEPARTMENT_DIMENSION, label: 'Department' });
+  if (data.length === 0) return options;
+
+  Object.keys(data[0])
+    .filter(column => column !== keys.deptKey && !checkColumnType(data, column, 'numeric').ok && !checkColumnType(data, column, 'date').ok)
+    .forEach(column => options.push({ value: column, label: column }));
+  return options;
+};
+
+// Revenue, expenses and profit (profit is derived when there is no column),
+// then any other numeric column
+export const listMeasures = (data: DataRow[], keys: ColumnKeys): FieldOption[] => {
+  const options = ROLE_MEASURES
+    .filter(m => m.value === '$profit' || keys[m.key])
+    .map(({ value, label }) => ({ value, label }));
+  if (data.length === 0) return options;
+
+  const roleColumns = [keys.revKey, keys.expKey, keys.profitKey, keys.idKey];
+  Object.keys(data[0])
+    .filter(column => !roleColumns.includes(column) && checkColumnType(data, column, 'numeric').ok)
+    .forEach(column => options.push({ value: column, label: column }));
+  return options;
+};
+
+export const fieldLabel = (value: string): string => {
+  if (value === MONTH_DIMENSION) return 'Month';
+  if (value === QUARTER_DIMENSION) return 'Quarter';
+  if (value === YEAR_DIMENSION) return 'Year';
+  if (value === DEPARTMENT_DIMENSION) return 'Department';
+  if (value === COUNT_SERIES) return 'Rows';
+  return ROLE_MEASURES.find(m => m.value === value)?.label ?? value;
+};
+
+// Whether a measure is an amount in the reporting currency
+export const isAmountMeasure = (measure: string, keys: ColumnKeys): boolean =>
+  ROLE_MEASURES.some(m => m.value === measure) ||
+  [keys.revKey, keys.expKey, keys.profitKey].includes(measure);
+
+export const readMeasure = (row: DataRow, measure: string, keys: ColumnKeys): number => {
+  if (measure === '$profit') return readProfit(row, keys);
+  const role = ROLE_MEASURES.find(m => m.value === measure);
+  return readNumber(row, role ? keys[role.key] : measure);
+};
+
+// Group label plus a sort value; time periods follow the fiscal calendar and
+// sort chronologically, undated rows last
+export const readDimension = (
+  row: DataRow,
+  dimension: string,
+  keys: ColumnKeys,
+  calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR
+): { name: string; sortKey: number } => {
+  if (isTimeDimension(dimension)) {
+    const d = readDate(row, keys.dateKey, calendar.timeZone);
+    if (!d) return { name: 'Unknown', sortKey: Number.MAX_SAFE_INTEGER };
+    const { year, quarter, key } = fiscalPeriodOf(d, calendar);
+    if (dimension === YEAR_DIMENSION) return { name: fiscalYearLabel(year, calendar), sortKey: year };
+    if (dimension === QUARTER_DIMENSION) return { name: fiscalQuarterLabel(year, quarter, calendar), sortKey: year * 10 + quarter };
+    return { name: fiscalPeriodLabel(key, calendar), sortKey: key };
+  }
+  if (dimension === DEPARTMENT_DIMENSION) return { name: readDept(row, keys.deptKey), sortKey: 0 };
+  const value = row[dimension];
+  return { name: value === null || value === undefined || value === '' ? '(blank)' : String(value), sortKey: 0 };
+};
+
+interface Accumulator {
+  sum: number;
+  count: number;
+  min: number;
+  max: number;
+}
+
+const finish = (acc: Accumulator, aggregation: Aggregation): number => {
+  switch (aggregation) {
+    case 'avg': return acc.count > 0 ? acc.sum / acc.count : 0;
+    case 'count': return acc.count;
+    case 'min': return acc.count > 0 ? acc.min : 0;
+    case 'max': return acc.count > 0 ? acc.max : 0;
+    default: return acc.sum;
+  }
+};
+
+export interface WidgetData {
+  // One datum per group: { name, [series key]: value }
+  rows: DataRow[];
+  series: FieldOption[];
+  // Aggregate over every row, for KPI tiles
+  total: Record<string, number>;
+}
+
+export interface WidgetAccumulator {
+  add: (row: DataRow) => void;
+  // Takes out a row passed to add before, by object identity
+  remove: (row: DataRow) => void;
+  result: () => WidgetData;
+}
+
+// Keeps a widget's groups up to date one row at a time. Sums and counts move
+// with each row; a group's minimum or maximum is recomputed from its rows only
+// when the row holding it leaves.
+export const createWidgetAccumulator = (
+  chart: ChartConfig,
+  keys: ColumnKeys,
+  calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR
+): WidgetAccumulator => {
+  const measures = chart.aggregation === 'count' ? [COUNT_SERIES] : chart.dataKeys;
+  const series = measures.map(value => ({ value, label: fieldLabel(value) }));
+  const empty = (): Accumulator[] => measures.map(() => ({ sum: 0, count: 0, min: Infinity, max: -Infinity }));
+  const tracksExtremes = chart.aggregation === 'min' || chart.aggregation === 'max';
+
+  // Each group's rows with their measure values
+  const groups = new Map<string, { name: string; sortKey: number; accs: Accumulator[]; members: Map<DataRow, number[]> }>();
+
+  const add = (row: DataRow) => {
+    const { name, sortKey } = readDimension(row, chart.xAxisKey, keys, calendar);
+    let group = groups.get(name);
+    if (!group) {
+      group = { name, sortKey, accs: empty(), members: new Map() };
+      groups.set(name, group);
+    }
+    const values = measures.map(measure => (measure === COUNT_SERIES ? 1 : readMeasure(row, measure, keys)));
+    group.members.set(row, values);
+    values.forEach((value, i) => {
+      const acc = group!.accs[i];
+      acc.sum += value;
+      acc.count += 1;
+      if (value < acc.min) acc.min = value;
+      if (value > acc.max) acc.max = value;
+    });
+  };
+
+  const remove = (row: DataRow) => {
+    const { name } = readDimension(row, chart.xAxisKey, keys, calendar);
+    const group = groups.get(name);
+    const values = group?.members.get(row);
+    if (!group || !values) return;
+    group.members.delete(row);
+    if (group.members.size === 0) {
+      groups.delete(name);
+      return;
+    }
+    values.forEach((value, i) => {
+      const acc = group.accs[i];
+      acc.sum -= value;
+      acc.count -= 1;
+      if (!tracksExtremes || (value !== acc.min && value !== acc.max)) return;
+      acc.min = Infinity;
+      acc.max = -Infinity;
+      group.members.forEach(memberValues => {
+        acc.min = Math.min(acc.min, memberValues[i]);
+        acc.max = Math.max(acc.max, memberValues[i]);
+      });
+    });
+  };
+
+  const result = (): WidgetData => {
+    const toDatum = (name: string, accs: Accumulator[]) => {
+      const datum: DataRow = { name };
+      measures.forEach((measure, i) => { datum[measure] = finish(accs[i], chart.aggregation); });
+      return datum;
+    };
+
+    const grouped = [...groups.values()];
+    if (isTimeDimension(chart.xAxisKey)) grouped.sort((a, b) => a.sortKey - b.sortKey);
+    else if (measures.length > 0) {
+      grouped.sort((a, b) => finish(b.accs[0], chart.aggregation) - finish(a.accs[0], chart.aggregation));
+    }
+    const limited = chart.limit && chart.limit > 0
+      ? (isTimeDimension(chart.xAxisKey) ? grouped.slice(-chart.limit) : grouped.slice(0, chart.limit))
+      : grouped;
+
+    // Totals over every row, from the groups
+    const totals = empty();
+    groups.forEach(group => group.accs.forEach((acc, i) => {
+      totals[i].sum += acc.sum;
+      totals[i].count += acc.count;
+      totals[i].min = Math.min(totals[i].min, acc.min);
+      totals[i].max = Math.max(totals[i].max, acc.max);
+    }));
+    const total: Record<string, number> = {};
+    measures.forEach((measure, i) => { total[measure] = finish(totals[i], chart.aggregation); });
+
+    return { rows: limited.map(g => toDatum(g.name, g.accs)), series, total };
+  };
+
+  return { add, remove, result };
+};
+
+// Groups the rows by the config's dimension and aggregates each measure
+export const aggregateWidget = (
+  rows: DataRow[],
+  chart: ChartConfig,
+  keys: ColumnKeys,
+  calendar: FiscalCalendar = DEFAULT_FISCAL_CALENDAR
+): WidgetData => {
+  const accumulator = createWidgetAccumulator(chart, keys, calendar);
+  rows.forEach(accumulator.add);
+  return accumulator.result();
+};
+
+// --- Layout ---
+
+export const createWidgetId = () => `w-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+// A sensible starting config for a newly added widget of the given type
+export const createWidget = (type: WidgetType): WidgetConfig => {
+  const label = WIDGET_TYPES.find(t => t.value === type)?.label ?? 'Widget';
+  const byMonth = type === 'area' || type === 'line';
+  return {
+    id: createWidgetId(),
+    type,
+    title: type === 'kpi' ? 'Total revenue' : `${label}: revenue by ${byMonth ? 'month' : 'department'}`,
+    size: type === 'kpi' ? 1 : type === 'table' ? 3 : 2,
+    chart: {
+      xAxisKey: byMonth ? MONTH_DIMENSION : DEPARTMENT_DIMENSION,
+      dataKeys: ['$revenue'],
+      aggregation: 'sum',
+      limit: type === 'pie' ? 6 : undefined
+    }
+  };
+};
+
+export const DEFAULT_WIDGET_LAYOUT: WidgetConfig[] = [
+  { id: 'monthly', type: 'area', title: 'Monthly Revenue & Profit', size: 2, preset: 'monthly-trend', chart: { xAxisKey: MONTH_DIMENSION, dataKeys: ['$revenue', '$profit'], aggregation: 'sum' } },
+  { id: 'dept-expenses', type: 'pie', title: 'Expenses by Dept (Top 5)', size: 1, preset: 'department-expenses', chart: { xAxisKey: DEPARTMENT_DIMENSION, dataKeys: ['$expenses'], aggregation: 'sum', limit: 5 } },
+  { id: 'dept-revenue', type: 'bar', title: 'Total Revenue by Department', size: 2, preset: 'department-revenue', chart: { xAxisKey: DEPARTMENT_DIMENSION, dataKeys: ['$revenue'], aggregation: 'sum' } },
+  { id: 'dept-margin', type: 'bar', title: 'Avg Profit Margin %', size: 1, preset: 'department-margin', chart: { xAxisKey: DEPARTMENT_DIMENSION, dataKeys: ['$revenue', '$profit'], aggregation: 'sum' } },
+  { id: 'kpi-revenue', type: 'kpi', title: 'Revenue', size: 1, chart: { xAxisKey: MONTH_DIMENSION, dataKeys: ['$revenue'], aggregation: 'sum' } },
+  { id: 'kpi-expenses', type: 'kpi', title: 'Expenses', size: 1, chart: { xAxisKey: MONTH_DIMENSION, dataKeys: ['$expenses'], aggregation: 'sum' } },
+  { id: 'kpi-orders', type: 'kpi', title: 'Orders', size: 1, chart: { xAxisKey: MONTH_DIMENSION, dataKeys: [], aggregation: 'count' } },
+  { id: 'orders-by-month', type: 'line', title: 'Orders per month', size: 2, chart: { xAxisKey: MONTH_DIMENSION, dataKeys: [], aggregation: 'count' } },
+  { id: 'avg-order-by-dept', type: 'bar', title: 'Average order value by department', size: 1, chart: { xAxisKey: DEPARTMENT_DIMENSION, dataKeys: ['$revenue'], aggregation: 'avg' } },
+];
+
+export const moveWidget = (layout: WidgetConfig[], id: string, offset: number): WidgetConfig[] => {
+  const from = layout.findIndex(w => w.id === id);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= layout.length) return layout;
+  const next = [...layout];
+  const [widget] = next.splice(from, 1);
+  next.splice(to, 0, widget);
+  return next;
+};
+
+// --- Persistence ---
+
+const storageKey = (sourceId: string) => `${STORAGE_PREFIX}:widgets:${sourceId}`;
+
+export const loadWidgetLayout = (sourceId: string): WidgetConfig[] => {
+  try {
+    const raw = localStorage.getItem(storageKey(sourceId));
+    return raw ? JSON.parse(raw) as WidgetConfig[] : DEFAULT_WIDGET_LAYOUT;
+  } catch (e) {
+    console.warn(`Could not read widget layout for ${sourceId}:`, e);
+    return DEFAULT_WIDGET_LAYOUT;
+  }
+};
+
+export const saveWidgetLayout = (sourceId: string, layout: WidgetConfig[]) => {
+  try {
+    localStorage.setItem(storageKey(sourceId), JSON.stringify(layout));
+  } catch (e) {
+    console.warn(`Could not save widget layout for ${sourceId}:`, e);
+  }
+};
+
+export const resetWidgetLayout = (sourceId: string) => {
+  try {
+    localStorage.removeItem(storageKey(sourceId));
+  } catch (e) {
+    console.warn(`Could not reset widget layout for ${sourceId}:`, e);
+  }
+};
@@ -1,10 +1,65 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
 export interface DataRow {
   [key: string]: any;
 }
 
+export type WidgetType = 'area' | 'bar' | 'line' | 'pie' | 'kpi' | 'table';
+
+export type Aggregation = 'sum' | 'avg' | 'count' | 'min' | 'max';
+
 export interface ChartConfig {
+  // Group-by dimension: a column name, or a role token such as '$month'
   xAxisKey: string;
+  // Measures: column names, or role tokens such as '$revenue'
   dataKeys: string[];
+  aggregation: Aggregation;
+  // Keep only the first N groups (largest first for non-time dimensions)
+  limit?: number;
+}
+
+// Column span on the three-column dashboard grid
+export type WidgetSize = 1 | 2 | 3;
+
+// Built-in dashboard charts, drawn from the analytics with comparisons, forecast and drill-down
+export type WidgetPreset = 'monthly-trend' | 'department-revenue' | 'department-expenses' | 'department-margin';
+
+export interface WidgetConfig {
+  id: string;
+  type: WidgetType;
+  title: string;
+  size: WidgetSize;
+  chart: ChartConfig;
+  // Set for built-in charts; `chart` then describes the same figures, and editing
+  // the widget turns it into a plain one
+  preset?: WidgetPreset;
+}
+
+export type QueryOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'contains' | 'between';
+
+export interface QueryFilter {
+  // A dimension or measure token/column, or '$date' for the date column
+  field: string;
+  op: QueryOperator;
+  // One value, two for 'between', any number for 'in'. Dates are YYYY-MM-DD.
+  values: (string | number)[];
+}
+
+export interface QueryMeasure {
+  // Ignored for 'count'
+  field: string;
+  aggregation: Aggregation;
+}
+
+// A validated question, run locally against the loaded rows
+export interface QuerySpec {
+  filters: QueryFilter[];
+  groupBy: string[];
+  measures: QueryMeasure[];
+  // A groupBy field or a measure key (see measureKey)
+  sort: { key: string; direction: 'asc' | 'desc' } | null;
+  limit: number | null;
+  chart: 'bar' | 'line' | 'table';
 }
 
 export interface InsightData {
@@ -12,3 +67,364 @@ export interface InsightData {
   trends: string[];
   anomalies: string[];
 }
+
+// Pre-aggregated figures sent to the model instead of raw rows
+export interface InsightDigest {
+  tableName: string;
+  rowCount: number;
+  // YYYY-MM-DD bounds of the dated rows
+  dateRange: { from: string; to: string } | null;
+  columns: { role: string; column: string | null }[];
+  totals: { revenue: number; expenses: number; profit: number; margin: number | null };
+  // Per-order distribution of each amount
+  stats: { measure: string; mean: number; median: number; stdDev: number; min: number; max: number; p5: number; p95: number }[];
+  monthly: { month: string; revenue: number; expenses: number; profit: number; orders: number }[];
+  departments: { name: string; revenue: number; expenses: number; profit: number; margin: number | null; orders: number }[];
+  // Largest and most negative orders by profit
+  outliers: { id: string; department: string; date: string | null; revenue: number; profit: number }[];
+  budget: BudgetVariance[];
+}
+
+export type InsightProviderKind = 'gemini' | 'openai' | 'mock';
+
+export interface InsightProviderSettings {
+  kind: InsightProviderKind;
+  // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+}
+
+// One stored insights run for a table
+export interface InsightRun {
+  id: string;
+  // ISO timestamp
+  createdAt: string;
+  // Hash of the provider and prompt; equal fingerprints mean the same input
+  fingerprint: string;
+  provider: string;
+  insights: InsightData;
+}
+
+// Items that appeared or disappeared between two runs
+export interface InsightDiff {
+  newTrends: string[];
+  resolvedTrends: string[];
+  newAnomalies: string[];
+  resolvedAnomalies: string[];
+}
+
+// A backend that turns a digest into insights. Throws on failure; never
+// returns placeholder text in place of an error.
+export interface InsightProvider {
+  kind: InsightProviderKind;
+  label: string;
+  generateInsights: (digest: InsightDigest, prompt: string) => Promise<InsightData>;
+  // Answer to a query prompt (see buildQueryPrompt); untrusted until validateQuerySpec
+  generateQuerySpec: (prompt: string) => Promise<unknown>;
+}
+
+// Semantic roles the dashboard needs from a table
+export type ColumnRole = 'department' | 'revenue' | 'expenses' | 'profit' | 'date' | 'id' | 'currency';
+
+// Saved overrides per role: a column name, or null when the role is explicitly cleared.
+// Roles that are absent fall back to auto-detection.
+export type ColumnMapping = Partial<Record<ColumnRole, string | null>>;
+
+// Resolved column for each role, null when the table has no column for it
+export interface ColumnKeys {
+  deptKey: string | null;
+  revKey: string | null;
+  expKey: string | null;
+  profitKey: string | null;
+  dateKey: string | null;
+  idKey: string | null;
+  currencyKey: string | null;
+}
+
+// A single row-level change from the realtime feed.
+// `old` carries at least the primary key columns for UPDATE and DELETE.
+export interface RowChange {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: DataRow;
+  old: DataRow;
+}
+
+export type DateRangePreset = 'all' | 'mtd' | 'qtd' | 'ytd' | 't12m' | 'custom';
+
+// Period compared against: previous month (MoM) or same period last year (YoY)
+export type ComparisonMode = 'none' | 'mom' | 'yoy';
+
+export interface DateRangeFilter {
+  preset: DateRangePreset;
+  // Inclusive YYYY-MM-DD bounds, used by the custom preset
+  from?: string;
+  to?: string;
+  comparison: ComparisonMode;
+}
+
+// Department and/or month the dashboard is drilled into
+export interface DrillFilter {
+  department?: string;
+  // Month sort key (YYYYMM, zero-based month) and its display label
+  month?: number;
+  monthLabel?: string;
+}
+
+// 'reconnecting' while waiting to retry after the connection dropped
+export type RealtimeStatus = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+export interface LoadProgress {
+  loaded: number;
+  total: number | null;
+}
+
+export interface LoadResult {
+  rows: DataRow[];
+  total: number | null;
+  // False when only part of the source was loaded
+  complete: boolean;
+  // Joined lookup tables with more rows than were read; some joined columns are missing
+  incompleteLookups?: string[];
+}
+
+// Rows whose column equals the value; everything else stays on the server
+export interface RowScope {
+  column: string;
+  value: string;
+}
+
+export interface LoadOptions {
+  // Picks a unique, orderable column from a sample row for keyset paging
+  pickKey: (sample: DataRow) => string | null;
+  // Limits the rows requested, e.g. to a department head's department. May throw to refuse the load.
+  pickScope?: (sample: DataRow) => RowScope | null;
+  onProgress?: (progress: LoadProgress) => void;
+}
+
+export interface DataSourceCapabilities {
+  // Pushes row changes after the initial load
+  realtime: boolean;
+  // Loading again can return different rows
+  refresh: boolean;
+}
+
+// A named Supabase project to connect to
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  url: string;
+  // Anon (publishable) key
+  key: string;
+  schema: string;
+  defaultTable: string;
+  // Profiles from env config are read-only in the UI
+  origin: 'env' | 'user';
+}
+
+// A column as reported by the schema browser
+export interface SchemaColumn {
+  name: string;
+  // Postgres type, e.g. "numeric" or "timestamp with time zone"
+  type: string;
+  nullable: boolean;
+  primaryKey: boolean;
+  // Set when the column references another relation
+  foreignKey: { table: string; column: string } | null;
+}
+
+// A table or view the current connection can read
+export interface SchemaTable {
+  name: string;
+  kind: 'table' | 'view';
+  columns: SchemaColumn[];
+  // Null until counted, or when the count failed
+  rowCount: number | null;
+  description?: string;
+}
+
+// Joins a lookup table onto each row by a foreign-key column, e.g. orders.department_id -> departments.id
+export interface TableRelation {
+  // Column on the source rows holding the reference
+  column: string;
+  // Lookup table on the same connection, and its key column
+  table: string;
+  key: string;
+  // Lookup column copied into the row under the prefix itself, e.g. departments.name -> "department"
+  labelField: string;
+  // Other lookup columns, copied as "<prefix>_<field>"
+  fields: string[];
+  prefix: string;
+}
+
+// Controllers see every department; department heads only their own
+export type UserRole = 'controller' | 'department_head';
+
+// What the signed-in user may see, from their Supabase Auth claims
+export interface UserAccess {
+  userId: string;
+  email: string;
+  role: UserRole;
+  // Set for department heads
+  department: string | null;
+}
+
+// Where the dashboard's rows come from: a live table, an uploaded file or a fixture
+export interface DataSource {
+  kind: 'supabase' | 'file' | 'fixture';
+  // Stable identifier, used to key per-source settings such as column mappings
+  id: string;
+  // Name shown in the UI and passed to the insights prompt
+  label: string;
+  // Name of the connection profile, for database-backed sources
+  connection?: string;
+  // That connection's client, for tables read alongside the source (budgets, exchange rates)
+  client?: SupabaseClient<any, any, any>;
+  capabilities: DataSourceCapabilities;
+  load: (options: LoadOptions) => Promise<LoadResult>;
+  // Returns an unsubscribe function. Only called when capabilities.realtime is set.
+  subscribe?: (onChange: (change: RowChange) => void, onStatus: (status: RealtimeStatus) => void) => () => void;
+  // Rows whose change column is at or after `since`, to catch up on events missed while offline
+  fetchChangedSince?: (column: string, since: string) => Promise<DataRow[]>;
+}
+
+// Planned amounts for one department in one month
+export interface BudgetEntry {
+  department: string;
+  // YYYY-MM
+  month: string;
+  revenue: number | null;
+  expenses: number | null;
+}
+
+// Budgets are typed in, or read from a Supabase table keyed by department and month
+export interface BudgetConfig {
+  mode: 'manual' | 'table';
+  tableName?: string;
+  entries: BudgetEntry[];
+}
+
+// Budget against actual for one department over the selected period
+export interface BudgetVariance {
+  department: string;
+  revenueBudget: number | null;
+  revenueActual: number;
+  revenueVariance: number | null;
+  revenueVariancePct: number | null;
+  expensesBudget: number | null;
+  expensesActual: number;
+  expensesVariance: number | null;
+  expensesVariancePct: number | null;
+}
+
+export type ForecastModel = 'none' | 'linear' | 'holt-winters';
+
+export interface ForecastSettings {
+  model: ForecastModel;
+  // Months to project past the last actual month
+  horizon: number;
+}
+
+export type AnomalyRule = 'zscore' | 'iqr' | 'negative-margin' | 'duplicate-id' | 'weekend' | 'after-hours';
+
+// A record flagged by the local anomaly engine
+export interface Anomaly {
+  rule: AnomalyRule;
+  severity: 'high' | 'medium' | 'low';
+  reason: string;
+  // Primary key values (or "#<index>" when the table has none) of the flagged rows
+  rowIds: string[];
+  rows: DataRow[];
+}
+
+// Calendar months, or 13-week quarters split into 4-4-5 or 4-5-4 week periods
+export type FiscalPattern = 'calendar' | '4-4-5' | '4-5-4';
+
+// How dates are grouped into fiscal periods, quarters and years
+export interface FiscalCalendar {
+  // 0 = January; a fiscal year is named after the calendar year it ends in
+  startMonth: number;
+  pattern: FiscalPattern;
+  // IANA time zone for reading dates, e.g. "Europe/Berlin"; null uses the browser's
+  timeZone: string | null;
+}
+
+export type GridColumnKind = 'text' | 'numeric' | 'date' | 'enum';
+
+// A per-column filter in the data grid; empty bounds are open
+export type GridFilter =
+  | { kind: 'text'; value: string }
+  | { kind: 'numeric'; min: number | null; max: number | null }
+  // YYYY-MM-DD, both inclusive
+  | { kind: 'date'; from: string | null; to: string | null }
+  | { kind: 'enum'; values: string[] };
+
+export interface GridSort {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+// Data grid settings, saved per source
+export interface GridState {
+  search: string;
+  filters: Record<string, GridFilter>;
+  // Applied in order; later entries break ties
+  sort: GridSort[];
+  hidden: string[];
+  pageSize: number;
+  // Apply the grid's search and filters to the charts as well
+  driveCharts: boolean;
+}
+
+// Single-row amount over/under a limit, month-on-month growth, or any loss-making row
+export type AlertRuleKind = 'row-threshold' | 'monthly-growth' | 'negative-margin';
+
+// A user-defined alert, checked on live rows and on every recompute
+export interface AlertRule {
+  id: string;
+  name: string;
+  kind: AlertRuleKind;
+  // '$revenue', '$expenses' or '$profit'
+  measure: string;
+  comparator: 'above' | 'below';
+  // An amount for row thresholds, a percentage of last month for growth rules,
+  // a margin in percent for margin rules
+  threshold: number;
+  // Growth rules only: compare each department separately, or the total
+  perDepartment: boolean;
+  enabled: boolean;
+  // Also show a browser notification
+  notify: boolean;
+}
+
+// One rule match in the alert feed
+export interface Alert {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  message: string;
+  // What was matched, e.g. "row:123" or "Marketing:2024-05"; a rule fires once per subject
+  subject: string;
+  createdAt: string;
+  acknowledged: boolean;
+  // ISO time until which the alert is hidden
+  snoozedUntil: string | null;
+}
+
+// 1 unit of `base` is worth `rate` units of `quote` on `date` (YYYY-MM-DD)
+export interface FxRate {
+  date: string;
+  base: string;
+  quote: string;
+  rate: number;
+}
+
+// Reporting currency and where exchange rates come from, saved per source
+export interface CurrencyConfig {
+  reportingCurrency: string;
+  rateSource: 'none' | 'table' | 'file';
+  tableName?: string;
+  fileName?: string;
+  // Rates parsed from an uploaded file
+  fileRates?: FxRate[];
+}
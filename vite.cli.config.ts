@@ -0,0 +1,12 @@
+import { defineConfig } from 'vite';
+
+// Bundles the report CLI for Node. Unlike vite.config.ts there is no `define`:
+// SUPABASE_* variables are read when the report runs, not baked in at build time.
+export default defineConfig({
+  build: {
+    ssr: 'cli/report.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    emptyOutDir: true,
+  },
+});
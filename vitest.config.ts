@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests run in Node like the report CLI, so they skip vite.config.ts and its
+// `define`: process.env is read as it is when the tests run.
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', 'dist/**', 'dist-cli/**'],
+  },
+});